@@ -0,0 +1,147 @@
+// One-off backfill: rewrite stored URLs to their canonical form (src/workflow/lib/url.ts)
+// Run: DATABASE_URL=... bun run backfill-urls.ts          (dry run, prints changes)
+//      DATABASE_URL=... bun run backfill-urls.ts --apply  (writes them)
+//
+// competitions.urlsource and competitions.url are canonicalized. Rows whose
+// urlsource collapses onto an earlier row's are the same post stored twice:
+// they are marked as duplicates of the earliest row. A row that cannot
+// become a duplicate (already archived) is skipped and keeps its urlsource,
+// so it never collides with the canonical row. source_mentions rows are
+// rewritten too, dropping any that collide with an existing mention.
+//
+// Everything is written in one transaction: duplicates are marked first,
+// taking them out of the unique urlsource index, then URLs are rewritten.
+// Any failure rolls the whole backfill back.
+
+import postgres from "postgres";
+import type { CompetitionRow } from "./src/schema.js";
+import { config } from "./src/workflow/lib/config.js";
+import { canTransition, transitionStatus } from "./src/workflow/lib/competition-status.js";
+import { withTransaction } from "./src/workflow/lib/db-utils.js";
+import { canonicalizeUrl } from "./src/workflow/lib/url.js";
+
+type UrlRow = Pick<CompetitionRow, "id" | "urlsource" | "url" | "duplicateOf" | "status">;
+
+interface UrlChange {
+  id: number;
+  urlsource: string | null;
+  url: string | null;
+}
+
+const apply = process.argv.includes("--apply");
+const databaseUrl = process.env.DATABASE_URL;
+if (!databaseUrl) {
+  console.error("DATABASE_URL is not set");
+  process.exit(1);
+}
+
+const sql = postgres(databaseUrl, { ssl: config.db.ssl, max: 1 });
+
+try {
+  console.log(`=== Canonical URL backfill (${apply ? "apply" : "dry run"}) ===\n`);
+
+  const result = await withTransaction(sql, async (tx) => {
+    const rows = await tx<UrlRow[]>`
+      SELECT id, urlsource, url, "duplicateOf", status
+      FROM competitions
+      ORDER BY id
+      FOR UPDATE
+    `;
+
+    // Canonical urlsource -> first (canonical) competition id
+    const owners = new Map<string, number>();
+    const duplicates: { id: number; duplicateOf: number }[] = [];
+    const changes: UrlChange[] = [];
+    const skipped: number[] = [];
+
+    for (const row of rows) {
+      let urlsource = row.urlsource ? canonicalizeUrl(row.urlsource) : row.urlsource;
+      const url = row.url ? canonicalizeUrl(row.url) : row.url;
+
+      const owner = urlsource ? owners.get(urlsource) : undefined;
+      if (urlsource && owner === undefined) owners.set(urlsource, row.duplicateOf ?? row.id);
+
+      // Collision: an earlier row already owns this urlsource
+      if (owner !== undefined && row.duplicateOf === null) {
+        if (canTransition(row.status, "duplicate")) {
+          duplicates.push({ id: row.id, duplicateOf: owner });
+          console.log(`[${row.id}] duplicate of ${owner} (${urlsource})`);
+        } else {
+          skipped.push(row.id);
+          urlsource = row.urlsource;
+          console.log(`[${row.id}] skipped: ${row.status} row collides with ${owner} (${urlsource})`);
+        }
+      }
+
+      if (urlsource === row.urlsource && url === row.url) continue;
+      changes.push({ id: row.id, urlsource, url });
+      console.log(`[${row.id}] urlsource: ${row.urlsource} -> ${urlsource}`);
+      if (url !== row.url) console.log(`      url: ${row.url} -> ${url}`);
+    }
+
+    if (apply) {
+      for (const { id, duplicateOf } of duplicates) {
+        const outcome = await transitionStatus(tx, id, "duplicate", { actor: "system" }, { duplicateOf });
+        if (outcome.outcome !== "changed") {
+          throw new Error(`Could not mark ${id} as a duplicate of ${duplicateOf}: ${outcome.outcome}`);
+        }
+      }
+      for (const { id, urlsource, url } of changes) {
+        await tx`
+          UPDATE competitions
+          SET urlsource = ${urlsource}, url = ${url}, "updatedAt" = NOW()
+          WHERE id = ${id}
+        `;
+      }
+    }
+
+    const [{ exists }] = await tx<{ exists: boolean }[]>`
+      SELECT to_regclass('source_mentions') IS NOT NULL AS exists
+    `;
+
+    let mentionsRewritten = 0;
+    let mentionsDropped = 0;
+
+    if (exists) {
+      const mentions = await tx<{ id: number; urlsource: string }[]>`
+        SELECT id, urlsource FROM source_mentions ORDER BY id FOR UPDATE
+      `;
+
+      // Canonical urlsource -> mentions collapsing onto it
+      const groups = new Map<string, { id: number; urlsource: string }[]>();
+      for (const mention of mentions) {
+        const urlsource = canonicalizeUrl(mention.urlsource);
+        groups.set(urlsource, [...(groups.get(urlsource) ?? []), mention]);
+      }
+
+      for (const [urlsource, group] of groups) {
+        // Keep the mention already stored canonically, else the oldest
+        const keeper = group.find((m) => m.urlsource === urlsource) ?? group[0];
+        for (const mention of group) {
+          if (mention === keeper) continue;
+          mentionsDropped++;
+          if (apply) await tx`DELETE FROM source_mentions WHERE id = ${mention.id}`;
+        }
+        if (keeper.urlsource === urlsource) continue;
+
+        mentionsRewritten++;
+        if (apply) {
+          await tx`UPDATE source_mentions SET urlsource = ${urlsource} WHERE id = ${keeper.id}`;
+        }
+      }
+    }
+
+    return { rows, changes, duplicates, skipped, mentionsRewritten, mentionsDropped };
+  });
+
+  console.log("\n=== Results ===");
+  console.log("Competitions scanned:", result.rows.length);
+  console.log("Competitions rewritten:", result.changes.length);
+  console.log("Marked as duplicate:", result.duplicates.length);
+  console.log("Skipped collisions:", result.skipped.length);
+  console.log("Mentions rewritten:", result.mentionsRewritten);
+  console.log("Mentions dropped:", result.mentionsDropped);
+  if (!apply) console.log("\nDry run, re-run with --apply to write changes");
+} finally {
+  await sql.end({ timeout: 10 });
+}
@@ -0,0 +1,28 @@
+-- Baseline competitions table, as created before migrations were versioned.
+-- IF NOT EXISTS lets an existing database adopt the migration history.
+CREATE TABLE IF NOT EXISTS competitions (
+  id SERIAL PRIMARY KEY,
+  title TEXT,
+  description TEXT,
+  poster TEXT,
+  urlsource TEXT,
+  url TEXT,
+  organizer JSONB,
+  categories JSONB,
+  level JSONB,
+  "startDate" DATE,
+  "endDate" DATE,
+  format TEXT,
+  "participationType" TEXT,
+  pricing JSONB,
+  contact JSONB,
+  location TEXT,
+  "prizePool" TEXT,
+  benefits TEXT,
+  "socialMedia" JSONB,
+  views INTEGER DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'draft',
+  "whatsappChannel" BOOLEAN DEFAULT FALSE,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
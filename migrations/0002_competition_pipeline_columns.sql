@@ -0,0 +1,15 @@
+-- Columns the pipeline used to add at runtime (ensureCompetitionColumns):
+-- poster slides and variants, dedup links and registration link checks.
+ALTER TABLE competitions
+  ADD COLUMN IF NOT EXISTS posters JSONB,
+  ADD COLUMN IF NOT EXISTS "bioLinks" JSONB,
+  ADD COLUMN IF NOT EXISTS "posterKeys" JSONB,
+  ADD COLUMN IF NOT EXISTS "posterPending" BOOLEAN,
+  ADD COLUMN IF NOT EXISTS "posterRepairAttempts" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "posterHash" TEXT,
+  ADD COLUMN IF NOT EXISTS "duplicateOf" INTEGER REFERENCES competitions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "urlFinal" TEXT,
+  ADD COLUMN IF NOT EXISTS "urlStatus" INTEGER,
+  ADD COLUMN IF NOT EXISTS "urlType" TEXT,
+  ADD COLUMN IF NOT EXISTS "urlBroken" BOOLEAN,
+  ADD COLUMN IF NOT EXISTS "urlCheckedAt" TIMESTAMPTZ;
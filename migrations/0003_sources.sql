@@ -0,0 +1,36 @@
+-- Instagram accounts to scrape (lib/instagram-sources.ts)
+CREATE TABLE IF NOT EXISTS sources (
+  "username" TEXT PRIMARY KEY,
+  "enabled" BOOLEAN NOT NULL DEFAULT TRUE,
+  "priority" INTEGER NOT NULL DEFAULT 0,
+  "notes" TEXT,
+  "lastSuccessAt" TIMESTAMPTZ,
+  "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+  "lastError" TEXT,
+  "disabledReason" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Crawl high-water marks (lib/source-state.ts)
+CREATE TABLE IF NOT EXISTS source_state (
+  "sourceId" TEXT PRIMARY KEY,
+  "cursor" TEXT,
+  "cursorAt" TIMESTAMPTZ,
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Per-source run history and quarantine (lib/source-health.ts)
+CREATE TABLE IF NOT EXISTS source_health (
+  "sourceId" TEXT PRIMARY KEY,
+  "lastRunAt" TIMESTAMPTZ,
+  "lastSuccessAt" TIMESTAMPTZ,
+  "lastError" TEXT,
+  "errorStreak" INTEGER NOT NULL DEFAULT 0,
+  "emptyStreak" INTEGER NOT NULL DEFAULT 0,
+  "runs" INTEGER NOT NULL DEFAULT 0,
+  "successRuns" INTEGER NOT NULL DEFAULT 0,
+  "avgYield" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "quarantinedAt" TIMESTAMPTZ,
+  "quarantineReason" TEXT
+);
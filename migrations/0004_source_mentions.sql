@@ -0,0 +1,14 @@
+-- Every post promoting a competition, reposts included (lib/source-mentions.ts)
+CREATE TABLE IF NOT EXISTS source_mentions (
+  id SERIAL PRIMARY KEY,
+  "competitionId" INTEGER NOT NULL REFERENCES competitions(id) ON DELETE CASCADE,
+  urlsource TEXT NOT NULL UNIQUE,
+  source TEXT,
+  account TEXT,
+  "matchedBy" TEXT NOT NULL,
+  score DOUBLE PRECISION,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS source_mentions_competition_idx
+  ON source_mentions ("competitionId");
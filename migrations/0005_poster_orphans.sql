@@ -0,0 +1,6 @@
+-- Unreferenced poster objects waiting out the GC grace period (lib/poster-gc.ts)
+CREATE TABLE IF NOT EXISTS poster_orphans (
+  key TEXT PRIMARY KEY,
+  size BIGINT NOT NULL,
+  "orphanedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
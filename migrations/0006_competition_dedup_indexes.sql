@@ -0,0 +1,11 @@
+-- One competition per canonical post URL, so concurrent runs cannot insert
+-- the same post twice (insertToDb uses ON CONFLICT DO NOTHING). Rows that
+-- share a urlsource from before canonicalization were marked duplicateOf by
+-- backfill:urls and are left out, as are rows stored without a link.
+CREATE UNIQUE INDEX IF NOT EXISTS competitions_urlsource_key
+  ON competitions (urlsource)
+  WHERE urlsource <> '' AND "duplicateOf" IS NULL;
+
+-- Exact description lookups for a batch (findCompetitionsByDescription)
+CREATE INDEX IF NOT EXISTS competitions_description_md5_idx
+  ON competitions (md5(btrim(description, E' \t\r\n')));
@@ -0,0 +1,15 @@
+-- Field-level history of competitions (lib/competition-revisions.ts):
+-- one row per changed field, with who changed it and in which run.
+CREATE TABLE IF NOT EXISTS competition_revisions (
+  id SERIAL PRIMARY KEY,
+  "competitionId" INTEGER NOT NULL REFERENCES competitions(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  "oldValue" JSONB,
+  "newValue" JSONB,
+  actor TEXT NOT NULL,
+  "runId" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS competition_revisions_competition_idx
+  ON competition_revisions ("competitionId", id);
@@ -0,0 +1,23 @@
+-- Competition lifecycle (lib/competition-status.ts): draft → published →
+-- archived, 'duplicate' for linked reposts. Only 'draft' and 'duplicate'
+-- were written before; existing rows get the status the lifecycle would
+-- have given them.
+UPDATE competitions
+SET status = 'archived'
+WHERE status IN ('draft', 'published')
+  AND "endDate" < CURRENT_DATE;
+
+-- Already sent to WhatsApp, or has every REQUIRED_FIELDS field
+UPDATE competitions
+SET status = 'published'
+WHERE status = 'draft'
+  AND ("whatsappChannel" = true
+    OR (title <> '' AND poster <> '' AND "endDate" IS NOT NULL));
+
+ALTER TABLE competitions
+  ADD CONSTRAINT competitions_status_check
+  CHECK (status IN ('draft', 'published', 'archived', 'duplicate'));
+
+-- WhatsApp sending and the archive job select by status
+CREATE INDEX IF NOT EXISTS competitions_status_idx
+  ON competitions (status);
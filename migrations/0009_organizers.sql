@@ -0,0 +1,28 @@
+-- Organizers of competitions (lib/organizers.ts). competitions.organizer
+-- keeps the extracted names; each name is matched to an organizer (fuzzy,
+-- e.g. "BEM UI" = "BEM Universitas Indonesia") and linked here.
+CREATE TABLE IF NOT EXISTS organizers (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  "normalizedName" TEXT NOT NULL UNIQUE,
+  aliases JSONB NOT NULL DEFAULT '[]',
+  type TEXT,
+  logo TEXT,
+  website TEXT,
+  instagram TEXT UNIQUE,
+  "isVerified" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS competition_organizers (
+  "competitionId" INTEGER NOT NULL REFERENCES competitions(id) ON DELETE CASCADE,
+  "organizerId" INTEGER NOT NULL REFERENCES organizers(id) ON DELETE CASCADE,
+  "matchedBy" TEXT NOT NULL,
+  score DOUBLE PRECISION,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY ("competitionId", "organizerId")
+);
+
+CREATE INDEX IF NOT EXISTS competition_organizers_organizer_idx
+  ON competition_organizers ("organizerId");
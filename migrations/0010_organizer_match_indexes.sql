@@ -0,0 +1,17 @@
+-- Candidate lookups for organizer matching (findOrganizerCandidates in
+-- lib/organizers.ts), so linking a name never reads the whole table:
+-- trigram similarity of names and aliases, aliases containing a name, and
+-- names sharing a first letter (abbreviations).
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS organizers_name_trgm_idx
+  ON organizers USING GIN ("normalizedName" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS organizers_aliases_trgm_idx
+  ON organizers USING GIN ((aliases::text) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS organizers_aliases_idx
+  ON organizers USING GIN (aliases jsonb_path_ops);
+
+CREATE INDEX IF NOT EXISTS organizers_initial_idx
+  ON organizers (left("normalizedName", 1));
@@ -0,0 +1,15 @@
+import { createMiddleware } from "hono/factory";
+import type { Env } from "../workflows/competition-workflow.js";
+
+/**
+ * Admin routes require ?code=SCRAPING_SECRET_CODE. Mounted once per admin
+ * path in index.ts, so the APIs under src/api do not check it themselves.
+ */
+export const requireSecretCode = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+	const { code } = c.req.query();
+	const secretCode = c.env.SCRAPING_SECRET_CODE || process.env.SCRAPING_SECRET_CODE;
+	if (!code || code !== secretCode) {
+		return c.json({ success: false, error: "Unauthorized: Invalid or missing code" }, 401);
+	}
+	await next();
+});
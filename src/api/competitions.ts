@@ -0,0 +1,132 @@
+import { Hono, type Context } from "hono";
+import postgres from "postgres";
+import { config } from "../workflow/lib/config.js";
+import { getCompetitionRevisions, revertRevision } from "../workflow/lib/competition-revisions.js";
+import {
+	COMPETITION_STATUSES,
+	isCompetitionStatus,
+	transitionStatus,
+} from "../workflow/lib/competition-status.js";
+import { handleCompetitionArchive } from "../workers/competition-archive.js";
+import type { Env } from "../workflows/competition-workflow.js";
+
+/**
+ * Admin API for competition status and change history (competition_revisions).
+ * Mounted at /api/competitions; every route requires ?code=SCRAPING_SECRET_CODE
+ * (requireSecretCode, see index.ts).
+ *
+ *   PATCH /api/competitions/:id/status                          { status, duplicateOf? } (lifecycle transitions only;
+ *                                                               duplicateOf resolves to its canonical row)
+ *   POST  /api/competitions/archive                             archive expired competitions (?dryRun=true to list)
+ *   GET   /api/competitions/:id/revisions                       field changes, newest first
+ *   POST  /api/competitions/:id/revisions/:revisionId/revert    set the field back to its old value (409 for status)
+ */
+
+type AppContext = Context<{ Bindings: Env }>;
+
+/** Positive integer route parameter, null otherwise */
+function parseId(value: string): number | null {
+	const id = Number(value);
+	return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/** Run a query, closing the connection afterwards */
+async function withDb<T>(
+	c: AppContext,
+	fn: (sql: ReturnType<typeof postgres>) => Promise<T>,
+): Promise<T> {
+	const sql = postgres(c.env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	try {
+		return await fn(sql);
+	} finally {
+		await sql.end({ timeout: 10 }).catch(() => {});
+	}
+}
+
+export const competitionsApi = new Hono<{ Bindings: Env }>();
+
+competitionsApi.onError((error, c) => {
+	return c.json({ success: false, error: error.message }, 500);
+});
+
+competitionsApi.patch("/:id/status", async (c) => {
+	const id = parseId(c.req.param("id"));
+	if (!id) {
+		return c.json({ success: false, error: "Invalid competition id" }, 400);
+	}
+
+	const body = await c.req.json().catch(() => ({}));
+	if (!isCompetitionStatus(body.status)) {
+		return c.json({ success: false, error: `status must be one of ${COMPETITION_STATUSES.join(", ")}` }, 400);
+	}
+
+	const duplicateOf = body.duplicateOf === undefined ? undefined : parseId(String(body.duplicateOf));
+	if (duplicateOf === null) {
+		return c.json({ success: false, error: "duplicateOf must be a competition id" }, 400);
+	}
+
+	const result = await withDb(c, (sql) =>
+		transitionStatus(sql, id, body.status, { actor: "admin" }, { duplicateOf }),
+	);
+	switch (result.outcome) {
+		case "not-found":
+			return c.json({ success: false, error: `Competition ${id} not found` }, 404);
+		case "invalid":
+			return c.json({ success: false, error: `Cannot move a ${result.from} competition to ${body.status}` }, 409);
+		case "invalid-duplicate-of":
+			return c.json(
+				{ success: false, error: `duplicateOf ${duplicateOf} is not another existing competition` },
+				400,
+			);
+		case "incomplete":
+			return c.json(
+				{
+					success: false,
+					error: `Cannot move competition ${id} to ${body.status}, missing ${result.missing.join(", ")}`,
+					missing: result.missing,
+				},
+				422,
+			);
+		default:
+			return c.json({ success: true, from: result.from, status: body.status, changed: result.outcome === "changed" });
+	}
+});
+
+competitionsApi.post("/archive", async (c) => {
+	const result = await handleCompetitionArchive(c.env, { dryRun: c.req.query("dryRun") === "true" });
+	return c.json({ success: true, ...result });
+});
+
+competitionsApi.get("/:id/revisions", async (c) => {
+	const id = parseId(c.req.param("id"));
+	if (!id) {
+		return c.json({ success: false, error: "Invalid competition id" }, 400);
+	}
+
+	const revisions = await withDb(c, (sql) => getCompetitionRevisions(sql, id));
+	return c.json({ success: true, revisions });
+});
+
+competitionsApi.post("/:id/revisions/:revisionId/revert", async (c) => {
+	const id = parseId(c.req.param("id"));
+	const revisionId = parseId(c.req.param("revisionId"));
+	if (!id || !revisionId) {
+		return c.json({ success: false, error: "Invalid competition or revision id" }, 400);
+	}
+
+	const result = await withDb(c, (sql) => revertRevision(sql, id, revisionId, { actor: "admin" }));
+	switch (result.outcome) {
+		case "not-found":
+			return c.json({ success: false, error: `Revision ${revisionId} of competition ${id} not found` }, 404);
+		case "not-revertible":
+			return c.json(
+				{
+					success: false,
+					error: `${result.revision.field} changes cannot be reverted; use PATCH /api/competitions/${id}/status`,
+				},
+				409,
+			);
+		default:
+			return c.json({ success: true, field: result.revision.field, changes: result.changes });
+	}
+});
@@ -0,0 +1,146 @@
+import { Hono, type Context } from "hono";
+import postgres from "postgres";
+import { config } from "../workflow/lib/config.js";
+import {
+	listOrganizers,
+	mergeOrganizers,
+	ORGANIZER_TYPES,
+	updateOrganizer,
+	verifyOrganizer,
+	type OrganizerPatch,
+	type OrganizerType,
+} from "../workflow/lib/organizers.js";
+import type { Env } from "../workflows/competition-workflow.js";
+
+/**
+ * Admin API for the `organizers` table.
+ * Mounted at /api/organizers; every route requires ?code=SCRAPING_SECRET_CODE
+ * (requireSecretCode, see index.ts).
+ *
+ *   GET   /api/organizers                 list organizers (?q= to search by name)
+ *   PATCH /api/organizers/:id             { type?, logo?, website?, instagram? }
+ *   POST  /api/organizers/:id/verify      { verified? } (default true)
+ *   POST  /api/organizers/:id/merge       { intoId } moves competitions and names to intoId
+ */
+
+type AppContext = Context<{ Bindings: Env }>;
+
+const USERNAME_PATTERN = /^[a-z0-9._]{1,30}$/;
+
+/** Positive integer, null otherwise */
+function parseId(value: unknown): number | null {
+	const id = Number(value);
+	return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/** Validate the editable fields of a request body */
+function parsePatch(body: Record<string, unknown>): OrganizerPatch | string {
+	const patch: OrganizerPatch = {};
+
+	if (body.type !== undefined) {
+		if (body.type !== null && !ORGANIZER_TYPES.includes(body.type as OrganizerType)) {
+			return `type must be one of ${ORGANIZER_TYPES.join(", ")}`;
+		}
+		patch.type = body.type as OrganizerType | null;
+	}
+	for (const field of ["logo", "website"] as const) {
+		const value = body[field];
+		if (value === undefined) continue;
+		if (value !== null && (typeof value !== "string" || !URL.canParse(value))) {
+			return `${field} must be a URL`;
+		}
+		patch[field] = value as string | null;
+	}
+	if (body.instagram !== undefined) {
+		if (body.instagram === null) {
+			patch.instagram = null;
+		} else {
+			const username =
+				typeof body.instagram === "string" ? body.instagram.trim().replace(/^@/, "").toLowerCase() : "";
+			if (!USERNAME_PATTERN.test(username)) return "instagram must be a valid username";
+			patch.instagram = username;
+		}
+	}
+
+	return patch;
+}
+
+/** Run a query, closing the connection afterwards */
+async function withDb<T>(
+	c: AppContext,
+	fn: (sql: ReturnType<typeof postgres>) => Promise<T>,
+): Promise<T> {
+	const sql = postgres(c.env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	try {
+		return await fn(sql);
+	} finally {
+		await sql.end({ timeout: 10 }).catch(() => {});
+	}
+}
+
+export const organizersApi = new Hono<{ Bindings: Env }>();
+
+organizersApi.onError((error, c) => {
+	// Unique violation: the instagram account belongs to another organizer
+	if ((error as { code?: string }).code === "23505") {
+		return c.json({ success: false, error: "Another organizer already has this Instagram account" }, 409);
+	}
+	return c.json({ success: false, error: error.message }, 500);
+});
+
+organizersApi.get("/", async (c) => {
+	const organizers = await withDb(c, (sql) => listOrganizers(sql, c.req.query("q")));
+	return c.json({ success: true, organizers });
+});
+
+organizersApi.patch("/:id", async (c) => {
+	const id = parseId(c.req.param("id"));
+	if (!id) {
+		return c.json({ success: false, error: "Invalid organizer id" }, 400);
+	}
+
+	const body = await c.req.json().catch(() => ({}));
+	const patch = parsePatch(body);
+	if (typeof patch === "string") {
+		return c.json({ success: false, error: patch }, 400);
+	}
+
+	const organizer = await withDb(c, (sql) => updateOrganizer(sql, id, patch));
+	if (!organizer) {
+		return c.json({ success: false, error: `Organizer ${id} not found` }, 404);
+	}
+	return c.json({ success: true, organizer });
+});
+
+organizersApi.post("/:id/verify", async (c) => {
+	const id = parseId(c.req.param("id"));
+	if (!id) {
+		return c.json({ success: false, error: "Invalid organizer id" }, 400);
+	}
+
+	const body = await c.req.json().catch(() => ({}));
+	if (body.verified !== undefined && typeof body.verified !== "boolean") {
+		return c.json({ success: false, error: "verified must be a boolean" }, 400);
+	}
+
+	const organizer = await withDb(c, (sql) => verifyOrganizer(sql, id, body.verified ?? true));
+	if (!organizer) {
+		return c.json({ success: false, error: `Organizer ${id} not found` }, 404);
+	}
+	return c.json({ success: true, organizer });
+});
+
+organizersApi.post("/:id/merge", async (c) => {
+	const id = parseId(c.req.param("id"));
+	const body = await c.req.json().catch(() => ({}));
+	const intoId = parseId(body.intoId);
+	if (!id || !intoId || id === intoId) {
+		return c.json({ success: false, error: "intoId must be the id of another organizer" }, 400);
+	}
+
+	const organizer = await withDb(c, (sql) => mergeOrganizers(sql, id, intoId));
+	if (!organizer) {
+		return c.json({ success: false, error: `Organizer ${id} or ${intoId} not found` }, 404);
+	}
+	return c.json({ success: true, organizer });
+});
@@ -0,0 +1,160 @@
+import { Hono, type Context } from "hono";
+import postgres, { type Sql } from "postgres";
+import { config } from "../workflow/lib/config.js";
+import {
+	addSource,
+	listSources,
+	reorderSources,
+	seedSources,
+	updateSource,
+	type InstagramSourcePatch,
+} from "../workflow/lib/instagram-sources.js";
+import type { Env } from "../workflows/competition-workflow.js";
+
+/**
+ * Admin API for the Instagram accounts in the `sources` table.
+ * Mounted at /api/sources; every route requires ?code=SCRAPING_SECRET_CODE
+ * (requireSecretCode, see index.ts).
+ *
+ *   GET   /api/sources                  list accounts in scrape order
+ *   POST  /api/sources                  { username, priority?, notes?, enabled? }
+ *   PATCH /api/sources/:username        { enabled?, priority?, notes? }
+ *   POST  /api/sources/reorder          { usernames: [...] }
+ *
+ * A reorder listing a username twice or one that is not stored is
+ * rejected with 400 and changes nothing.
+ */
+
+type AppContext = Context<{ Bindings: Env }>;
+
+/** Opens the connection a request runs on */
+export type ConnectSources = (env: Env) => Sql<Record<string, never>>;
+
+function connectPostgres(env: Env): Sql<Record<string, never>> {
+	return postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+}
+
+const USERNAME_PATTERN = /^[a-z0-9._]{1,30}$/;
+
+/** Normalize "@Lomba.ID " to "lomba.id"; null when not a valid username */
+function parseUsername(value: unknown): string | null {
+	if (typeof value !== "string") return null;
+	const username = value.trim().replace(/^@/, "").toLowerCase();
+	return USERNAME_PATTERN.test(username) ? username : null;
+}
+
+/** Validate the editable fields of a request body */
+function parsePatch(body: Record<string, unknown>): InstagramSourcePatch | string {
+	const patch: InstagramSourcePatch = {};
+
+	if (body.enabled !== undefined) {
+		if (typeof body.enabled !== "boolean") return "enabled must be a boolean";
+		patch.enabled = body.enabled;
+	}
+	if (body.priority !== undefined) {
+		if (!Number.isInteger(body.priority)) return "priority must be an integer";
+		patch.priority = body.priority as number;
+	}
+	if (body.notes !== undefined) {
+		if (body.notes !== null && typeof body.notes !== "string") return "notes must be a string";
+		patch.notes = body.notes as string | null;
+	}
+
+	return patch;
+}
+
+/** Run a query against the sources table, closing the connection afterwards */
+async function withSources<T>(
+	c: AppContext,
+	connect: ConnectSources,
+	fn: (sql: Sql<Record<string, never>>) => Promise<T>,
+): Promise<T> {
+	const sql = connect(c.env);
+	try {
+		await seedSources(sql, config.instagram.accounts);
+		return await fn(sql);
+	} finally {
+		await sql.end({ timeout: 10 }).catch(() => {});
+	}
+}
+
+/**
+ * Build the sources API. `connect` is swapped for an in-memory database in
+ * tests.
+ */
+export function createSourcesApi(connect: ConnectSources = connectPostgres) {
+	const api = new Hono<{ Bindings: Env }>();
+
+	api.onError((error, c) => {
+		return c.json({ success: false, error: error.message }, 500);
+	});
+
+	api.get("/", async (c) => {
+		const sources = await withSources(c, connect, listSources);
+		return c.json({ success: true, sources });
+	});
+
+	api.post("/", async (c) => {
+		const body = await c.req.json().catch(() => ({}));
+		const username = parseUsername(body.username);
+		if (!username) {
+			return c.json({ success: false, error: "A valid Instagram username is required" }, 400);
+		}
+
+		const patch = parsePatch(body);
+		if (typeof patch === "string") {
+			return c.json({ success: false, error: patch }, 400);
+		}
+
+		const source = await withSources(c, connect, (sql) => addSource(sql, username, patch));
+		if (!source) {
+			return c.json({ success: false, error: `@${username} already exists` }, 409);
+		}
+		return c.json({ success: true, source }, 201);
+	});
+
+	api.post("/reorder", async (c) => {
+		const body = await c.req.json().catch(() => ({}));
+		const usernames = Array.isArray(body.usernames) ? body.usernames.map(parseUsername) : null;
+		if (!usernames || usernames.length === 0 || usernames.includes(null)) {
+			return c.json({ success: false, error: "usernames must be a non-empty array of usernames" }, 400);
+		}
+
+		const result = await withSources(c, connect, (sql) => reorderSources(sql, usernames as string[]));
+		if (result.outcome === "invalid") {
+			return c.json(
+				{
+					success: false,
+					error: "usernames must list stored sources at most once",
+					duplicates: result.duplicates,
+					unknown: result.unknown,
+				},
+				400,
+			);
+		}
+		return c.json({ success: true, sources: result.sources });
+	});
+
+	api.patch("/:username", async (c) => {
+		const username = parseUsername(c.req.param("username"));
+		if (!username) {
+			return c.json({ success: false, error: "Invalid username" }, 400);
+		}
+
+		const body = await c.req.json().catch(() => ({}));
+		const patch = parsePatch(body);
+		if (typeof patch === "string") {
+			return c.json({ success: false, error: patch }, 400);
+		}
+
+		const source = await withSources(c, connect, (sql) => updateSource(sql, username, patch));
+		if (!source) {
+			return c.json({ success: false, error: `@${username} not found` }, 404);
+		}
+		return c.json({ success: true, source });
+	});
+
+	return api;
+}
+
+export const sourcesApi = createSourcesApi();
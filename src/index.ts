@@ -1,8 +1,20 @@
 import { Hono } from "hono";
 import { inngest, functions } from "./inngest/index.js";
 import { serve } from "inngest/hono";
+import { requireSecretCode } from "./api/auth.js";
+import { competitionsApi } from "./api/competitions.js";
+import { organizersApi } from "./api/organizers.js";
+import { sourcesApi } from "./api/sources.js";
+import { handleCompetitionArchive } from "./workers/competition-archive.js";
+import { handlePosterGc } from "./workers/poster-gc.js";
+import { handlePosterRepair } from "./workers/poster-repair.js";
+import { config } from "./workflow/lib/config.js";
 // Import workflow class for Cloudflare Workflows binding
-import { CompetitionAutomationWorkflow, type Env } from "./workflows/competition-workflow.js";
+import {
+	CompetitionAutomationWorkflow,
+	type CompetitionWorkflowParams,
+	type Env,
+} from "./workflows/competition-workflow.js";
 
 // Re-export for Cloudflare Workflows (named export required)
 export { CompetitionAutomationWorkflow };
@@ -18,10 +30,6 @@ app.get("/", (c) => {
 app.get("/cron/web", async (c) => {
 	const env = {
 		DATABASE_URL: c.env.DATABASE_URL,
-		R2_ACCESS_KEY_ID: c.env.R2_ACCESS_KEY_ID,
-		R2_SECRET_ACCESS_KEY: c.env.R2_SECRET_ACCESS_KEY,
-		R2_ENDPOINT: c.env.R2_ENDPOINT,
-		R2_BUCKET: c.env.R2_BUCKET,
 		R2_PUBLIC_URL: c.env.R2_PUBLIC_URL,
 		WAHA_API_KEY: c.env.WAHA_API_KEY,
 	};
@@ -38,10 +46,6 @@ app.get("/cron/web", async (c) => {
 app.get("/cron/instagram", async (c) => {
 	const env = {
 		DATABASE_URL: c.env.DATABASE_URL,
-		R2_ACCESS_KEY_ID: c.env.R2_ACCESS_KEY_ID,
-		R2_SECRET_ACCESS_KEY: c.env.R2_SECRET_ACCESS_KEY,
-		R2_ENDPOINT: c.env.R2_ENDPOINT,
-		R2_BUCKET: c.env.R2_BUCKET,
 		R2_PUBLIC_URL: c.env.R2_PUBLIC_URL,
 		WAHA_API_KEY: c.env.WAHA_API_KEY,
 	};
@@ -54,20 +58,41 @@ app.get("/cron/instagram", async (c) => {
 	return c.json({ success: true, message: "Instagram scraping workflow triggered" });
 });
 
+// Admin endpoints require ?code=SCRAPING_SECRET_CODE
+for (const path of [
+	"/api/trigger-scraping",
+	"/api/poster-gc",
+	"/api/sources/*",
+	"/api/competitions/*",
+	"/api/organizers/*",
+]) {
+	app.use(path, requireSecretCode);
+}
+
 // API endpoint: Manually trigger IG scraping pipeline with security
 // Usage: GET /api/trigger-scraping?code=YOUR_SECRET_CODE
+// Backfill new accounts: &backfill=user1,user2&days=30
 app.get("/api/trigger-scraping", async (c) => {
-	const { code } = c.req.query();
+	const { backfill, days } = c.req.query();
 
-	// Security check
-	const secretCode = c.env.SCRAPING_SECRET_CODE || process.env.SCRAPING_SECRET_CODE;
-	if (!code || code !== secretCode) {
-		return c.json({ success: false, error: "Unauthorized: Invalid or missing code" }, 401);
+	const backfillDays = days ? Number(days) : undefined;
+	if (backfillDays !== undefined && (!Number.isInteger(backfillDays) || backfillDays <= 0)) {
+		return c.json({ success: false, error: "days must be a positive integer" }, 400);
 	}
 
+	const params: CompetitionWorkflowParams = backfill
+		? {
+				accounts: backfill
+					.split(",")
+					.map((username) => username.trim())
+					.filter(Boolean)
+					.map((username) => ({ username, mode: "backfill" as const, backfillDays })),
+			}
+		: {};
+
 	// Trigger the workflow using the Workflows API
 	try {
-		const instance = await c.env.COMPETITION_WORKFLOW.create();
+		const instance = await c.env.COMPETITION_WORKFLOW.create({ params });
 		return c.json({
 			success: true,
 			message: "Competition workflow triggered",
@@ -81,6 +106,32 @@ app.get("/api/trigger-scraping", async (c) => {
 	}
 });
 
+// API endpoint: Run the R2 poster cleanup now
+// Usage: GET /api/poster-gc?code=YOUR_SECRET_CODE            (dry run, report only)
+//        GET /api/poster-gc?code=YOUR_SECRET_CODE&apply=true (delete and move)
+app.get("/api/poster-gc", async (c) => {
+	const { apply } = c.req.query();
+
+	try {
+		const report = await handlePosterGc(c.env, { dryRun: apply !== "true" });
+		return c.json({ success: true, report });
+	} catch (error) {
+		return c.json({
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		}, 500);
+	}
+});
+
+// Admin API: manage scraped Instagram accounts
+app.route("/api/sources", sourcesApi);
+
+// Admin API: competition change history and reverts
+app.route("/api/competitions", competitionsApi);
+
+// Admin API: merge and verify competition organizers
+app.route("/api/organizers", organizersApi);
+
 // API endpoint: Check workflow status
 // Usage: GET /api/workflow-status?instanceId=INSTANCE_ID
 app.get("/api/workflow-status", async (c) => {
@@ -119,10 +170,6 @@ app.post("/api/trigger-inngest", async (c) => {
 	// Use provided env or fallback to bindings
 	const env = bodyEnv || {
 		DATABASE_URL: c.env.DATABASE_URL,
-		R2_ACCESS_KEY_ID: c.env.R2_ACCESS_KEY_ID,
-		R2_SECRET_ACCESS_KEY: c.env.R2_SECRET_ACCESS_KEY,
-		R2_ENDPOINT: c.env.R2_ENDPOINT,
-		R2_BUCKET: c.env.R2_BUCKET,
 		R2_PUBLIC_URL: c.env.R2_PUBLIC_URL,
 		WAHA_BASE_URL: c.env.WAHA_BASE_URL,
 		WAHA_API_KEY: c.env.WAHA_API_KEY,
@@ -169,6 +216,37 @@ export default {
 		ctx: { waitUntil: (promise: Promise<unknown>) => void },
 	) {
 		const log = console;
+
+		// Daily poster cleanup has its own trigger
+		if (event.cron === config.posterGc.schedule) {
+			try {
+				await handlePosterGc(env);
+			} catch (error) {
+				log.error("Poster GC failed", { error });
+			}
+			return;
+		}
+
+		// Posters whose upload failed are re-fetched before their CDN links expire
+		if (event.cron === config.posterRepair.schedule) {
+			try {
+				await handlePosterRepair(env);
+			} catch (error) {
+				log.error("Poster repair failed", { error });
+			}
+			return;
+		}
+
+		// Competitions past their endDate are archived once a day
+		if (event.cron === config.competitionArchive.schedule) {
+			try {
+				await handleCompetitionArchive(env);
+			} catch (error) {
+				log.error("Competition archive failed", { error });
+			}
+			return;
+		}
+
 		log.info("Cron trigger received - starting parallel pipelines", {
 			scheduledTime: event.scheduledTime,
 			cron: event.cron,
@@ -178,14 +256,15 @@ export default {
 		try {
 			const { runParallelPipelines } = await import("./workflow/1.parallel-scrape.js");
 
-			log.info("Running parallel pipelines (IG + Web)...");
+			log.info("Running parallel pipelines for sources due on this cron...");
 
-			const pipelineResult = await runParallelPipelines(env);
+			const pipelineResult = await runParallelPipelines(env, undefined, { cron: event.cron });
 
 			log.info("Parallel pipelines completed", {
 				totalScraped: pipelineResult.totalScraped,
 				totalInserted: pipelineResult.totalInserted,
 				newRecordIdsCount: pipelineResult.totalNewRecordIds.length,
+				quarantined: pipelineResult.quarantined,
 			});
 
 			// Only trigger Inngest if we have new records
@@ -204,10 +283,6 @@ export default {
 								source: "parallel-scrape",
 								env: {
 									DATABASE_URL: env.DATABASE_URL,
-									R2_ACCESS_KEY_ID: env.R2_ACCESS_KEY_ID,
-									R2_SECRET_ACCESS_KEY: env.R2_SECRET_ACCESS_KEY,
-									R2_ENDPOINT: env.R2_ENDPOINT,
-									R2_BUCKET: env.R2_BUCKET,
 									R2_PUBLIC_URL: env.R2_PUBLIC_URL,
 									WAHA_BASE_URL: env.WAHA_BASE_URL,
 									WAHA_API_KEY: env.WAHA_API_KEY,
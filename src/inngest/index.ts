@@ -1,5 +1,5 @@
 import { Inngest } from "inngest";
-import { extractData } from "../workflow/4.data-extraction.js";
+import { extractData, type ExtractionRunResult } from "../workflow/4.data-extraction.js";
 import { sendAllToWhatsApp } from "../workflow/6.sending-wa.js";
 
 /**
@@ -30,18 +30,14 @@ function chunk<T>(array: T[], size: number): T[][] {
 
 /**
  * Format field source map for pretty printing
- * Groups fields by their model source
+ * Groups fields by the provider (or "bio") they came from
  */
 function formatFieldSource(fieldSource: Record<string, string | null>): string {
-  const groups: Record<string, string[]> = {
-    zai: [],
-    mistral: [],
-    gemini: [],
-  };
+  const groups: Record<string, string[]> = {};
 
   for (const [field, source] of Object.entries(fieldSource)) {
-    if (source && groups[source]) {
-      groups[source].push(field);
+    if (source) {
+      (groups[source] ??= []).push(field);
     }
   }
 
@@ -70,7 +66,7 @@ export const processDraftBatchesFn = inngest.createFunction(
     concurrency: 1, // Reduced to 1 to prevent PromiseFulfiller errors from overlapping
   },
   { event: "process/batches.start" },
-  async ({ event, step }) => {
+  async ({ event, step, runId }) => {
     // Access env from event data (works both in dev and production)
     const env = event.data.env as typeof dummyEnv;
     const { recordIds, source = "unknown" } = event.data;
@@ -79,13 +75,14 @@ export const processDraftBatchesFn = inngest.createFunction(
     const batches = chunk(recordIds, batchSize);
 
     // Process each batch SEQUENTIALLY to avoid CPU timeout
-    const batchResults: any[] = [];
+    const batchResults: (ExtractionRunResult & { batchIndex: number; batchIds: number[] })[] = [];
     for (let index = 0; index < batches.length; index++) {
       const batchIds = batches[index] as number[];
       const result = await step.run(`process-batch-${index + 1}`, async () => {
         // Extract AI data for this batch using specific record IDs
         // Pass 0 for newCount since we want specific existing records, not newest ones
-        const extractResult = await extractData(0, batchIds, env);
+        // runId is recorded on every field change (competition_revisions)
+        const extractResult = await extractData(0, batchIds, env, undefined, runId);
 
         return {
           batchIndex: index,
@@ -102,6 +99,10 @@ export const processDraftBatchesFn = inngest.createFunction(
       0,
     );
     const totalErrors = batchResults.filter((r) => !r.success).length;
+    const totalDuplicates = batchResults.reduce(
+      (sum, r) => sum + (r.duplicates || 0),
+      0,
+    );
 
     // Build structured summary
     const structuredSummary = {
@@ -109,11 +110,12 @@ export const processDraftBatchesFn = inngest.createFunction(
       totalRecords: recordIds.length,
       totalProcessed,
       totalErrors,
+      totalDuplicates,
       batches: batchResults.map((batch) => ({
         batchNumber: batch.batchIndex + 1,
         recordIds: batch.batchIds,
-        modelUsage: batch.modelUsage || { zai: 0, mistral: 0, gemini: 0 },
-        records: (batch.records || []).map((record: any) => ({
+        modelUsage: batch.modelUsage,
+        records: batch.records.map((record) => ({
           recordId: record.recordId,
           fieldsByModel: record.fieldSource || {},
         })),
@@ -126,16 +128,17 @@ export const processDraftBatchesFn = inngest.createFunction(
       console.log(`Total batches: ${structuredSummary.totalBatches}`);
       console.log(`Total records: ${structuredSummary.totalRecords}`);
       console.log(`Total processed: ${structuredSummary.totalProcessed}`);
+      console.log(`Merged duplicates: ${structuredSummary.totalDuplicates}`);
       console.log("");
 
       for (const batch of structuredSummary.batches) {
         console.log(
           `[Batch ${batch.batchNumber}] Records: ${batch.recordIds.join(", ")}`,
         );
-        const { zai, mistral, gemini } = batch.modelUsage;
-        console.log(
-          `  Model usage: Zai(${zai}), Mistral(${mistral}), Gemini(${gemini})`,
-        );
+        const usage = Object.entries(batch.modelUsage)
+          .map(([provider, calls]) => `${provider}(${calls})`)
+          .join(", ");
+        console.log(`  Model usage: ${usage || "(none)"}`);
         for (const record of batch.records) {
           console.log(`  Record ${record.recordId}:`);
           console.log(`    ${formatFieldSource(record.fieldsByModel)}`);
@@ -185,12 +188,6 @@ export const processDraftBatchesFn = inngest.createFunction(
 export const dummyEnv = {
   DATABASE_URL: process.env.DATABASE_URL ?? "",
   MY_BUCKET: {} as R2Bucket, // Mock R2 bucket for local testing
-  R2_ACCESS_KEY_ID: process.env.R2_ACCESS_KEY_ID ?? "",
-  R2_SECRET_ACCESS_KEY: process.env.R2_SECRET_ACCESS_KEY ?? "",
-  R2_ENDPOINT:
-    process.env.R2_ENDPOINT ??
-    "https://4c7c10d0a0b9ffcead7f92c375ec9f12.r2.cloudflarestorage.com",
-  R2_BUCKET: process.env.R2_BUCKET ?? "bucket-competition",
   R2_PUBLIC_URL:
     process.env.R2_PUBLIC_URL ?? "https://objectcompetition.wahyuikbal.com",
   WAHA_BASE_URL:
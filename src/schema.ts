@@ -1,67 +1,253 @@
-// import {
-// 	pgTable,
-// 	text,
-// 	integer,
-// 	boolean,
-// 	timestamp,
-// 	uuid,
-// 	jsonb,
-// 	date,
-// } from "drizzle-orm/pg-core";
+import type postgres from "postgres";
+import type { BioLink } from "./workflow/lib/bio-links.js";
+import type { CompetitionRevision } from "./workflow/lib/competition-revisions.js";
+import type { CompetitionStatus } from "./workflow/lib/competition-status.js";
+import type { InstagramSource } from "./workflow/lib/instagram-sources.js";
+import type { LinkType } from "./workflow/lib/link-resolver.js";
+import type { CompetitionOrganizer, Organizer } from "./workflow/lib/organizers.js";
+import type { PosterOrphan } from "./workflow/lib/poster-gc.js";
+import type { PosterKeys } from "./workflow/lib/poster-images.js";
+import type { SourceHealth } from "./workflow/lib/source-health.js";
+import type { SourceMention } from "./workflow/lib/source-mentions.js";
+import type { SourceCursor } from "./workflow/lib/source-state.js";
+import type { CompetitionFormat, ParticipantLevel, ParticipationType } from "./workflow/lib/types.js";
 
-// export const competitions = pgTable("competitions", {
-// 	id: uuid("id").primaryKey(),
-// 	title: text("title"),
-// 	description: text("description"),
-// 	organizer: jsonb("organizer").$type<{
-// 		id?: string;
-// 		name: string;
-// 		abbreviation?: string;
-// 		type?: "University" | "Government" | "Corporate" | "Community" | "NGO" | "School" | "Individual" | "Other";
-// 		logoUrl?: string;
-// 		description?: string;
-// 		website?: string;
-// 		instagram?: string;
-// 		linkedin?: string;
-// 		tiktok?: string;
-// 		isVerified?: boolean;
-// 	}>(),
-// 	categories: text("categories").$type<
-// 		"Akademik & Sains" |
-// 		"Teknologi & IT" |
-// 		"Seni & Kreatif" |
-// 		"Bisnis & Startup" |
-// 		"Olahraga & E-sports" |
-// 		"Sastra & Bahasa" |
-// 		"Sosial & Lingkungan" |
-// 		"Keagamaan" |
-// 		"Gaya Hidup & Hobi" |
-// 		"Lainnya"
-// 	>(),
-// 	views: integer("views").default(0),
-// 	poster: text("poster").notNull(),
-// 	urlsource: text("urlsource").notNull(),
-// 	level: jsonb("level").$type<string[]>(),
-// 	startDate: date("startDate"),
-// 	endDate: date("endDate"),
-// 	format: text("format").$type<"Online" | "Offline" | "Hybrid">(),
-// 	participationType: text("participationType").$type<"Individual" | "Team">(),
-// 	status: text("status").$type<"draft" | "published" | "archived">().notNull().default("draft"),
-// 	pricing: jsonb("pricing").$type<number[]>(),
-// 	contact: jsonb("contact").$type<Array<{ name: string; phone: string }>>(),
-// 	location: text("location"),
-// 	whatsappChannel: boolean("whatsappChannel"),
-// 	socialMedia: jsonb("socialMedia").$type<{
-// 		instagram?: string;
-// 		tiktok?: string;
-// 		linkedin?: string;
-// 		youtube?: string;
-// 		twitter?: string;
-// 	}>(),
-// 	createdAt: timestamp("createdAt").notNull().defaultNow(),
-// 	updatedAt: timestamp("updatedAt").notNull().defaultNow(),
-// 	url: text("url"),
-// });
+/**
+ * Database schema: one row type per table, as postgres.js returns it.
+ *
+ * The tables themselves are created by the SQL files in migrations/
+ * (`bun run db:migrate`). Every column a migration adds must be added here
+ * too: `tableColumns` lists them at runtime, and both the migration test
+ * and `bun run db:migrate --check` compare it against the real schema.
+ * DB modules take their row and write types from this file, so a renamed
+ * or missing column fails the type-check.
+ */
 
-// export type Competition = typeof competitions.$inferSelect;
-// export type NewCompetition = typeof competitions.$inferInsert;
+/** Row of the competitions table */
+export interface CompetitionRow {
+	id: number;
+	title: string | null;
+	description: string | null;
+	/** Poster sent to WhatsApp, posters[0] */
+	poster: string | null;
+	/** Every poster slide, poster first */
+	posters: string[] | null;
+	/** Object keys of the poster variants (see lib/poster-images.ts) */
+	posterKeys: PosterKeys | null;
+	/** Poster still points at the source CDN, held back until the repair job stores it */
+	posterPending: boolean | null;
+	posterRepairAttempts: number;
+	/** dHash of the poster (16 hex chars) */
+	posterHash: string | null;
+	/** Canonical competition this row duplicates (status 'duplicate') */
+	duplicateOf: number | null;
+	/** Canonical URL of the post the competition was scraped from */
+	urlsource: string | null;
+	/** Registration link */
+	url: string | null;
+	/** Where `url` ends up after redirects (see lib/link-resolver.ts) */
+	urlFinal: string | null;
+	urlStatus: number | null;
+	urlType: LinkType | null;
+	/** Registration link is dead or closed, never sent to WhatsApp */
+	urlBroken: boolean | null;
+	urlCheckedAt: Date | null;
+	/** Account bio links, for posts that say "link di bio" */
+	bioLinks: BioLink[] | null;
+	/** Extracted organizer names; linked to organizers through competition_organizers */
+	organizer: string[] | null;
+	categories: string[] | null;
+	level: ParticipantLevel[] | null;
+	startDate: Date | null;
+	endDate: Date | null;
+	format: CompetitionFormat | null;
+	participationType: ParticipationType | null;
+	pricing: number[] | null;
+	contact: { name: string; phone: string }[] | null;
+	location: string | null;
+	prizePool: string | null;
+	benefits: string | null;
+	socialMedia: Record<string, string> | null;
+	views: number | null;
+	/** Lifecycle: draft → published → archived, or duplicate (see lib/competition-status.ts) */
+	status: CompetitionStatus;
+	/** Already posted to the WhatsApp channel */
+	whatsappChannel: boolean | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/** Row of the source_mentions table */
+export interface SourceMentionRow extends SourceMention {
+	id: number;
+	createdAt: Date;
+}
+
+/** Row of the schema_migrations table (see lib/migrations.ts) */
+export interface SchemaMigrationRow {
+	version: number;
+	name: string;
+	checksum: string;
+	appliedAt: Date;
+}
+
+/** Row type of every table, by table name */
+export interface Tables {
+	competitions: CompetitionRow;
+	competition_revisions: CompetitionRevision;
+	organizers: Organizer;
+	competition_organizers: CompetitionOrganizer;
+	sources: InstagramSource;
+	source_state: SourceCursor;
+	source_health: SourceHealth;
+	source_mentions: SourceMentionRow;
+	poster_orphans: PosterOrphan;
+	schema_migrations: SchemaMigrationRow;
+}
+
+/**
+ * Column value accepted by INSERT and UPDATE helpers: JSONB columns take
+ * `sql.json(...)`, DATE columns also take "YYYY-MM-DD" strings.
+ */
+export type ColumnValue<T> = T extends Date
+	? Date | string
+	: T extends object
+		? postgres.Parameter
+		: T;
+
+/** Values written to a competitions row, e.g. `SET ${sql(values)}` */
+export type CompetitionValues = {
+	[Column in keyof CompetitionRow]?: ColumnValue<CompetitionRow[Column]>;
+};
+
+/** Plain field values of a competition, before JSONB columns are wrapped (see toColumnValues) */
+export type CompetitionChanges = {
+	[Column in keyof CompetitionRow]?: unknown;
+};
+
+/**
+ * Column names of every table. Typed against `Tables`, so a column missing
+ * here or left over after a rename is a compile error.
+ */
+export const tableColumns: { [Table in keyof Tables]: Record<keyof Tables[Table], true> } = {
+	competitions: {
+		id: true,
+		title: true,
+		description: true,
+		poster: true,
+		posters: true,
+		posterKeys: true,
+		posterPending: true,
+		posterRepairAttempts: true,
+		posterHash: true,
+		duplicateOf: true,
+		urlsource: true,
+		url: true,
+		urlFinal: true,
+		urlStatus: true,
+		urlType: true,
+		urlBroken: true,
+		urlCheckedAt: true,
+		bioLinks: true,
+		organizer: true,
+		categories: true,
+		level: true,
+		startDate: true,
+		endDate: true,
+		format: true,
+		participationType: true,
+		pricing: true,
+		contact: true,
+		location: true,
+		prizePool: true,
+		benefits: true,
+		socialMedia: true,
+		views: true,
+		status: true,
+		whatsappChannel: true,
+		createdAt: true,
+		updatedAt: true,
+	},
+	competition_revisions: {
+		id: true,
+		competitionId: true,
+		field: true,
+		oldValue: true,
+		newValue: true,
+		actor: true,
+		runId: true,
+		createdAt: true,
+	},
+	organizers: {
+		id: true,
+		name: true,
+		normalizedName: true,
+		aliases: true,
+		type: true,
+		logo: true,
+		website: true,
+		instagram: true,
+		isVerified: true,
+		createdAt: true,
+		updatedAt: true,
+	},
+	competition_organizers: {
+		competitionId: true,
+		organizerId: true,
+		matchedBy: true,
+		score: true,
+		createdAt: true,
+	},
+	sources: {
+		username: true,
+		enabled: true,
+		priority: true,
+		notes: true,
+		lastSuccessAt: true,
+		consecutiveFailures: true,
+		lastError: true,
+		disabledReason: true,
+		createdAt: true,
+		updatedAt: true,
+	},
+	source_state: {
+		sourceId: true,
+		cursor: true,
+		cursorAt: true,
+		updatedAt: true,
+	},
+	source_health: {
+		sourceId: true,
+		lastRunAt: true,
+		lastSuccessAt: true,
+		lastError: true,
+		errorStreak: true,
+		emptyStreak: true,
+		runs: true,
+		successRuns: true,
+		avgYield: true,
+		quarantinedAt: true,
+		quarantineReason: true,
+	},
+	source_mentions: {
+		id: true,
+		competitionId: true,
+		urlsource: true,
+		source: true,
+		account: true,
+		matchedBy: true,
+		score: true,
+		createdAt: true,
+	},
+	poster_orphans: {
+		key: true,
+		size: true,
+		orphanedAt: true,
+	},
+	schema_migrations: {
+		version: true,
+		name: true,
+		checksum: true,
+		appliedAt: true,
+	},
+};
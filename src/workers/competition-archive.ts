@@ -0,0 +1,53 @@
+import postgres from "postgres";
+import { createLogger } from "../utils/enhanced-logger.js";
+import { config } from "../workflow/lib/config.js";
+import { archiveExpiredCompetitions } from "../workflow/lib/competition-status.js";
+import type { Env } from "../workflow/lib/types.js";
+
+/** Outcome of one archive run */
+export interface CompetitionArchiveResult {
+	dryRun: boolean;
+	archived: number;
+	ids: number[];
+}
+
+/**
+ * Archive job, run daily on config.competitionArchive.schedule and on
+ * demand through POST /api/competitions/archive.
+ *
+ * Drafts and published competitions whose endDate has passed move to
+ * archived, which takes them out of WhatsApp sending and lets the poster
+ * GC move their posters to cold storage.
+ *
+ * @param env - Worker bindings (DATABASE_URL)
+ * @param options - `{ dryRun: true }` lists expired competitions without archiving them
+ */
+export async function handleCompetitionArchive(
+	env: Env,
+	options: { dryRun?: boolean } = {},
+): Promise<CompetitionArchiveResult> {
+	const log = createLogger({ workflowStep: "competition-archive" });
+	const dryRun = options.dryRun ?? false;
+
+	if (!env.DATABASE_URL) {
+		throw new Error("Competition archive needs DATABASE_URL");
+	}
+
+	const sql = postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	try {
+		const expired = await log.time("competition-archive", () =>
+			archiveExpiredCompetitions(sql, { dryRun }),
+		);
+		const result = { dryRun, archived: expired.length, ids: expired.map((row) => row.id) };
+
+		log.info("Competition archive completed", {
+			dryRun,
+			archived: result.archived,
+			fromDraft: expired.filter((row) => row.status === "draft").length,
+			fromPublished: expired.filter((row) => row.status === "published").length,
+		});
+		return result;
+	} finally {
+		await sql.end({ timeout: 10 });
+	}
+}
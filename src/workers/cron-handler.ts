@@ -21,7 +21,7 @@ export interface ExecutionContext {
  * Cloudflare Workers Cron Handler
  *
  * Runs parallel scraping pipelines: (IG + Web) → R2 → DB → Trigger Inngest
- * Each source (IG, infolombaid, infolombait) runs independently in parallel.
+ * Each registered source (see 1.source-registry.ts) runs independently in parallel.
  *
  * @param env - Environment variables from Cloudflare Workers bindings
  * @param inngestUrl - Optional Inngest trigger URL (defaults to local)
@@ -42,7 +42,7 @@ export async function handleCronScraping(
 	log.info("Starting parallel scraping pipelines (IG + Web)");
 
 	try {
-		// Run all pipelines in parallel (IG, infolombaid, infolombait)
+		// Run all registered source pipelines in parallel
 		const pipelineResult = await log.time("parallel-pipelines", () =>
 			runParallelPipelines(env, log),
 		);
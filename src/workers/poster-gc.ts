@@ -0,0 +1,47 @@
+import postgres from "postgres";
+import { createLogger } from "../utils/enhanced-logger.js";
+import { config, type PosterGcConfig } from "../workflow/lib/config.js";
+import { collectPosterGarbage, type PosterGcReport } from "../workflow/lib/poster-gc.js";
+import { createPosterStore } from "../workflow/lib/poster-store.js";
+import type { Env } from "../workflow/lib/types.js";
+
+/**
+ * Poster cleanup job, run daily on config.posterGc.schedule and on
+ * demand through /api/poster-gc.
+ *
+ * @param env - Worker bindings (DATABASE_URL, MY_BUCKET for the r2 store)
+ * @param overrides - Per-run options, e.g. `{ dryRun: true }`
+ */
+export async function handlePosterGc(
+	env: Env,
+	overrides: Partial<PosterGcConfig> = {},
+): Promise<PosterGcReport> {
+	const log = createLogger({ workflowStep: "poster-gc" });
+	const options = { ...config.posterGc, ...overrides };
+
+	if (!env.DATABASE_URL) {
+		throw new Error("Poster GC needs DATABASE_URL");
+	}
+	const store = createPosterStore(env);
+
+	log.info("Starting poster GC", {
+		dryRun: options.dryRun,
+		graceDays: options.graceDays,
+		archiveToCold: options.archiveToCold,
+	});
+
+	const sql = postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	try {
+		const report = await log.time("poster-gc", () =>
+			collectPosterGarbage(sql, store, options, log),
+		);
+
+		log.info("Poster GC completed", {
+			...report,
+			freedMB: Math.round((report.deletedBytes / 1024 / 1024) * 10) / 10,
+		});
+		return report;
+	} finally {
+		await sql.end({ timeout: 10 });
+	}
+}
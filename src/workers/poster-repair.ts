@@ -0,0 +1,112 @@
+import postgres from "postgres";
+import type { CompetitionRow } from "../schema.js";
+import { createLogger } from "../utils/enhanced-logger.js";
+import { uploadToR2 } from "../workflow/2.upload-to-r2.js";
+import { config } from "../workflow/lib/config.js";
+import { refetchPostImages } from "../workflow/lib/poster-refetch.js";
+import type { Env } from "../workflow/lib/types.js";
+
+/** Outcome of one repair run */
+export interface PosterRepairResult {
+	checked: number;
+	repaired: number;
+	failed: number;
+}
+
+type PendingPosterRow = Pick<CompetitionRow, "id" | "posterRepairAttempts"> & { urlsource: string };
+
+/**
+ * Poster repair job, run on config.posterRepair.schedule.
+ *
+ * Competitions whose poster upload failed keep the source's signed CDN URL
+ * and are marked posterPending, which holds them back from WhatsApp. The
+ * job resolves each post again from its urlsource (the stored CDN URL has
+ * likely expired), stores the fresh images and clears the flag. A
+ * competition is given up after maxAttempts failed repairs.
+ *
+ * @param env - Worker bindings (DATABASE_URL and the poster store's)
+ */
+export async function handlePosterRepair(env: Env): Promise<PosterRepairResult> {
+	const log = createLogger({ workflowStep: "poster-repair" });
+	const options = config.posterRepair;
+
+	if (!env.DATABASE_URL) {
+		throw new Error("Poster repair needs DATABASE_URL");
+	}
+
+	const sql = postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	const result: PosterRepairResult = { checked: 0, repaired: 0, failed: 0 };
+
+	try {
+		const pending = await sql<PendingPosterRow[]>`
+      SELECT id, urlsource, "posterRepairAttempts"
+      FROM competitions
+      WHERE "posterPending" = true
+        AND "duplicateOf" IS NULL
+        AND "posterRepairAttempts" < ${options.maxAttempts}
+        AND urlsource IS NOT NULL
+        AND urlsource != ''
+      ORDER BY "posterRepairAttempts" ASC, id ASC
+      LIMIT ${options.batchSize}
+    `;
+
+		log.info("Starting poster repair", { pending: pending.length });
+
+		for (const row of pending) {
+			result.checked++;
+			const rowLog = log.child({ workflowStep: `poster-repair-${row.id}` });
+
+			try {
+				const images = (await refetchPostImages(row.urlsource, options.timeoutMs)).slice(
+					0,
+					config.instagram.maxCarouselSlides,
+				);
+				if (images.length === 0) {
+					throw new Error("No image found for the source post");
+				}
+
+				const [uploaded] = await uploadToR2(
+					[{ image: images[0], images, link: row.urlsource }],
+					env,
+					{ maxAttempts: 2 },
+					{ batchDelayMs: 0 },
+					rowLog,
+				);
+				if (uploaded.posterPending) {
+					throw new Error("Upload failed");
+				}
+
+				await sql`
+          UPDATE competitions
+          SET poster = ${uploaded.image},
+              posters = ${sql.json(uploaded.images ?? [uploaded.image])},
+              "posterKeys" = ${uploaded.posterKeys ? sql.json(uploaded.posterKeys) : null},
+              "posterHash" = COALESCE("posterHash", ${uploaded.posterHash ?? null}),
+              "posterPending" = false
+          WHERE id = ${row.id}
+        `;
+				result.repaired++;
+				rowLog.info("Poster repaired", { id: row.id, slides: images.length });
+			} catch (error) {
+				result.failed++;
+				await sql`
+          UPDATE competitions
+          SET "posterRepairAttempts" = "posterRepairAttempts" + 1
+          WHERE id = ${row.id}
+        `;
+				rowLog.warn("Poster repair failed", {
+					id: row.id,
+					urlsource: row.urlsource,
+					attempt: row.posterRepairAttempts + 1,
+					maxAttempts: options.maxAttempts,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+
+		log.info("Poster repair completed", { ...result });
+		return result;
+	} finally {
+		await sql.end({ timeout: 10 });
+	}
+}
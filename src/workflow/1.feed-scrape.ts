@@ -0,0 +1,195 @@
+/**
+ * Feed-based scraper for RSS, Atom and Blogger JSON feeds
+ * (e.g. Blogger `/feeds/posts/default?alt=json`, WordPress `/feed/`).
+ *
+ * Produces the same ScrapedPost shape as the HTML scrapers, with the
+ * first <img> of each entry's content as the poster. Entries are read
+ * newest-first and the crawl stops at the first post already known.
+ */
+
+import { load } from "cheerio";
+import { createLogger } from "../utils/logger.js";
+import type { FeedScrapingSource } from "./lib/config.js";
+import { findExistingUrlsources } from "./lib/db-utils.js";
+import type { CursorUpdate } from "./lib/source-state.js";
+import type { Env, ScrapeResult, ScrapedPost } from "./lib/types.js";
+import { cleanDescription, normalizeImageUrl, openCrawlState } from "./lib/web-utils.js";
+
+/** Entry parsed from a feed, before image/description normalization */
+export interface FeedEntry {
+	title: string;
+	link: string;
+	/** Entry body as HTML */
+	content: string;
+	/** Thumbnail advertised by the feed itself, if any */
+	thumbnail?: string;
+	published?: string;
+}
+
+/** Blogger JSON feed (`?alt=json`) shapes we read */
+interface BloggerText {
+	$t?: string;
+}
+
+interface BloggerEntry {
+	title?: BloggerText;
+	link?: { rel?: string; href?: string }[];
+	content?: BloggerText;
+	summary?: BloggerText;
+	published?: BloggerText;
+	media$thumbnail?: { url?: string };
+}
+
+interface BloggerFeed {
+	feed?: { entry?: BloggerEntry[] };
+}
+
+/** Parse a Blogger JSON feed */
+function parseBloggerJson(json: BloggerFeed): FeedEntry[] {
+	return (json.feed?.entry ?? []).map((entry) => ({
+		title: entry.title?.$t?.trim() ?? "",
+		link: entry.link?.find((l) => l.rel === "alternate")?.href ?? "",
+		content: entry.content?.$t ?? entry.summary?.$t ?? "",
+		thumbnail: entry.media$thumbnail?.url,
+		published: entry.published?.$t,
+	}));
+}
+
+/** Parse an RSS 2.0 or Atom document */
+function parseXmlFeed(body: string): FeedEntry[] {
+	const $ = load(body, { xml: true });
+
+	const rssItems = $("item");
+	if (rssItems.length > 0) {
+		return rssItems.toArray().map((el) => {
+			const $item = $(el);
+			return {
+				title: $item.children("title").first().text().trim(),
+				link: $item.children("link").first().text().trim(),
+				content:
+					$item.children("content\\:encoded").first().text() ||
+					$item.children("description").first().text(),
+				thumbnail:
+					$item.children("media\\:thumbnail").first().attr("url") ??
+					$item.children("enclosure[type^='image']").first().attr("url"),
+				published: $item.children("pubDate").first().text().trim() || undefined,
+			};
+		});
+	}
+
+	return $("entry").toArray().map((el) => {
+		const $entry = $(el);
+		const $links = $entry.children("link");
+		const alternate = $links.filter((_, l) => ($(l).attr("rel") ?? "alternate") === "alternate");
+		return {
+			title: $entry.children("title").first().text().trim(),
+			link: alternate.first().attr("href") ?? $links.first().attr("href") ?? "",
+			content: $entry.children("content").first().text() || $entry.children("summary").first().text(),
+			thumbnail: $entry.children("media\\:thumbnail").first().attr("url"),
+			published:
+				$entry.children("published").first().text().trim() ||
+				$entry.children("updated").first().text().trim() ||
+				undefined,
+		};
+	});
+}
+
+/**
+ * Parse an RSS, Atom or Blogger JSON feed body into entries (feed order).
+ */
+export function parseFeed(body: string): FeedEntry[] {
+	const trimmed = body.trimStart();
+	if (trimmed.startsWith("{")) {
+		return parseBloggerJson(JSON.parse(trimmed) as BloggerFeed);
+	}
+	return parseXmlFeed(trimmed);
+}
+
+/** Convert a feed entry to a ScrapedPost (first <img> in the content is the poster) */
+export function toScrapedPost(entry: FeedEntry, source: FeedScrapingSource): ScrapedPost {
+	const $ = load(entry.content);
+	const rawImage = $("img").first().attr("src") ?? entry.thumbnail;
+	const description = cleanDescription($.root().text());
+	const image = rawImage
+		? normalizeImageUrl(rawImage, entry.link || source.url, source.imageRewrite)
+		: "";
+
+	return {
+		title: entry.title || null,
+		link: entry.link,
+		image,
+		images: image ? [image] : [],
+		description: source.descriptionMaxLength
+			? description.substring(0, source.descriptionMaxLength)
+			: description,
+		source: "web",
+		username: source.name,
+	};
+}
+
+/** Scrape a configured feed source: feed → new entries → ScrapedPost[] */
+export async function scrapeFeedSource(source: FeedScrapingSource, env?: Env): Promise<ScrapeResult> {
+	const logger = createLogger({ workflowStep: `1-web-scrape-${source.name}` });
+	const state = await openCrawlState(env, source.name, logger);
+
+	try {
+		logger.info(`Starting feed scrape for ${source.url}`, { incremental: !!state.sql });
+
+		const response = await fetch(source.url, {
+			headers: {
+				"User-Agent": "Mozilla/5.0",
+				Accept: "application/json, application/atom+xml, application/rss+xml, text/xml;q=0.9",
+			},
+		});
+
+		if (!response.ok) {
+			throw new Error(`upstream fetch failed: HTTP ${response.status}`);
+		}
+
+		const entries = parseFeed(await response.text()).filter((e) => e.link);
+
+		// First crawl (or no database): only take imageLimit entries
+		const limit = state.sql && state.cursor ? Number.POSITIVE_INFINITY : source.imageLimit;
+		const known = state.sql
+			? await findExistingUrlsources(state.sql, entries.map((e) => e.link))
+			: new Set<string>();
+
+		const posts: ScrapedPost[] = [];
+		for (const entry of entries) {
+			if (entry.link === state.cursor || known.has(entry.link)) break;
+			posts.push(toScrapedPost(entry, source));
+			if (posts.length >= limit) break;
+		}
+
+		// Saved by insertToDb with the posts, never before they are stored
+		const cursors: CursorUpdate[] = [];
+		if (state.sql && entries[0]) {
+			const publishedAt = entries[0].published ? new Date(entries[0].published) : null;
+			cursors.push({
+				sourceId: source.name,
+				cursor: entries[0].link,
+				cursorAt: publishedAt && !Number.isNaN(publishedAt.getTime()) ? publishedAt : null,
+			});
+		}
+
+		logger.info(`Feed scraping completed: ${posts.length} posts fetched`, {
+			count: posts.length,
+			scanned: entries.length,
+			posts: posts.map((p) => ({ title: p.title, link: p.link })),
+		});
+
+		return {
+			count: posts.length,
+			posts,
+			scanned: entries.length,
+			cursors,
+		};
+	} catch (error) {
+		logger.error("Feed scraping failed", {
+			message: error instanceof Error ? error.message : String(error),
+		});
+		throw error;
+	} finally {
+		await state.close();
+	}
+}
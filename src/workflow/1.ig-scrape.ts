@@ -1,12 +1,37 @@
-import { InstagramScraper, ScrapeError } from "@aduptive/instagram-scraper";
+import {
+	InstagramScraper,
+	ScrapeError,
+	type InstagramPost,
+	type ScraperResponse,
+} from "@aduptive/instagram-scraper";
+import postgres from "postgres";
 import {
 	createLogger,
 	type EnhancedLogger,
 	logError,
 	ErrorCategory,
 } from "../utils/enhanced-logger.js";
+import { fetchBioLinks, mentionsBioLink } from "./lib/bio-links.js";
 import { config } from "./lib/config.js";
-import type { ScrapeResult, ScrapeError as ScrapeErrorType, ScrapedPost } from "./lib/types.js";
+import {
+	getEnabledUsernames,
+	recordSourceFailure,
+	recordSourceSuccess,
+	seedSources,
+} from "./lib/instagram-sources.js";
+import {
+	getSourceCursors,
+	type CursorUpdate,
+	type SourceCursor,
+} from "./lib/source-state.js";
+import type {
+	Env,
+	InstagramAccountRequest,
+	InstagramScrapeMode,
+	ScrapeResult,
+	ScrapeError as ScrapeErrorType,
+	ScrapedPost,
+} from "./lib/types.js";
 
 function randomDelay(minMs: number, maxMs: number): Promise<void> {
 	const delayMs = minMs + Math.random() * (maxMs - minMs);
@@ -22,15 +47,239 @@ const RETRY_DELAY_MS = process.env.NODE_ENV === "production" ? 10 * 60 * 1000 :
 /** Error codes that should trigger a retry with delay */
 const RETRYABLE_ERROR_CODES = ["429", "429_TOO_MANY_REQUESTS", "RATE_LIMITED"];
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 type FailedAccount = { username: string; error: string; code?: string };
 
+/** How one account is scraped in this run */
+export interface AccountPlan {
+	username: string;
+	mode: InstagramScrapeMode;
+	/** Stored cursor, null on the account's first run or without a database */
+	cursor: SourceCursor | null;
+	backfillDays: number;
+}
+
+/** Source-state id holding an account's cursor */
+export function cursorSourceId(username: string): string {
+	return `instagram:${username}`;
+}
+
+/**
+ * Pick the posts to keep from a fetch, newest first.
+ * Pinned posts are listed first regardless of age, so everything is
+ * compared by publish time rather than feed position.
+ */
+export function selectPosts(
+	posts: readonly InstagramPost[],
+	plan: AccountPlan,
+	now: number = Date.now(),
+): InstagramPost[] {
+	const sorted = [...posts].sort((a, b) => b.timestamp - a.timestamp);
+
+	if (plan.mode === "backfill") {
+		const since = now - plan.backfillDays * MS_PER_DAY;
+		return sorted.filter((post) => post.timestamp * 1000 >= since);
+	}
+
+	const { cursor } = plan;
+	if (!cursor?.cursor) {
+		return sorted.slice(0, config.instagram.imageLimit);
+	}
+
+	if (cursor.cursorAt) {
+		const cursorTime = new Date(cursor.cursorAt).getTime();
+		return sorted.filter(
+			(post) => post.shortcode !== cursor.cursor && post.timestamp * 1000 > cursorTime,
+		);
+	}
+
+	const cursorIndex = sorted.findIndex((post) => post.shortcode === cursor.cursor);
+	return cursorIndex >= 0 ? sorted.slice(0, cursorIndex) : sorted;
+}
+
+/**
+ * Next cursor of every account that fetched a post newer than its stored
+ * one. insertToDb saves them with the posts, so a failed upload or insert
+ * keeps the old cursors and the posts are fetched again.
+ */
+export function nextCursors(
+	plans: readonly AccountPlan[],
+	newestPosts: ReadonlyMap<string, InstagramPost>,
+): CursorUpdate[] {
+	const cursors: CursorUpdate[] = [];
+	for (const plan of plans) {
+		const newest = newestPosts.get(plan.username);
+		if (!newest) continue;
+
+		const newestAt = new Date(newest.timestamp * 1000);
+		// Never move a cursor backwards (e.g. the newest post was deleted)
+		if (plan.cursor?.cursorAt && new Date(plan.cursor.cursorAt) >= newestAt) continue;
+
+		cursors.push({ sourceId: cursorSourceId(plan.username), cursor: newest.shortcode, cursorAt: newestAt });
+	}
+	return cursors;
+}
+
+/**
+ * Fetch an account's posts for its plan. Incremental runs start with
+ * imageLimit posts and only widen to maxPostsPerAccount when the cursor
+ * was not reached, since every fetched post costs a request.
+ */
+async function fetchPlannedPosts(
+	scraper: InstagramScraper,
+	plan: AccountPlan,
+	accountLog: EnhancedLogger,
+	timerKey: string,
+): Promise<ScraperResponse> {
+	const igConfig = config.instagram;
+	const followsCursor = plan.mode === "incremental" && !!plan.cursor?.cursor;
+	const limit = plan.mode === "backfill" ? igConfig.maxPostsPerAccount : igConfig.imageLimit;
+
+	const results = await accountLog.time(
+		timerKey,
+		async () => await scraper.getPosts(plan.username, limit),
+	);
+
+	const reachedCursor =
+		!results.posts || selectPosts(results.posts, plan).length < results.posts.length;
+	if (
+		!followsCursor ||
+		!results.success ||
+		reachedCursor ||
+		results.posts!.length < limit ||
+		limit >= igConfig.maxPostsPerAccount
+	) {
+		return results;
+	}
+
+	accountLog.info("Cursor not reached, fetching more posts", {
+		username: plan.username,
+		limit: igConfig.maxPostsPerAccount,
+	});
+	await randomDelay(igConfig.minDelay, igConfig.maxDelay);
+	return await accountLog.time(
+		`${timerKey}-more`,
+		async () => await scraper.getPosts(plan.username, igConfig.maxPostsPerAccount),
+	);
+}
+
+/** Keep the planned posts of a successful fetch and note the account's newest post */
+function collectPosts(
+	fetched: InstagramPost[],
+	plan: AccountPlan,
+	accountLog: EnhancedLogger,
+	posts: ScrapedPost[],
+	newestPosts: Map<string, InstagramPost>,
+): void {
+	const validPosts = fetched.filter((post) => post.display_url && post.url);
+	const selected = selectPosts(validPosts, plan);
+
+	accountLog.info("Fetched valid posts", {
+		username: plan.username,
+		mode: plan.mode,
+		validCount: validPosts.length,
+		totalCount: fetched.length,
+		newCount: selected.length,
+	});
+
+	if (
+		plan.mode === "incremental" &&
+		plan.cursor?.cursor &&
+		selected.length > 0 &&
+		selected.length === validPosts.length &&
+		validPosts.length >= config.instagram.maxPostsPerAccount
+	) {
+		accountLog.warn("Cursor not reached, older posts may have been missed; request a backfill", {
+			username: plan.username,
+			cursor: plan.cursor.cursor,
+		});
+	}
+
+	for (const post of selected) {
+		posts.push(toScrapedPost(post, plan.username));
+	}
+
+	const newest = validPosts.reduce<InstagramPost | undefined>(
+		(acc, post) => (!acc || post.timestamp > acc.timestamp ? post : acc),
+		undefined,
+	);
+	if (newest) newestPosts.set(plan.username, newest);
+}
+
+/**
+ * Poster images of a post in slide order. Carousels keep every image slide
+ * (video slides contribute their thumbnail), capped at maxCarouselSlides;
+ * single posts keep display_url so the WhatsApp poster is unchanged.
+ */
+function getPostImages(post: InstagramPost): string[] {
+	if (post.media_type !== "carousel") {
+		return [post.display_url];
+	}
+
+	const slides = post.media_items
+		.filter((item) => item.type !== "video" && item.url)
+		.map((item) => item.url);
+
+	return (slides.length > 0 ? slides : [post.display_url]).slice(
+		0,
+		config.instagram.maxCarouselSlides,
+	);
+}
+
+function toScrapedPost(post: InstagramPost, username: string): ScrapedPost {
+	const images = getPostImages(post);
+	return {
+		title: null,
+		link: post.url,
+		image: images[0],
+		images,
+		description: post.caption || "",
+		source: "instagram",
+		username,
+	};
+}
+
+/**
+ * Give "link di bio" posts their account's bio links, one profile fetch
+ * per account. A failed fetch only loses the links, never the posts.
+ */
+async function attachBioLinks(posts: ScrapedPost[], log: EnhancedLogger): Promise<void> {
+	const byAccount = new Map<string, ScrapedPost[]>();
+	for (const post of posts) {
+		if (!mentionsBioLink(post.description)) continue;
+		byAccount.set(post.username, [...(byAccount.get(post.username) ?? []), post]);
+	}
+
+	for (const [username, accountPosts] of byAccount) {
+		try {
+			const bioLinks = await log.time(`instagram-bio-links-${username}`, () =>
+				fetchBioLinks(username, config.instagram.timeout),
+			);
+			for (const post of accountPosts) post.bioLinks = bioLinks;
+			log.debug("Fetched bio links", { username, links: bioLinks.length, posts: accountPosts.length });
+		} catch (error) {
+			log.warn("Bio link fetch failed", {
+				username,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+}
+
 async function scrapeOnce(
 	log: EnhancedLogger,
-	usernames: readonly string[],
+	plans: readonly AccountPlan[],
 ): Promise<{
 	posts: ScrapedPost[];
 	errors: ScrapeErrorType[];
 	totalTime: number;
+	/** Newest fetched post per account, the next cursor */
+	newestPosts: Map<string, InstagramPost>;
+	/** Accounts fetched successfully */
+	succeeded: string[];
+	/** Accounts that failed with a non-retryable error */
+	rejected: FailedAccount[];
 }> {
 	const igConfig = config.instagram;
 	const scraper = new InstagramScraper({
@@ -42,13 +291,17 @@ async function scrapeOnce(
 	});
 
 	const posts: ScrapedPost[] = [];
+	const newestPosts = new Map<string, InstagramPost>();
 	const failedAccounts: FailedAccount[] = []; // Akun yang gagal (429, etc)
+	const rejectedAccounts: FailedAccount[] = []; // Akun yang gagal permanen (404, etc)
+	const succeeded: string[] = [];
 
 	log.startTimer("instagram-scrape-total");
 
 	// Pass 1: Coba semua akun tanpa retry
 	log.info("Pass 1: Attempting to scrape all accounts");
-	for (const username of usernames) {
+	for (const plan of plans) {
+		const { username } = plan;
 		const accountLog = log.child({
 			workflowStep: `1-ig-scrape-${username}`,
 		});
@@ -56,32 +309,16 @@ async function scrapeOnce(
 		try {
 			await randomDelay(igConfig.minDelay, igConfig.maxDelay);
 
-			const results = await accountLog.time(
+			const results = await fetchPlannedPosts(
+				scraper,
+				plan,
+				accountLog,
 				`instagram-fetch-${username}`,
-				async () => await scraper.getPosts(username, igConfig.imageLimit),
 			);
 
 			if (results.success && results.posts) {
-				const validPosts = results.posts.filter(
-					(post) => post.display_url && post.url,
-				);
-
-				accountLog.info("Fetched valid posts", {
-					username,
-					validCount: validPosts.length,
-					totalCount: results.posts.length,
-				});
-
-				for (const post of validPosts) {
-					posts.push({
-						title: null,
-						link: post.url,
-						image: post.display_url,
-						description: post.caption || "",
-						source: "instagram",
-						username,
-					});
-				}
+				collectPosts(results.posts, plan, accountLog, posts, newestPosts);
+				succeeded.push(username);
 			} else {
 				const errorMsg = results.error ?? "Unknown error";
 				const isRetryable = RETRYABLE_ERROR_CODES.some((code) =>
@@ -93,6 +330,7 @@ async function scrapeOnce(
 					failedAccounts.push({ username, error: errorMsg, code: errorMsg });
 				} else {
 					accountLog.error(`Failed (non-retryable): ${errorMsg}`, { username });
+					rejectedAccounts.push({ username, error: errorMsg, code: results.code });
 				}
 			}
 		} catch (error) {
@@ -116,6 +354,7 @@ async function scrapeOnce(
 				failedAccounts.push({ username, error: errorMsg, code: errorCode });
 			} else {
 				accountLog.error(`Exception (non-retryable): ${errorMsg}`, { username, errorCode });
+				rejectedAccounts.push({ username, error: errorMsg, code: errorCode });
 			}
 		}
 	}
@@ -128,6 +367,7 @@ async function scrapeOnce(
 		await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
 
 		for (const { username } of failedAccounts) {
+			const plan = plans.find((p) => p.username === username)!;
 			const accountLog = log.child({
 				workflowStep: `1-ig-scrape-${username}-retry`,
 			});
@@ -135,31 +375,16 @@ async function scrapeOnce(
 			try {
 				await randomDelay(igConfig.minDelay, igConfig.maxDelay);
 
-				const results = await accountLog.time(
+				const results = await fetchPlannedPosts(
+					scraper,
+					plan,
+					accountLog,
 					`instagram-fetch-${username}-retry`,
-					async () => await scraper.getPosts(username, igConfig.imageLimit),
 				);
 
 				if (results.success && results.posts) {
-					const validPosts = results.posts.filter(
-						(post) => post.display_url && post.url,
-					);
-
-					accountLog.info("Fetched valid posts (retry)", {
-						username,
-						validCount: validPosts.length,
-					});
-
-					for (const post of validPosts) {
-						posts.push({
-							title: null,
-							link: post.url,
-							image: post.display_url,
-							description: post.caption || "",
-							source: "instagram",
-							username,
-						});
-					}
+					collectPosts(results.posts, plan, accountLog, posts, newestPosts);
+					succeeded.push(username);
 				} else {
 					accountLog.error(`Failed on retry: ${results.error}`, { username });
 				}
@@ -183,17 +408,136 @@ async function scrapeOnce(
 		});
 	}
 
+	if (igConfig.expandBioLinks) {
+		await attachBioLinks(posts, log);
+	}
+
 	const totalTime = log.endTimer("instagram-scrape-total");
 	const errors = failedAccounts.map(({ username, error, code }) => ({ username, error, code }));
 
-	return { posts, errors, totalTime };
+	return { posts, errors, totalTime, newestPosts, succeeded, rejected: rejectedAccounts };
 }
 
-export async function scrape(parentLog?: EnhancedLogger): Promise<ScrapeResult> {
+/**
+ * Resolve the accounts to scrape and load their cursors.
+ * Without explicit requests, enabled accounts come from the sources table
+ * (seeded from config). The database never blocks scraping: on failure
+ * config.instagram.accounts is scraped without cursors.
+ */
+async function loadAccountState(
+	env: Env | undefined,
+	accounts: InstagramAccountRequest[] | undefined,
+	log: EnhancedLogger,
+): Promise<{ requests: InstagramAccountRequest[]; cursors: Map<string, SourceCursor> }> {
+	const fallback = accounts?.length ? accounts : toAccountRequests(config.instagram.accounts);
+	if (!env?.DATABASE_URL) return { requests: fallback, cursors: new Map() };
+
+	const sql = postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	try {
+		let requests = fallback;
+		if (!accounts?.length) {
+			const seeded = await seedSources(sql, config.instagram.accounts);
+			if (seeded > 0) log.info("Seeded sources table from config", { seeded });
+			requests = toAccountRequests(await getEnabledUsernames(sql));
+		}
+
+		const cursors = await getSourceCursors(sql, requests.map((r) => cursorSourceId(r.username)));
+		return { requests, cursors };
+	} catch (error) {
+		log.warn("Instagram sources unavailable, using config accounts without cursors", {
+			message: error instanceof Error ? error.message : String(error),
+		});
+		return { requests: fallback, cursors: new Map() };
+	} finally {
+		await sql.end({ timeout: 10 }).catch(() => {});
+	}
+}
+
+/**
+ * Persist a run: update the accounts' failure streaks. Cursors are not
+ * saved here but returned with the posts (see nextCursors).
+ */
+async function saveRunState(
+	env: Env | undefined,
+	{ succeeded, rejected }: Pick<Awaited<ReturnType<typeof scrapeOnce>>, "succeeded" | "rejected">,
+	log: EnhancedLogger,
+): Promise<void> {
+	if (!env?.DATABASE_URL) return;
+
+	const sql = postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	try {
+		for (const username of succeeded) {
+			await recordSourceSuccess(sql, username);
+		}
+
+		// When nothing succeeded the outage is ours (network, IP block),
+		// not the accounts', so it does not count toward auto-disable
+		if (succeeded.length > 0) {
+			for (const { username, error } of rejected) {
+				const source = await recordSourceFailure(
+					sql,
+					username,
+					error,
+					config.instagram.autoDisableAfterFailures,
+				);
+				const justDisabled =
+					source &&
+					!source.enabled &&
+					source.consecutiveFailures === config.instagram.autoDisableAfterFailures;
+				if (justDisabled) {
+					log.warn(`Disabled @${username} after repeated failures`, {
+						username,
+						consecutiveFailures: source.consecutiveFailures,
+						lastError: error,
+					});
+				}
+			}
+		}
+	} catch (error) {
+		log.warn("Failed to save Instagram run state", {
+			message: error instanceof Error ? error.message : String(error),
+		});
+	} finally {
+		await sql.end({ timeout: 10 }).catch(() => {});
+	}
+}
+
+/**
+ * Normalize requested accounts: plain usernames are scraped incrementally.
+ */
+export function toAccountRequests(
+	accounts: readonly (string | InstagramAccountRequest)[],
+): InstagramAccountRequest[] {
+	return accounts.map((account) =>
+		typeof account === "string" ? { username: account } : account,
+	);
+}
+
+export interface InstagramScrapeOptions {
+	/** Enables per-account cursors when DATABASE_URL is set */
+	env?: Env;
+	/** Accounts to scrape instead of config.instagram.accounts */
+	accounts?: InstagramAccountRequest[];
+}
+
+export const name = "instagram";
+
+export async function scrape(
+	parentLog?: EnhancedLogger,
+	options: InstagramScrapeOptions = {},
+): Promise<ScrapeResult> {
 	const log = parentLog ?? createLogger({ workflowStep: "1-ig-scrape" });
-	const usernames = config.instagram.accounts;
 	const retryDelayMs = config.instagram.retryDelayMs;
 
+	const { requests, cursors } = await loadAccountState(options.env, options.accounts, log);
+	const usernames = requests.map((r) => r.username);
+	const plans: AccountPlan[] = requests.map((request) => ({
+		username: request.username,
+		mode: request.mode ?? "incremental",
+		cursor: cursors.get(cursorSourceId(request.username)) ?? null,
+		backfillDays: request.backfillDays ?? config.instagram.backfillDays,
+	}));
+
 	let attempt = 0;
 
 	while (true) {
@@ -202,15 +546,20 @@ export async function scrape(parentLog?: EnhancedLogger): Promise<ScrapeResult>
 		log.info("Starting Instagram scraping", {
 			accountsCount: usernames.length,
 			imageLimit: config.instagram.imageLimit,
+			withCursor: plans.filter((p) => p.cursor).length,
+			backfill: plans.filter((p) => p.mode === "backfill").map((p) => p.username),
 			attempt,
 		});
 
-		const { posts, errors, totalTime } = await scrapeOnce(log, usernames);
+		const run = await scrapeOnce(log, plans);
+		const { posts, errors, totalTime } = run;
 
 		const successCount = usernames.length - errors.length;
 		const isSuccess = posts.length > 0 || successCount > 0;
 
 		if (isSuccess) {
+			await saveRunState(options.env, run, log);
+
 			if (errors.length > 0) {
 				log.warn("Some accounts failed during scraping", {
 					skippedAccounts: errors.map((e) => e.username),
@@ -232,6 +581,7 @@ export async function scrape(parentLog?: EnhancedLogger): Promise<ScrapeResult>
 				count: posts.length,
 				posts,
 				errors: errors.length > 0 ? errors : undefined,
+				cursors: nextCursors(plans, run.newestPosts),
 			};
 		}
 
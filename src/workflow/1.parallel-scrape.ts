@@ -3,14 +3,29 @@
  * for each source in parallel. Each source processes independently without waiting for others.
  */
 
+import postgres from "postgres";
 import { createLogger, type EnhancedLogger } from "../utils/enhanced-logger.js";
-import { scrape as igScrape } from "./1.ig-scrape.js";
-import { scrape as infolombaidScrape } from "./1.web-scrape-infolombaid.js";
-import { scrape as infolombaitScrape } from "./1.web-scrape-infolombait.js";
+import { getDueSources } from "./1.source-registry.js";
 import { uploadToR2 } from "./2.upload-to-r2.js";
 import { insertToDb } from "./3.insertdb.js";
-import { config } from "./lib/config.js";
-import type { ScrapeResult, ScrapedPost, Env } from "./lib/types.js";
+import { config, type SourceRetryPolicy } from "./lib/config.js";
+import {
+	applyRunOutcome,
+	emptySourceHealth,
+	getSourceHealth,
+	isQuarantined,
+	saveSourceHealth,
+	type SourceHealth,
+	type SourceRunOutcome,
+} from "./lib/source-health.js";
+import type { CursorUpdate } from "./lib/source-state.js";
+import type {
+	Env,
+	InstagramAccountRequest,
+	ScrapeResult,
+	ScrapedPost,
+	ScraperSource,
+} from "./lib/types.js";
 
 interface PipelineResult {
 	source: string;
@@ -19,7 +34,18 @@ interface PipelineResult {
 	newRecordIds: number[];
 	errors?: string[];
 	duration: number;
-	retryAttempts?: number; // Track retry attempts for web scrapers
+	retryAttempts?: number; // Track scrape retry attempts
+	/** Scrape outcome recorded in source_health */
+	outcome: SourceRunOutcome;
+}
+
+/** Quarantined source as reported in the run summary */
+export interface QuarantinedSource {
+	source: string;
+	reason: string | null;
+	since: Date;
+	/** True when the source was skipped this run, false when it just got quarantined */
+	skipped: boolean;
 }
 
 interface InngestTriggerResult {
@@ -33,121 +59,215 @@ function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/** Calculate exponential backoff for retry (capped at 60s) */
-function getRetryDelay(attempt: number, baseDelayMs: number = 5000): number {
-	return Math.min(baseDelayMs * Math.pow(1.5, attempt), 60000);
+/** Calculate exponential backoff for retry (capped at the policy's maxDelayMs) */
+function getRetryDelay(attempt: number, policy: SourceRetryPolicy): number {
+	return Math.min(policy.baseDelayMs * Math.pow(1.5, attempt), policy.maxDelayMs);
+}
+
+/** Whether a scrape result counts as an empty listing under the source's policy */
+function isEmptyListing(result: ScrapeResult, policy: SourceRetryPolicy): boolean {
+	// Incremental sources may legitimately return 0 new posts; only an
+	// empty listing counts as a failed attempt
+	return policy.retryOnEmpty && (result.scanned ?? result.count) === 0;
+}
+
+/** Health of the due sources, loaded before a run and updated after it */
+interface HealthTracker {
+	health: Map<string, SourceHealth>;
+	/** Apply run outcomes and persist them, returning the new health per source */
+	record(outcomes: { source: string; outcome: SourceRunOutcome }[]): Promise<SourceHealth[]>;
+}
+
+/**
+ * Load source health. Health tracking never blocks scraping: without a
+ * database (or on errors) no source is quarantined and nothing is recorded.
+ */
+async function openHealthTracker(
+	env: Env | undefined,
+	sourceIds: string[],
+	log: EnhancedLogger,
+): Promise<HealthTracker> {
+	const disabled: HealthTracker = { health: new Map(), record: async () => [] };
+	if (!env?.DATABASE_URL) return disabled;
+
+	const connect = () => postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	let health: Map<string, SourceHealth>;
+
+	const sql = connect();
+	try {
+		health = await getSourceHealth(sql, sourceIds);
+	} catch (error) {
+		log.warn("Source health unavailable, running without quarantine", {
+			message: error instanceof Error ? error.message : String(error),
+		});
+		return disabled;
+	} finally {
+		await sql.end({ timeout: 10 }).catch(() => {});
+	}
+
+	return {
+		health,
+		async record(outcomes) {
+			const now = new Date();
+			const updated = outcomes.map(({ source, outcome }) =>
+				applyRunOutcome(
+					health.get(source) ?? emptySourceHealth(source),
+					outcome,
+					config.sourceHealth,
+					now,
+				),
+			);
+
+			const sql = connect();
+			try {
+				for (const row of updated) {
+					await saveSourceHealth(sql, row);
+				}
+			} catch (error) {
+				log.warn("Failed to save source health", {
+					message: error instanceof Error ? error.message : String(error),
+				});
+			} finally {
+				await sql.end({ timeout: 10 }).catch(() => {});
+			}
+			return updated;
+		},
+	};
+}
+
+/** Split due sources into those to run and those skipped by quarantine */
+function partitionQuarantined(
+	sources: ScraperSource[],
+	tracker: HealthTracker,
+): { runnable: ScraperSource[]; skipped: QuarantinedSource[] } {
+	const now = new Date();
+	const runnable: ScraperSource[] = [];
+	const skipped: QuarantinedSource[] = [];
+
+	for (const source of sources) {
+		const health = tracker.health.get(source.id);
+		if (health && isQuarantined(health, config.sourceHealth, now)) {
+			skipped.push({
+				source: source.id,
+				reason: health.quarantineReason,
+				since: health.quarantinedAt!,
+				skipped: true,
+			});
+		} else {
+			runnable.push(source);
+		}
+	}
+
+	return { runnable, skipped };
+}
+
+/** Sources quarantined by this run's outcomes (not already quarantined before it) */
+function newlyQuarantined(tracker: HealthTracker, updated: SourceHealth[]): QuarantinedSource[] {
+	return updated
+		.filter((row) => row.quarantinedAt && !tracker.health.get(row.sourceId)?.quarantinedAt)
+		.map((row) => ({
+			source: row.sourceId,
+			reason: row.quarantineReason,
+			since: row.quarantinedAt!,
+			skipped: false,
+		}));
 }
 
 /**
  * Run full pipeline for a single source: scrape → R2 → DB
- * Web sources have INFINITE retry until success
- * IG source uses existing retry logic (limited attempts)
+ * Scraping is retried up to the source's retry policy maxAttempts
+ * (IG retries internally and makes a single attempt here).
  */
 async function runSourcePipeline(
-	source: string,
-	scrapeFn: () => Promise<ScrapeResult>,
+	source: ScraperSource,
 	env: Env,
-	isWebSource: boolean,
 	parentLog?: EnhancedLogger,
 ): Promise<PipelineResult> {
-	const log = parentLog ?? createLogger({ workflowStep: `pipeline-${source}` });
+	const log = parentLog ?? createLogger({ workflowStep: `pipeline-${source.id}` });
 	const startTime = Date.now();
+	const policy = source.retry;
 
-	log.info(`[${source}] Starting pipeline`, {
-		source,
-		isWebSource,
-		retryStrategy: isWebSource ? "infinite until success" : "limited attempts (IG)",
+	log.info(`[${source.id}] Starting pipeline`, {
+		source: source.id,
+		kind: source.kind,
+		maxAttempts: policy.maxAttempts,
+		retryOnEmpty: policy.retryOnEmpty,
 	});
 
-	let scrapeResult: ScrapeResult;
+	let scrapeResult: ScrapeResult | undefined;
 	let retryAttempts = 0;
 	let lastError: string | undefined;
+	let emptyListing = false;
 
-	if (isWebSource) {
-		// Web source: retry UNTIL SUCCESS with exponential backoff
-		while (true) {
-			try {
-				log.info(`[${source}] Scraping attempt ${retryAttempts + 1}...`);
-				scrapeResult = await scrapeFn();
-
-				if (scrapeResult.count > 0) {
-					log.info(`[${source}] ✓ Scraping successful! ${scrapeResult.count} posts fetched`, {
-						attempts: retryAttempts + 1,
-					});
-					break; // Success! Exit the retry loop
-				}
-
-				// Got 0 posts - treat as failure and retry
-				const warningMsg = `[${source}] Got 0 posts, will retry...`;
-				log.warn(warningMsg);
-				lastError = warningMsg;
-				retryAttempts++;
-
-				const delay = getRetryDelay(retryAttempts);
-				log.info(`[${source}] Waiting ${Math.round(delay / 1000)}s before retry...`);
-				await sleep(delay);
-			} catch (error) {
-				const errorMsg = error instanceof Error ? error.message : String(error);
-				log.error(`[${source}] Scraping failed: ${errorMsg}`);
-				lastError = errorMsg;
-				retryAttempts++;
-
-				const delay = getRetryDelay(retryAttempts);
-				log.info(`[${source}] Waiting ${Math.round(delay / 1000)}s before retry...`);
-				await sleep(delay);
-			}
-		}
-	} else {
-		// IG source: use existing retry logic (no changes)
+	while (retryAttempts < policy.maxAttempts) {
 		try {
-			log.info(`[${source}] Scraping (using existing retry logic)...`);
-			scrapeResult = await scrapeFn();
-			log.info(`[${source}] Scraping completed: ${scrapeResult.count} posts`);
+			log.info(`[${source.id}] Scraping attempt ${retryAttempts + 1}...`);
+			const result = await source.scrape({ log, env });
+
+			emptyListing = isEmptyListing(result, policy);
+			if (!emptyListing) {
+				log.info(`[${source.id}] ✓ Scraping completed: ${result.count} posts`, {
+					attempts: retryAttempts + 1,
+				});
+				scrapeResult = result;
+				break;
+			}
+
+			// Listing returned nothing - treat as failure and retry
+			lastError = `[${source.id}] Got 0 posts`;
+			log.warn(`${lastError}, will retry...`);
 		} catch (error) {
-			const errorMsg = error instanceof Error ? error.message : String(error);
-			log.error(`[${source}] IG scraping failed`, { error: errorMsg });
+			emptyListing = false;
+			lastError = error instanceof Error ? error.message : String(error);
+			log.error(`[${source.id}] Scraping failed: ${lastError}`);
+		}
 
-			return {
-				source,
-				scraped: 0,
-				inserted: 0,
-				newRecordIds: [],
-				errors: [errorMsg],
-				duration: Date.now() - startTime,
-			};
+		retryAttempts++;
+		if (retryAttempts < policy.maxAttempts) {
+			const delay = getRetryDelay(retryAttempts, policy);
+			log.info(`[${source.id}] Waiting ${Math.round(delay / 1000)}s before retry...`);
+			await sleep(delay);
 		}
 	}
 
+	const outcome: SourceRunOutcome = scrapeResult
+		? { status: "ok", yield: scrapeResult.count }
+		: emptyListing
+			? { status: "empty", error: lastError ?? "Got 0 posts" }
+			: { status: "error", error: lastError ?? "Unknown error" };
+
 	// If no posts scraped, return early
-	if (scrapeResult.count === 0) {
-		log.info(`[${source}] No posts scraped, skipping pipeline`);
+	if (!scrapeResult || scrapeResult.count === 0) {
+		log.info(`[${source.id}] No posts scraped, skipping pipeline`);
 		return {
-			source,
+			source: source.id,
 			scraped: 0,
 			inserted: 0,
 			newRecordIds: [],
 			errors: lastError ? [lastError] : undefined,
 			duration: Date.now() - startTime,
 			retryAttempts,
+			outcome,
 		};
 	}
 
 	// Now execute R2 + DB steps
 	try {
-		const result = await executeR2AndDbSteps(source, scrapeResult, env, log, startTime, retryAttempts);
-		return result;
+		const result = await executeR2AndDbSteps(source.id, scrapeResult, env, log, startTime, retryAttempts);
+		return { ...result, outcome };
 	} catch (error) {
 		const errorMsg = error instanceof Error ? error.message : String(error);
-		log.error(`[${source}] Pipeline failed after scraping`, { error: errorMsg });
+		log.error(`[${source.id}] Pipeline failed after scraping`, { error: errorMsg });
 
 		return {
-			source,
+			source: source.id,
 			scraped: scrapeResult.count,
 			inserted: 0,
 			newRecordIds: [],
 			errors: [errorMsg],
 			duration: Date.now() - startTime,
 			retryAttempts,
+			outcome,
 		};
 	}
 }
@@ -160,7 +280,7 @@ async function executeR2AndDbSteps(
 	log: EnhancedLogger,
 	startTime: number,
 	retryAttempts: number,
-): Promise<PipelineResult> {
+): Promise<Omit<PipelineResult, "outcome">> {
 	// Step 2: Upload to R2
 	log.info(`[${source}] Step 2: Uploading to R2...`);
 	const uploadedPosts = await uploadToR2(scrapeResult.posts, env, {}, {}, log);
@@ -168,7 +288,7 @@ async function executeR2AndDbSteps(
 
 	// Step 3: Insert to DB
 	log.info(`[${source}] Step 3: Inserting to database...`);
-	const insertResult = await insertToDb(uploadedPosts, env, log);
+	const insertResult = await insertToDb(uploadedPosts, env, log, scrapeResult.cursors);
 
 	if (!insertResult || typeof insertResult !== "object") {
 		throw new Error("Database insert returned invalid result");
@@ -195,49 +315,41 @@ async function executeR2AndDbSteps(
 	};
 }
 
+/** Options for a parallel pipeline run */
+export interface ParallelPipelineOptions {
+	/** Cron expression that triggered the run; only sources scheduled on it are run */
+	cron?: string;
+}
+
 /**
- * Run all source pipelines in parallel.
- * Web sources retry UNTIL SUCCESS before proceeding to R2/DB.
- * IG source uses existing retry logic.
+ * Run all due source pipelines in parallel.
+ * Each source's retry policy decides how scraping is retried before R2/DB;
+ * quarantined sources are skipped and every run is recorded in source_health.
  */
 export async function runParallelPipelines(
 	env: Env,
 	parentLog?: EnhancedLogger,
+	options: ParallelPipelineOptions = {},
 ): Promise<{
 	results: PipelineResult[];
 	totalScraped: number;
 	totalInserted: number;
 	totalNewRecordIds: number[];
 	allErrors: string[];
+	quarantined: QuarantinedSource[];
 }> {
 	const log = parentLog ?? createLogger({ workflowStep: "parallel-pipelines" });
+	const due = getDueSources(options.cron);
+	const tracker = await openHealthTracker(env, due.map((s) => s.id), log);
+	const { runnable: sources, skipped } = partitionQuarantined(due, tracker);
 
 	log.info("Starting parallel pipelines", {
-		igAccounts: config.instagram.accounts.length,
-		webSources: config.webScraping.enabled ? config.webScraping.sources.length : 0,
-		note: "Web sources will retry until successful",
+		sources: sources.map((s) => s.id),
+		quarantined: skipped.map((q) => q.source),
+		cron: options.cron,
 	});
 
-	// Define all pipelines to run in parallel
-	// Web sources: isWebSource = true (infinite retry)
-	// IG: isWebSource = false (existing retry logic)
-	const pipelinePromises: Promise<PipelineResult>[] = [
-		// Instagram pipeline (existing retry logic)
-		runSourcePipeline("instagram", igScrape, env, false, log),
-
-		// Web scrapers (infinite retry until success)
-		...(config.webScraping.enabled
-			? config.webScraping.sources.map((source) => {
-					const scrapeFn =
-						source.name === "infolombaid"
-							? infolombaidScrape
-							: source.name === "infolombait"
-								? infolombaitScrape
-								: async () => ({ count: 0, posts: [] });
-					return runSourcePipeline(source.name, scrapeFn, env, true, log);
-				})
-			: []),
-	];
+	const pipelinePromises = sources.map((source) => runSourcePipeline(source, env, log));
 
 	// Run all pipelines in parallel
 	const outcomes = await Promise.allSettled(pipelinePromises);
@@ -275,11 +387,18 @@ export async function runParallelPipelines(
 		}
 	}
 
+	const updated = await tracker.record(results);
+	const quarantined = [...skipped, ...newlyQuarantined(tracker, updated)];
+	for (const q of quarantined.filter((q) => !q.skipped)) {
+		log.warn(`[${q.source}] Quarantined: ${q.reason}`, { source: q.source });
+	}
+
 	log.info("All parallel pipelines completed", {
 		totalScraped,
 		totalInserted,
 		totalNewRecordIds: totalNewRecordIds.length,
 		totalErrors: allErrors.length,
+		quarantined,
 		sources: results.map(r => ({
 			source: r.source,
 			scraped: r.scraped,
@@ -295,6 +414,7 @@ export async function runParallelPipelines(
 		totalInserted,
 		totalNewRecordIds,
 		allErrors,
+		quarantined,
 	};
 }
 
@@ -302,42 +422,31 @@ export async function runParallelPipelines(
  * Legacy alias for compatibility - runs all scrapers in parallel
  * but returns combined results (old behavior)
  */
-export async function scrapeAllSources(parentLog?: EnhancedLogger): Promise<ScrapeResult> {
+export async function scrapeAllSources(
+	parentLog?: EnhancedLogger,
+	env?: Env,
+	instagramAccounts?: InstagramAccountRequest[],
+): Promise<ScrapeResult> {
 	const log = parentLog ?? createLogger({ workflowStep: "1-parallel-scrape" });
 
+	const due = getDueSources();
+	const tracker = await openHealthTracker(env, due.map((s) => s.id), log);
+	const { runnable: sources, skipped } = partitionQuarantined(due, tracker);
+
 	log.info("Starting parallel scraping (legacy mode)", {
-		igAccounts: config.instagram.accounts.length,
-		webSources: config.webScraping.enabled ? config.webScraping.sources.length : 0,
+		sources: sources.map((s) => s.id),
+		quarantined: skipped.map((q) => q.source),
 	});
 
-	const scraperPromises = [
-		// Instagram scraping
-		(async () => {
-			const result = await igScrape(log);
-			return { source: "instagram", result };
-		})(),
-
-		// Web scrapers (only if enabled)
-		...(config.webScraping.enabled
-			? config.webScraping.sources.map((source) =>
-					(async () => {
-						let result: ScrapeResult;
-						if (source.name === "infolombaid") {
-							result = await infolombaidScrape();
-						} else if (source.name === "infolombait") {
-							result = await infolombaitScrape();
-						} else {
-							result = { count: 0, posts: [] };
-						}
-						return { source: source.name, result };
-					})(),
-				)
-			: []),
-	];
+	const scraperPromises = sources.map(async (source) => {
+		const result = await source.scrape({ log, env, instagramAccounts });
+		return { source: source.id, result };
+	});
 
 	const outcomes = await Promise.allSettled(scraperPromises);
 
 	const allPosts: ScrapedPost[] = [];
+	const allCursors: CursorUpdate[] = [];
 	const allErrors: { username: string; error: string }[] = [];
 	const sourceSummary: Record<string, { count: number; errors: number }> = {};
 
@@ -345,6 +454,7 @@ export async function scrapeAllSources(parentLog?: EnhancedLogger): Promise<Scra
 		if (outcome.status === "fulfilled") {
 			const { source, result } = outcome.value;
 			allPosts.push(...result.posts);
+			allCursors.push(...(result.cursors ?? []));
 
 			if (result.errors) {
 				for (const err of result.errors) {
@@ -370,15 +480,35 @@ export async function scrapeAllSources(parentLog?: EnhancedLogger): Promise<Scra
 		}
 	}
 
+	// allSettled keeps source order
+	const updated = await tracker.record(
+		outcomes.map((outcome, i) => ({
+			source: sources[i].id,
+			outcome:
+				outcome.status === "rejected"
+					? {
+							status: "error" as const,
+							error:
+								outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+						}
+					: isEmptyListing(outcome.value.result, sources[i].retry)
+						? { status: "empty" as const, error: "Got 0 posts" }
+						: { status: "ok" as const, yield: outcome.value.result.count },
+		})),
+	);
+	const quarantined = [...skipped, ...newlyQuarantined(tracker, updated)];
+
 	log.info("Parallel scraping completed", {
 		totalPosts: allPosts.length,
 		totalErrors: allErrors.length,
 		sources: sourceSummary,
+		quarantined,
 	});
 
 	return {
 		count: allPosts.length,
 		posts: allPosts,
 		errors: allErrors.length > 0 ? allErrors : undefined,
+		cursors: allCursors,
 	};
 }
@@ -0,0 +1,58 @@
+/**
+ * Scraper source registry - maps the sources declared in config to their
+ * scrape functions so the parallel pipeline never imports a scraper directly.
+ *
+ * Adding a web source only takes a WebScrapingSource entry in lib/config.ts:
+ * "html" entries (with selectors) use the generic selector scraper, "feed"
+ * entries the RSS/Atom/Blogger JSON feed scraper.
+ */
+
+import { scrapeFeedSource } from "./1.feed-scrape.js";
+import * as igScraper from "./1.ig-scrape.js";
+import { scrapeWebSource } from "./1.web-scrape.js";
+import { config, type AppConfig } from "./lib/config.js";
+import type { ScraperSource } from "./lib/types.js";
+
+/** Build every configured source (enabled or not) */
+export function getScraperSources(appConfig: AppConfig = config): ScraperSource[] {
+	const sources: ScraperSource[] = [
+		{
+			id: igScraper.name,
+			kind: "instagram",
+			schedule: appConfig.instagram.schedule,
+			retry: appConfig.instagram.retry,
+			enabled: appConfig.instagram.enabled,
+			scrape: (context) =>
+				igScraper.scrape(context?.log, {
+					env: context?.env,
+					accounts: context?.instagramAccounts,
+				}),
+		},
+	];
+
+	for (const entry of appConfig.webScraping.sources) {
+		sources.push({
+			id: entry.name,
+			kind: entry.kind === "feed" ? "feed" : "web",
+			schedule: entry.schedule,
+			retry: entry.retry ?? appConfig.webScraping.retry,
+			enabled: appConfig.webScraping.enabled && entry.enabled,
+			scrape: (context) =>
+				entry.kind === "feed"
+					? scrapeFeedSource(entry, context?.env)
+					: scrapeWebSource(entry, context?.env),
+		});
+	}
+
+	return sources;
+}
+
+/**
+ * Sources that should run now: enabled, and scheduled on `cron` when given.
+ * Without a cron (manual triggers, workflows) every enabled source is due.
+ */
+export function getDueSources(cron?: string, appConfig: AppConfig = config): ScraperSource[] {
+	return getScraperSources(appConfig).filter(
+		(source) => source.enabled && (!cron || source.schedule === cron),
+	);
+}
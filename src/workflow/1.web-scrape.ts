@@ -0,0 +1,284 @@
+/**
+ * Generic selector-based web scraper.
+ *
+ * Every blog-style source is described by a WebScrapingSource entry in
+ * lib/config.ts (list-item, title, link, image and description selectors),
+ * so onboarding a new lomba site needs no code.
+ *
+ * With a database available the crawl is incremental: older pages are
+ * followed until a post already in `competitions` (or the source's
+ * high-water mark) is reached, bounded by pagination.maxPages.
+ */
+
+import { load, type CheerioAPI } from "cheerio";
+import { createLogger, type SimpleLogger } from "../utils/logger.js";
+import type { HtmlScrapingSource } from "./lib/config.js";
+import { findExistingUrlsources } from "./lib/db-utils.js";
+import type { Env, ScrapeResult, ScrapedPost } from "./lib/types.js";
+import {
+	cleanDescription,
+	normalizeImageUrl,
+	openCrawlState,
+	toAbsoluteUrl,
+	type CrawlState,
+} from "./lib/web-utils.js";
+
+/** Listing entry before the detail page is fetched */
+export interface ListedPost {
+	title: string;
+	link: string;
+	image: string;
+	/** Matched the first item selector (the listing itself, not a featured block) */
+	primary: boolean;
+}
+
+/** Extract URL from CSS background-image style */
+function extractBackgroundUrl(style: string): string | null {
+	const match = style.match(/url\(([^)]+)\)/i);
+	if (!match) return null;
+	return match[1].replace(/['"]/g, "").trim();
+}
+
+/**
+ * Parse a listing page into posts using the source's selectors.
+ * Item selectors are applied in order; duplicate links are dropped, and
+ * so are items without a title unless selectors.requireTitle is false.
+ */
+export function parseListPage(
+	$: CheerioAPI,
+	source: HtmlScrapingSource,
+	limit: number = source.imageLimit,
+): ListedPost[] {
+	const { selectors } = source;
+	const imageAttr = selectors.imageAttr ?? "src";
+	const requireTitle = selectors.requireTitle ?? true;
+	const posts: ListedPost[] = [];
+	const seenLinks = new Set<string>();
+
+	for (const [index, itemSelector] of selectors.item.entries()) {
+		if (posts.length >= limit) break;
+
+		$(itemSelector).each((_, el) => {
+			if (posts.length >= limit) return false;
+
+			const $item = $(el);
+			const title = $item.find(selectors.title).first().text().trim();
+			if (!title && requireTitle) return;
+			const href = $item.find(selectors.link ?? selectors.title).first().attr("href");
+
+			const link = href ? toAbsoluteUrl(href, source.url) : null;
+			if (!link || seenLinks.has(link)) return;
+			seenLinks.add(link);
+
+			const $image = $item.find(selectors.image).first();
+			const rawImage =
+				imageAttr === "background-image"
+					? extractBackgroundUrl($image.attr("style") ?? "")
+					: $image.attr(imageAttr);
+
+			posts.push({
+				title,
+				link,
+				image: rawImage ? normalizeImageUrl(rawImage, source.url, source.imageRewrite) : "",
+				primary: index === 0,
+			});
+		});
+	}
+
+	return posts;
+}
+
+/**
+ * URL of the listing page after `page`: the "next" link when the source
+ * declares one, else the page query parameter. Null when there is none.
+ */
+export function getNextPageUrl(
+	$: CheerioAPI,
+	source: HtmlScrapingSource,
+	currentUrl: string,
+	page: number,
+): string | null {
+	const { pagination } = source;
+	if (!pagination) return null;
+
+	if (pagination.next) {
+		const href = $(pagination.next).first().attr("href");
+		if (href) return toAbsoluteUrl(href, currentUrl);
+	}
+
+	if (pagination.pageParam) {
+		const url = new URL(source.url);
+		url.searchParams.set(pagination.pageParam, String(page + 1));
+		return url.toString();
+	}
+
+	return null;
+}
+
+/** Fetch and parse a listing page */
+async function fetchPage(url: string): Promise<CheerioAPI> {
+	const response = await fetch(url, {
+		headers: { "User-Agent": "Mozilla/5.0" },
+	});
+
+	if (!response.ok) {
+		throw new Error(`upstream fetch failed: HTTP ${response.status}`);
+	}
+
+	return load(await response.text());
+}
+
+/** Result of walking the listing pages */
+export interface CrawlResult {
+	posts: ListedPost[];
+	scanned: number;
+	pages: number;
+	/** Link of the newest listed post, the next high-water mark */
+	newest: string | null;
+}
+
+/**
+ * Walk listing pages newest-first, collecting posts until a known one.
+ * Only posts of the primary item selector stop the crawl and set the
+ * high-water mark: featured blocks repeat older, already known posts.
+ * Without `sql` only the front page is read, capped at imageLimit.
+ */
+export async function crawlListing(
+	source: HtmlScrapingSource,
+	{ sql, cursor }: Pick<CrawlState, "sql" | "cursor">,
+	logger: SimpleLogger,
+): Promise<CrawlResult> {
+	// First crawl (or no database): behave like a plain front-page scrape
+	const limit = sql && cursor ? Number.POSITIVE_INFINITY : source.imageLimit;
+	const maxPages = sql ? (source.pagination?.maxPages ?? 1) : 1;
+
+	const posts: ListedPost[] = [];
+	const seenLinks = new Set<string>();
+	let scanned = 0;
+	let newest: string | null = null;
+	let page = 0;
+	let pageUrl: string | null = source.url;
+
+	while (pageUrl && page < maxPages) {
+		page++;
+
+		let $: CheerioAPI;
+		try {
+			$ = await fetchPage(pageUrl);
+		} catch (error) {
+			// Front page failures fail the scrape; later pages just end the crawl
+			if (page === 1) throw error;
+			logger.warn(`Stopping crawl at page ${page}`, {
+				url: pageUrl,
+				message: error instanceof Error ? error.message : String(error),
+			});
+			break;
+		}
+
+		const listed = parseListPage($, source, Number.POSITIVE_INFINITY);
+		scanned += listed.length;
+		if (page === 1) newest = listed.find((p) => p.primary)?.link ?? null;
+		if (listed.length === 0) break;
+
+		const known = sql
+			? await findExistingUrlsources(sql, listed.map((p) => p.link))
+			: new Set<string>();
+
+		let reachedKnown = false;
+		for (const post of listed) {
+			if (post.link === cursor || known.has(post.link)) {
+				if (!post.primary) continue;
+				reachedKnown = true;
+				break;
+			}
+			if (seenLinks.has(post.link)) continue;
+			seenLinks.add(post.link);
+			posts.push(post);
+			if (posts.length >= limit) break;
+		}
+
+		if (reachedKnown || posts.length >= limit) break;
+		pageUrl = getNextPageUrl($, source, pageUrl, page);
+	}
+
+	return { posts, scanned, pages: page, newest };
+}
+
+/** Fetch post description from detail page */
+async function fetchPostDescription(link: string, source: HtmlScrapingSource): Promise<string> {
+	const { description, descriptionMinLength = 0, descriptionMaxLength } = source.selectors;
+
+	try {
+		const response = await fetch(link, {
+			headers: { "User-Agent": "Mozilla/5.0" },
+		});
+		if (!response.ok) return "";
+		const $ = load(await response.text());
+
+		for (const selector of description) {
+			const node = $(selector).first();
+			if (!node.length) continue;
+
+			const desc = cleanDescription(node.text());
+			if (desc.length > descriptionMinLength) {
+				return descriptionMaxLength ? desc.substring(0, descriptionMaxLength) : desc;
+			}
+		}
+
+		return "";
+	} catch {
+		return "";
+	}
+}
+
+/** Scrape a configured web source: listing pages → detail pages → ScrapedPost[] */
+export async function scrapeWebSource(source: HtmlScrapingSource, env?: Env): Promise<ScrapeResult> {
+	const logger = createLogger({ workflowStep: `1-web-scrape-${source.name}` });
+
+	const state = await openCrawlState(env, source.name, logger);
+
+	try {
+		logger.info(`Starting web scrape for ${source.url}`, { incremental: !!state.sql });
+
+		const crawl = await crawlListing(source, state, logger);
+
+		const descriptions = await Promise.all(
+			crawl.posts.map((post) => fetchPostDescription(post.link, source)),
+		);
+
+		const scrapedPosts: ScrapedPost[] = crawl.posts.map((post, i) => ({
+			title: post.title || null,
+			link: post.link,
+			image: post.image,
+			images: post.image ? [post.image] : [],
+			description: descriptions[i],
+			source: "web" as const,
+			username: source.name,
+		}));
+
+		logger.info(`Web scraping completed: ${scrapedPosts.length} posts fetched`, {
+			count: scrapedPosts.length,
+			scanned: crawl.scanned,
+			pages: crawl.pages,
+			posts: scrapedPosts.map((p) => ({ title: p.title, link: p.link })),
+		});
+
+		return {
+			count: scrapedPosts.length,
+			posts: scrapedPosts,
+			scanned: crawl.scanned,
+			// Saved with the posts, never before they are stored
+			cursors:
+				state.sql && crawl.newest
+					? [{ sourceId: source.name, cursor: crawl.newest, cursorAt: new Date() }]
+					: undefined,
+		};
+	} catch (error) {
+		logger.error("Web scraping failed", {
+			message: error instanceof Error ? error.message : String(error),
+		});
+		throw error;
+	} finally {
+		await state.close();
+	}
+}
@@ -5,6 +5,15 @@ import {
 	ErrorCategory,
 } from "../utils/enhanced-logger.js";
 import { config } from "./lib/config.js";
+import { computePosterHash } from "./lib/poster-hash.js";
+import { createPosterStore, objectUrl, type PosterStore } from "./lib/poster-store.js";
+import {
+	detectImageType,
+	type PosterKeys,
+	type PosterVariant,
+	posterVariantKeys,
+	renderPosterVariant,
+} from "./lib/poster-images.js";
 import type { UploadResult, Env } from "./lib/types.js";
 
 /** Retry configuration for fetching images from Instagram */
@@ -74,22 +83,84 @@ function isRetryableError(error: Error): boolean {
 	);
 }
 
+/** Extension of a stored image, from its MIME type */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+	"image/jpeg": "jpg",
+	"image/png": "png",
+	"image/webp": "webp",
+	"image/gif": "gif",
+	"image/avif": "avif",
+};
+
+/** R2 custom metadata values are capped, Instagram CDN URLs can be long */
+const MAX_METADATA_VALUE = 512;
+
+/** Hex SHA-256 of the image bytes */
+async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", buffer);
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Content-addressed object key: `posters/ab/cd/<sha256>.<ext>`.
+ * The same image always maps to the same key, whichever post it came from.
+ */
+export function posterObjectKey(sha256: string, contentType: string | null): string {
+	const mime = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+	const ext = IMAGE_EXTENSIONS[mime] ?? "jpg";
+	return `posters/${sha256.slice(0, 2)}/${sha256.slice(2, 4)}/${sha256}.${ext}`;
+}
+
 interface PostData {
 	title?: string | null;
 	username?: string;
+	/** Source post URL, recorded in the object's metadata */
+	link?: string;
 	image: string;
+	/** Carousel slides, image first (defaults to [image]) */
+	images?: string[];
+	/** dHash of the poster (first slide), set by uploadToR2 */
+	posterHash?: string | null;
+	/** Object keys of the poster variants, set by uploadToR2 */
+	posterKeys?: PosterKeys | null;
+	/** Some slide kept its source URL (signed CDN links expire), set by uploadToR2 */
+	posterPending?: boolean;
+}
+
+/**
+ * Store an object unless its content-addressed key already exists.
+ * `render` is only called for missing objects. Returns whether it existed.
+ */
+async function putIfMissing(
+	store: PosterStore,
+	key: string,
+	render: () => Promise<{ body: ArrayBuffer; contentType: string }>,
+	metadata: Record<string, string>,
+): Promise<boolean> {
+	if (await store.exists(key)) return true;
+
+	const { body, contentType } = await render();
+	await store.put(key, body, { contentType, metadata });
+	return false;
 }
 
 /**
- * Upload single image to R2 using native R2 binding.
- * Native R2 operations do NOT count toward Cloudflare Workers subrequest limit.
+ * Upload single image to the poster store.
+ * With the R2 binding, storage operations do NOT count toward the
+ * Cloudflare Workers subrequest limit.
+ *
+ * With the Images binding every slide is stored as a normalized JPEG and the
+ * poster (first slide) also as WebP and thumbnail. Without it, or when the
+ * image cannot be transformed, the original bytes are stored and all
+ * variant keys point at them; no variant is written unless all render.
  */
 async function uploadSingleImage(
 	post: PostData,
-	r2Bucket: R2Bucket,
+	store: PosterStore,
 	retryConfig: RetryConfig,
-	r2PublicUrl: string,
 	parentLog?: EnhancedLogger,
+	slideIndex: number = 0,
+	imagesBinding?: ImagesBinding,
 ): Promise<UploadResult> {
 	const log = parentLog ?? createLogger({ workflowStep: "2-upload-single" });
 	const imageUrl = post.image;
@@ -145,30 +216,89 @@ async function uploadSingleImage(
 				contentType: response.headers.get("content-type"),
 			});
 
-			// Step 2: Upload to R2 using native binding (does NOT count as subrequest)
-			const sanitizedTitle =
-				typeof post.title === "string" && post.title
-					? post.title.replace(/[^a-z0-9]/gi, "_").toLowerCase().slice(0, 50)
-					: typeof post.username === "string"
-						? post.username
-						: "instagram";
-			const filename = `${Date.now()}-${sanitizedTitle}.jpg`;
-
-			await attemptLog.time(`upload-to-r2-${attempt}`, async () => {
-				await r2Bucket.put(filename, buffer, {
-					httpMetadata: {
-						contentType: response.headers.get("content-type") ?? "image/jpeg",
-					},
+			// Step 2: Store the image (R2 binding calls do NOT count as subrequests).
+			// Keys are content-addressed, so re-runs and reposts of the same image
+			// find the objects already stored and skip the upload.
+			// The served Content-Type is not trusted, the bytes decide.
+			const contentType = detectImageType(buffer);
+			if (!contentType) {
+				throw new Error(
+					`Not an image (served as ${response.headers.get("content-type") ?? "unknown type"})`,
+				);
+			}
+
+			const sha256 = await sha256Hex(buffer);
+			const customMetadata = {
+				sourceUrl: imageUrl.slice(0, MAX_METADATA_VALUE),
+				sourcePost: (post.link ?? "").slice(0, MAX_METADATA_VALUE),
+				sourceAccount: post.username ?? "",
+				firstSeenAt: new Date().toISOString(),
+			};
+
+			let posterKeys: PosterKeys | null = null;
+			let reused = true;
+
+			if (imagesBinding) {
+				const keys = posterVariantKeys(sha256, config.r2.images);
+				// Slides are only sent to WhatsApp, the web variants are poster only
+				const variants: PosterVariant[] = slideIndex === 0 ? ["jpeg", "webp", "thumb"] : ["jpeg"];
+				try {
+					await attemptLog.time(`upload-to-r2-${attempt}`, async () => {
+						// Every missing variant is rendered before any is written, so a
+						// transform failing midway leaves no partial set in storage
+						const rendered: { key: string; body: ArrayBuffer; contentType: string }[] = [];
+						for (const variant of variants) {
+							if (await store.exists(keys[variant])) continue;
+							const { body, contentType } = await renderPosterVariant(
+								imagesBinding,
+								buffer,
+								variant,
+								config.r2.images,
+							);
+							rendered.push({ key: keys[variant], body, contentType });
+						}
+						for (const { key, body, contentType } of rendered) {
+							await store.put(key, body, { contentType, metadata: customMetadata });
+						}
+						reused = rendered.length === 0;
+					});
+					posterKeys = keys;
+				} catch (error) {
+					attemptLog.warn("Image transform failed, storing the original", {
+						contentType,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+
+			if (!posterKeys) {
+				const key = posterObjectKey(sha256, contentType);
+				await attemptLog.time(`upload-to-r2-${attempt}`, async () => {
+					reused = await putIfMissing(
+						store,
+						key,
+						async () => ({ body: buffer, contentType }),
+						customMetadata,
+					);
 				});
-			});
+				posterKeys = { jpeg: key, webp: key, thumb: key };
+			}
+
+			const key = posterKeys.jpeg;
+			const r2Url = objectUrl(store, key);
+			attemptLog.debug("Successfully stored image", { key, r2Url, reused });
 
-			const r2Url = `${r2PublicUrl}/${filename}`;
-			attemptLog.debug("Successfully uploaded to R2", { filename, r2Url });
+			// Only the poster (first slide) is hashed for dedup
+			const posterHash = slideIndex === 0 ? computePosterHash(buffer) : undefined;
 
 			return {
 				success: true,
 				originalUrl: imageUrl,
 				r2Url,
+				key,
+				reused,
+				posterHash,
+				posterKeys: slideIndex === 0 ? posterKeys : undefined,
 			};
 		} catch (error) {
 			lastError = error instanceof Error ? error : new Error(String(error));
@@ -229,25 +359,21 @@ export async function uploadToR2(
 	parentLog?: EnhancedLogger,
 ): Promise<PostData[]> {
 	const log = parentLog ?? createLogger({ workflowStep: "2-upload-r2" });
-	const r2Config = config.r2;
 
-	// Use native R2 binding - does NOT count toward subrequest limit
-	const r2Bucket = env.MY_BUCKET;
-	const r2PublicUrl = env.R2_PUBLIC_URL ?? r2Config.publicUrl;
+	// Throws when the configured store is unusable, posters are never left on Instagram's CDN silently
+	const store = createPosterStore(env);
 
-	if (!r2Bucket) {
-		log.warn("R2 bucket binding not found, skipping upload and returning original URLs", {
-			hasR2Bucket: !!r2Bucket,
-		});
-		return posts;
-	}
-
-	log.info("Starting R2 upload using native binding", { postCount: posts.length });
+	log.info("Starting poster upload", {
+		driver: store.driver,
+		postCount: posts.length,
+		normalizeImages: !!env.IMAGES,
+	});
 
 	const configWithDefaults = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
 	const batchConfigWithDefaults = { ...DEFAULT_BATCH_CONFIG, ...batchConfig };
 	const updatedPosts: PostData[] = [];
 	let successCount = 0;
+	let reusedCount = 0;
 	let failureCount = 0;
 
 	log.startTimer("r2-upload-total");
@@ -285,32 +411,53 @@ export async function uploadToR2(
 				title: typeof post.title === "string" ? post.title.substring(0, 50) : undefined,
 			});
 
-			const result = await uploadSingleImage(
-				post,
-				r2Bucket,
-				configWithDefaults,
-				r2PublicUrl,
-				postLog,
-			);
-
-			if (result.success) {
-				successCount++;
-				postLog.debug("Upload successful", { r2Url: result.r2Url });
-				updatedPosts.push({
-					...post,
-					image: result.r2Url!,
-				});
-			} else {
-				failureCount++;
-				postLog.error("Upload failed", {
-					title: typeof post.title === "string" ? post.title.substring(0, 50) : post.title,
-					error: result.error,
-				});
-				updatedPosts.push({
-					...post,
-					image: result.originalUrl,
-				});
+			// Upload every slide; a failed slide keeps its original URL.
+			// Posts without an image (web listings) have no slides at all.
+			const slides = (post.images?.length ? post.images : [post.image]).filter((url) => url.trim() !== "");
+			const uploadedSlides: string[] = [];
+			let posterHash: string | null = null;
+			let posterKeys: PosterKeys | null = null;
+			let storedCount = 0;
+
+			for (let slideIndex = 0; slideIndex < slides.length; slideIndex++) {
+				const result = await uploadSingleImage(
+					{ ...post, image: slides[slideIndex] },
+					store,
+					configWithDefaults,
+					postLog,
+					slideIndex,
+					env.IMAGES,
+				);
+
+				if (result.success) {
+					successCount++;
+					if (result.reused) reusedCount++;
+					postLog.debug("Upload successful", { r2Url: result.r2Url, slide: slideIndex + 1 });
+					uploadedSlides.push(result.r2Url!);
+					storedCount++;
+					if (slideIndex === 0) {
+						posterHash = result.posterHash ?? null;
+						posterKeys = result.posterKeys ?? null;
+					}
+				} else {
+					failureCount++;
+					postLog.error("Upload failed", {
+						title: typeof post.title === "string" ? post.title.substring(0, 50) : post.title,
+						slide: slideIndex + 1,
+						error: result.error,
+					});
+					uploadedSlides.push(result.originalUrl);
+				}
 			}
+
+			updatedPosts.push({
+				...post,
+				image: uploadedSlides[0] ?? "",
+				images: uploadedSlides,
+				posterHash,
+				posterKeys,
+				posterPending: uploadedSlides.length !== storedCount,
+			});
 		}
 
 		// Add delay between batches (except for the last batch)
@@ -324,8 +471,10 @@ export async function uploadToR2(
 
 	log.info("R2 upload completed", {
 		successCount,
+		reusedCount,
 		failureCount,
-		totalCount: posts.length,
+		totalCount: successCount + failureCount,
+		postCount: posts.length,
 		totalDuration: Math.round(totalTime),
 		avgDuration: Math.round(totalTime / posts.length),
 	});
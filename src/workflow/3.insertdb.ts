@@ -1,4 +1,5 @@
-import postgres from "postgres";
+import postgres, { type Sql } from "postgres";
+import type { CompetitionRow, CompetitionValues } from "../schema.js";
 import {
 	createLogger,
 	type EnhancedLogger,
@@ -6,19 +7,228 @@ import {
 	ErrorCategory,
 } from "../utils/enhanced-logger.js";
 import { config } from "./lib/config.js";
+import {
+	findCompetitionsByDescription,
+	findExistingUrlsources,
+	withTransaction,
+} from "./lib/db-utils.js";
+import {
+	captionTrigrams,
+	findSimilarCaption,
+	type CaptionTrigrams,
+} from "./lib/caption-similarity.js";
+import { findNearestPoster } from "./lib/poster-hash.js";
+import {
+	findMentionedUrls,
+	recordMentions,
+	type MentionMatch,
+	type SourceMention,
+} from "./lib/source-mentions.js";
+import { saveSourceCursors, type CursorUpdate } from "./lib/source-state.js";
 import type { DbInsertResult, Env, SkippedCounts } from "./lib/types.js";
+import { canonicalizeUrl } from "./lib/url.js";
+import type { BioLink } from "./lib/bio-links.js";
+import type { PosterKeys } from "./lib/poster-images.js";
 
-interface PostData {
+export interface PostData {
 	title?: string | null;
 	description?: string | null;
 	image?: string | null;
+	images?: string[] | null;
 	link?: string | null;
+	posterHash?: string | null;
+	posterKeys?: PosterKeys | null;
+	posterPending?: boolean | null;
+	source?: string | null;
+	username?: string | null;
+	bioLinks?: BioLink[] | null;
+}
+
+type RecentRow = Pick<CompetitionRow, "id" | "description" | "duplicateOf">;
+
+/** Canonical competition: a stored id, or a post inserted earlier in this batch */
+export type Canonical = number | PostData;
+
+interface CaptionCandidate {
+	canonical: Canonical;
+	caption: CaptionTrigrams;
+}
+
+interface PosterCandidate {
+	canonical: Canonical;
+	posterHash: string;
+}
+
+export interface PendingMention {
+	post: PostData;
+	canonical: Canonical;
+	matchedBy: MentionMatch;
+	score: number | null;
+}
+
+function withCanonicalLink(post: PostData): PostData {
+	return post.link ? { ...post, link: canonicalizeUrl(post.link) } : post;
+}
+
+/** Row values of a post; `duplicateOf` set for a linked poster repost */
+function competitionValues(
+	sql: Sql<Record<string, never>>,
+	post: PostData,
+	duplicateOf: number | null,
+): CompetitionValues {
+	const posters = post.images?.length ? post.images : post.image ? [post.image] : [];
+	return {
+		title: String(post.title ?? ""),
+		description: String(post.description ?? ""),
+		poster: String(post.image ?? ""),
+		posters: sql.json(posters),
+		bioLinks: post.bioLinks?.length
+			? sql.json(post.bioLinks as unknown as postgres.JSONValue)
+			: null,
+		posterKeys: post.posterKeys ? sql.json(post.posterKeys) : null,
+		posterPending: post.posterPending ?? false,
+		posterHash: post.posterHash ?? null,
+		duplicateOf,
+		urlsource: String(post.link ?? ""),
+		status: duplicateOf === null ? "draft" : "duplicate",
+	};
+}
+
+/**
+ * Insert rows in one statement. Rows whose urlsource is already stored are
+ * skipped (competitions_urlsource_key), so only new rows are returned.
+ */
+async function insertCompetitions(
+	sql: Sql<Record<string, never>>,
+	rows: CompetitionValues[],
+): Promise<Pick<CompetitionRow, "id" | "urlsource">[]> {
+	if (rows.length === 0) return [];
+	return await sql<Pick<CompetitionRow, "id" | "urlsource">[]>`
+		INSERT INTO competitions ${sql(rows)}
+		ON CONFLICT DO NOTHING
+		RETURNING id, urlsource
+	`;
+}
+
+/**
+ * Insert linkless posts one by one: with an empty urlsource they cannot
+ * conflict (the unique index skips them), but nothing else matches their
+ * RETURNING rows back to the post either.
+ */
+async function insertLinkless(
+	sql: Sql<Record<string, never>>,
+	posts: readonly PostData[],
+	canonicalIds: Map<PostData, number>,
+): Promise<void> {
+	for (const post of posts) {
+		const [row] = await sql<Pick<CompetitionRow, "id">[]>`
+			INSERT INTO competitions ${sql(competitionValues(sql, post, null))}
+			RETURNING id
+		`;
+		canonicalIds.set(post, row.id);
+	}
+}
+
+/**
+ * Turn pending mentions into rows, resolving batch posts to the id they
+ * were inserted (or poster-linked) under. Unresolved mentions are dropped.
+ */
+function resolveMentions(
+	pending: readonly PendingMention[],
+	canonicalIds: ReadonlyMap<PostData, number>,
+): SourceMention[] {
+	const rows: SourceMention[] = [];
+	for (const { post, canonical, matchedBy, score } of pending) {
+		const competitionId = typeof canonical === "number" ? canonical : canonicalIds.get(canonical);
+		if (competitionId === undefined || !post.link) continue;
+		rows.push({
+			competitionId,
+			urlsource: post.link,
+			source: post.source ?? null,
+			account: post.username ?? null,
+			matchedBy,
+			score,
+		});
+	}
+	return rows;
+}
+
+/** Filtered posts of a batch, ready to store */
+export interface InsertBatch {
+	/** Posts stored as new drafts */
+	originals: PostData[];
+	/** Poster reposts, by the stored id or batch post they repost */
+	linked: { post: PostData; canonical: Canonical }[];
+	mentions: PendingMention[];
+}
+
+/**
+ * Store a filtered batch in one transaction: originals first, so linked
+ * duplicates can point at them, then the duplicates, the source mentions
+ * and the scrape cursors. Originals lost to a concurrent insert are counted
+ * as skippedUrl and their duplicates and mentions dropped. Nothing is
+ * stored when any statement fails. Returns the ids of the new originals.
+ */
+export async function storeBatch(
+	sql: Sql<Record<string, never>>,
+	{ originals, linked, mentions }: InsertBatch,
+	skipped: SkippedCounts,
+	options: { posterDuplicateAction: "skip" | "link"; cursors?: readonly CursorUpdate[] },
+): Promise<number[]> {
+	// Competition each inserted (or poster-matched) post belongs to
+	const canonicalIds = new Map<PostData, number>();
+	const resolve = (canonical: Canonical) =>
+		typeof canonical === "number" ? canonical : canonicalIds.get(canonical);
+
+	return await withTransaction(sql, async (tx) => {
+		const withLink = originals.filter((post) => post.link);
+		const inserted = await insertCompetitions(
+			tx,
+			withLink.map((post) => competitionValues(tx, post, null)),
+		);
+		const ids = new Map(inserted.map((row) => [row.urlsource, row.id]));
+		for (const post of withLink) {
+			const id = ids.get(post.link!);
+			if (id === undefined) {
+				// Stored by a concurrent run since the urls were checked
+				skipped.skippedUrl++;
+				continue;
+			}
+			canonicalIds.set(post, id);
+		}
+		await insertLinkless(tx, originals.filter((post) => !post.link), canonicalIds);
+
+		const duplicates: CompetitionValues[] = [];
+		for (const { post, canonical } of linked) {
+			const id = resolve(canonical);
+			if (id === undefined) continue;
+			canonicalIds.set(post, id);
+			if (options.posterDuplicateAction === "link") {
+				duplicates.push(competitionValues(tx, post, id));
+			}
+		}
+		// Linked duplicates are kept for provenance but never extracted or sent
+		skipped.linkedPoster += (await insertCompetitions(tx, duplicates)).length;
+
+		await recordMentions(tx, resolveMentions(mentions, canonicalIds));
+		await saveSourceCursors(tx, options.cursors ?? []);
+		return originals.flatMap((post) => {
+			const id = canonicalIds.get(post);
+			return id === undefined ? [] : [id];
+		});
+	});
 }
 
+/**
+ * Insert scraped posts as draft competitions. `cursors` (the scrape's next
+ * high-water marks) are saved in the same transaction, so they only move
+ * once the posts they cover are stored.
+ */
 export async function insertToDb(
 	posts: PostData[],
 	env: Env,
 	parentLog?: EnhancedLogger,
+	cursors: readonly CursorUpdate[] = [],
 ): Promise<DbInsertResult | { success: false; error: string }> {
 	const log = parentLog ?? createLogger({ workflowStep: "3-insert-db" });
 
@@ -39,37 +249,72 @@ export async function insertToDb(
 	});
 
 	try {
-		const existingData = await sql`
-			SELECT urlsource, description
+		const batch = posts.map(withCanonicalLink);
+		const links = [...new Set(batch.map((post) => post.link).filter((link): link is string => !!link))];
+		const descriptions = [
+			...new Set(batch.map((post) => post.description?.trim()).filter((d): d is string => !!d)),
+		];
+
+		// Only the batch's own urls and descriptions are looked up (indexed)
+		const existingUrls = await findExistingUrlsources(sql, links);
+		for (const url of await findMentionedUrls(sql, links)) existingUrls.add(url);
+		const existingDescriptions = await findCompetitionsByDescription(sql, descriptions);
+
+		const {
+			captionSimilarityThreshold,
+			captionMinLength,
+			captionCompareLimit,
+			posterCompareLimit,
+		} = config.dedup;
+
+		// Fuzzy caption matching only looks at the most recent competitions
+		const recentCaptions = await sql<RecentRow[]>`
+			SELECT id, description, "duplicateOf"
 			FROM competitions
-			WHERE urlsource IS NOT NULL OR description IS NOT NULL
+			WHERE description IS NOT NULL AND description <> ''
+			ORDER BY id DESC
+			LIMIT ${captionCompareLimit}
 		`;
+		const knownCaptions: CaptionCandidate[] = recentCaptions.map((row) => ({
+			canonical: row.duplicateOf ?? row.id,
+			caption: captionTrigrams(row.description!),
+		}));
 
-		const existingUrls = new Set(
-			existingData.map((r) => r.urlsource).filter((u): u is string => typeof u === "string"),
-		);
-		const existingDescriptions = new Set(
-			existingData
-				.map((r) => r.description)
-				.filter((d): d is string => typeof d === "string" && d.trim() !== "")
-				.map((d) => d.trim()),
-		);
+		// Canonical posters only, so duplicates link to the original row
+		const recentPosters = await sql<(Pick<CompetitionRow, "id"> & { posterHash: string })[]>`
+			SELECT id, "posterHash"
+			FROM competitions
+			WHERE "posterHash" IS NOT NULL AND "duplicateOf" IS NULL
+			ORDER BY id DESC
+			LIMIT ${posterCompareLimit}
+		`;
+		const knownPosters: PosterCandidate[] = recentPosters.map((row) => ({
+			canonical: row.id,
+			posterHash: row.posterHash,
+		}));
 
 		log.debug("Existing data in DB", {
 			existingUrls: existingUrls.size,
 			existingDescriptions: existingDescriptions.size,
+			existingCaptions: knownCaptions.length,
+			existingPosterHashes: knownPosters.length,
 		});
 
 		const filteredPosts: PostData[] = [];
-		const seenDescriptions = new Set<string>();
+		const seenDescriptions = new Map<string, PostData>();
+		const mentions: PendingMention[] = [];
 
 		const skipped: SkippedCounts = {
 			skippedUrl: 0,
 			skippedDescription: 0,
 			skippedDuplication: 0,
+			skippedCaption: 0,
+			skippedPoster: 0,
+			linkedPoster: 0,
 		};
 
-		for (const post of posts) {
+		// Compare and store canonical post URLs (no img_index/igsh, one host form)
+		for (const post of batch) {
 			const urlsource = typeof post.link === "string" ? post.link : "";
 			const description =
 				typeof post.description === "string" ? post.description.trim() : "";
@@ -79,19 +324,49 @@ export async function insertToDb(
 				continue;
 			}
 
-			if (description && existingDescriptions.has(description)) {
+			const knownId = description ? existingDescriptions.get(description) : undefined;
+			if (knownId !== undefined) {
 				skipped.skippedDescription++;
+				mentions.push({ post, canonical: knownId, matchedBy: "description", score: null });
 				continue;
 			}
 
-			if (description && seenDescriptions.has(description)) {
+			const seenPost = description ? seenDescriptions.get(description) : undefined;
+			if (seenPost) {
 				skipped.skippedDuplication++;
+				mentions.push({ post, canonical: seenPost, matchedBy: "description", score: null });
+				continue;
+			}
+
+			// Same caption with different hashtags/mentions/emojis
+			const caption = captionTrigrams(description);
+			const similar = findSimilarCaption(
+				caption,
+				knownCaptions,
+				captionSimilarityThreshold,
+				captionMinLength,
+			);
+			if (similar) {
+				log.debug("Near-duplicate caption", {
+					link: post.link,
+					similarity: Number(similar.similarity.toFixed(3)),
+				});
+				skipped.skippedCaption++;
+				mentions.push({
+					post,
+					canonical: similar.canonical,
+					matchedBy: "caption",
+					score: similar.similarity,
+				});
 				continue;
 			}
 
 			filteredPosts.push(post);
+			// The same post listed twice in one batch is inserted once
+			if (urlsource) existingUrls.add(urlsource);
 			if (description) {
-				seenDescriptions.add(description);
+				seenDescriptions.set(description, post);
+				knownCaptions.push({ canonical: post, caption });
 			}
 		}
 
@@ -102,7 +377,11 @@ export async function insertToDb(
 		});
 
 		if (filteredPosts.length === 0) {
-			log.info("No new posts to insert");
+			await withTransaction(sql, async (tx) => {
+				await recordMentions(tx, resolveMentions(mentions, new Map()));
+				await saveSourceCursors(tx, cursors);
+			});
+			log.info("No new posts to insert", { mentions: mentions.length });
 			return {
 				success: true,
 				count: 0,
@@ -111,40 +390,54 @@ export async function insertToDb(
 			};
 		}
 
-		log.startTimer("db-insert-total");
+		const { posterHashMaxDistance, posterDuplicateAction } = config.dedup;
+
+		// Reposted posters: compared against stored rows and earlier posts of this batch
+		const originals: PostData[] = [];
+		const linked: { post: PostData; canonical: Canonical }[] = [];
+		for (const post of filteredPosts) {
+			const original = post.posterHash
+				? findNearestPoster(post.posterHash, knownPosters, posterHashMaxDistance)
+				: null;
 
-		// Use individual INSERTs for now - simpler and more reliable
-		// TODO: Can optimize to true bulk insert later if needed
-		const result = await log.time(`db-insert-batch`, async () => {
-			const inserted: Array<{ id: number }> = [];
-			for (const post of filteredPosts) {
-				const row = await sql`
-					INSERT INTO competitions (
-						title,
-						description,
-						poster,
-						urlsource,
-						status
-					) VALUES (
-						${String(post.title ?? "")},
-						${String(post.description ?? "")},
-						${String(post.image ?? "")},
-						${String(post.link ?? "")},
-						'draft'
-					)
-					RETURNING id
-				`;
-				inserted.push(...(row as unknown as Array<{ id: number }>));
+			if (!original) {
+				originals.push(post);
+				mentions.push({ post, canonical: post, matchedBy: "original", score: null });
+				if (post.posterHash) {
+					knownPosters.push({ canonical: post, posterHash: post.posterHash });
+				}
+				continue;
 			}
-			return inserted;
-		});
 
-		const newRecordIds = result.map((r) => r.id);
+			log.debug("Near-duplicate poster", {
+				link: post.link,
+				duplicateOf: typeof original.canonical === "number" ? original.canonical : original.canonical.link,
+				distance: original.distance,
+				action: posterDuplicateAction,
+			});
+			mentions.push({
+				post,
+				canonical: original.canonical,
+				matchedBy: "poster",
+				score: original.distance,
+			});
+			if (posterDuplicateAction === "skip") skipped.skippedPoster++;
+			linked.push({ post, canonical: original.canonical });
+		}
+
+		log.startTimer("db-insert-total");
+
+		const newRecordIds = await log.time("db-insert-batch", () =>
+			storeBatch(sql, { originals, linked, mentions }, skipped, { posterDuplicateAction, cursors }),
+		);
 
 		const totalTime = log.endTimer("db-insert-total");
 
 		log.info("All posts saved successfully to database", {
 			count: newRecordIds.length,
+			mentions: mentions.length,
+			skippedPoster: skipped.skippedPoster,
+			linkedPoster: skipped.linkedPoster,
 			totalDuration: Math.round(totalTime),
 			avgDuration: newRecordIds.length > 0 ? Math.round(totalTime / newRecordIds.length) : 0,
 		});
@@ -1,6 +1,21 @@
 import postgres from "postgres";
-import { mistralOCR, geminiImageToText } from "./lib/model-function.js";
+import type { CompetitionRow } from "../schema.js";
 import { CompetitionSchema, CompetitionCategory } from "./lib/competition-schema.js";
+import { dedupCompetition } from "./lib/competition-dedup.js";
+import { updateCompetition } from "./lib/competition-revisions.js";
+import { publishCompetition } from "./lib/competition-status.js";
+import { pickBioLink } from "./lib/bio-links.js";
+import { config } from "./lib/config.js";
+import {
+  resolveChains,
+  usageCost,
+  type ExtractionChain,
+  type ExtractionProvider,
+  type ModelUsage,
+} from "./lib/extraction-providers.js";
+import { resolveLink, saveLinkCheck } from "./lib/link-resolver.js";
+import { linkCompetitionOrganizers } from "./lib/organizers.js";
+import type { PostSource } from "./lib/types.js";
 import {
   createLogger,
   type EnhancedLogger,
@@ -13,6 +28,15 @@ const VALID_LEVELS = ["SD", "SMP", "SMA", "Mahasiswa", "Umum"];
 const VALID_FORMATS = ["Online", "Offline", "Hybrid"];
 const VALID_PARTICIPATION = ["Individual", "Team"];
 
+/** Columns read for extraction */
+type ExtractionRow = Pick<
+  CompetitionRow,
+  "id" | "title" | "description" | "poster" | "posters" | "bioLinks"
+> & {
+  /** Source of the post the row was scraped from (source_mentions), picks the provider chain */
+  source: string | null;
+};
+
 function normalize(data: any) {
   // Remove undefined/null values entirely to prevent validation errors
   const cleaned: any = {};
@@ -425,34 +449,92 @@ function merge(base: any, update: any) {
   return result;
 }
 
-// Track which source provided each field
-type FieldSource = {
-  [field: string]: "zai" | "mistral" | "gemini" | null;
-};
-
-// Track model usage for statistics
-type ModelUsage = {
-  zai: number;
-  mistral: number;
-  gemini: number;
-};
+// Track which source provided each field: a provider id or "bio"
+export type FieldSource = Record<string, string | null>;
 
 // Per-record extraction details
-type RecordExtractionDetail = {
+export type RecordExtractionDetail = {
   recordId: number;
   fieldSource: FieldSource;
 };
 
-async function extractSingle(post: any, parentLog?: EnhancedLogger, modelUsage?: ModelUsage) {
+// What one extractData run reports
+export type ExtractionRunResult = {
+  success: boolean;
+  count: number;
+  duplicates: number;
+  modelUsage: ModelUsage;
+  totalDuration: number;
+  records: RecordExtractionDetail[];
+};
+
+/**
+ * Run one stage of the provider chain on `content`: providers are tried in
+ * order and the first result that passes CompetitionSchema is used. Null
+ * when every provider failed or returned invalid data; an invalid result
+ * is never merged, not even the last provider's.
+ */
+async function runChain(
+  providers: ExtractionProvider[],
+  content: string,
+  postLog: EnhancedLogger,
+  meta: Record<string, unknown>,
+  tag = "",
+): Promise<{ provider: ExtractionProvider; parsed: any } | null> {
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i];
+    const next = providers[i + 1];
+
+    try {
+      const raw = await postLog.time(`${provider.id}-extraction${tag}`, () =>
+        provider.extract(content, AbortSignal.timeout(provider.timeoutMs))
+      );
+      const parsed = normalize(raw);
+      const validation = CompetitionSchema.safeParse(parsed);
+
+      if (validation.success) {
+        return { provider, parsed };
+      }
+      postLog.warn(`${provider.id} validation failed, ${next ? `trying ${next.id}` : "result discarded"}`, {
+        ...meta,
+        errors: validation.error.issues.map((issue: any) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    } catch (error: any) {
+      logError(postLog, error as Error, {
+        operation: `${provider.id}-extraction`,
+        category: ErrorCategory.AI_MODEL,
+        recoverable: true,
+        metadata: { ...meta, provider: provider.id },
+      });
+    }
+  }
+  return null;
+}
+
+async function extractSingle(
+  post: any,
+  chain: ExtractionChain,
+  parentLog?: EnhancedLogger,
+  modelUsage?: ModelUsage,
+) {
   const log = parentLog ?? createLogger({ workflowStep: "4-extract-single" });
   const postLog = log.child({ workflowStep: `4-extract-post-${post.id}` });
 
-  const { description, poster, id } = post;
+  const { description, poster, posters, id } = post;
+  // Poster slides in order; the first one is the WhatsApp poster
+  const slides: string[] =
+    Array.isArray(posters) && posters.length > 0 ? posters : poster ? [poster] : [];
 
   postLog.debug("Starting extraction for post", {
     postId: id,
     hasDescription: !!description,
     hasPoster: !!poster,
+    slideCount: slides.length,
+    text: chain.text.map((provider) => provider.id),
+    image: chain.image.map((provider) => provider.id),
   });
 
   let data: any = {
@@ -472,120 +554,59 @@ async function extractSingle(post: any, parentLog?: EnhancedLogger, modelUsage?:
 
   const fieldSource: FieldSource = {};
 
-  // Helper: track which fields were added
-  function trackSource(sourceData: any, sourceName: "zai" | "mistral" | "gemini") {
-    for (const key in sourceData) {
-      if (sourceData[key] !== null && sourceData[key] !== undefined) {
-        if (!fieldSource[key]) {
-          fieldSource[key] = sourceName;
+  // Helper: merge a provider's result, crediting it with the fields it added
+  function mergeResult(result: { provider: ExtractionProvider; parsed: any }) {
+    const { provider, parsed } = result;
+    for (const key in parsed) {
+      if (parsed[key] !== null && parsed[key] !== undefined) {
+        if (data[key] === null || data[key] === undefined) {
+          fieldSource[key] = provider.id;
         }
       }
     }
+    data = merge(data, parsed);
+    if (modelUsage) modelUsage[provider.id] = (modelUsage[provider.id] ?? 0) + 1;
   }
 
-  // Helper: track newly added fields (for fallback models)
-  function trackNewFields(
-    baseData: any,
-    newData: any,
-    sourceName: "zai" | "mistral" | "gemini"
-  ) {
-    for (const key in newData) {
-      if (newData[key] !== null && newData[key] !== undefined) {
-        if (baseData[key] === null || baseData[key] === undefined) {
-          fieldSource[key] = sourceName;
-        }
-      }
-    }
-  }
-
-  // Step 1: Extract from description (caption) using Zai text-to-text
-  postLog.debug("Attempting Zai text extraction from caption");
-  if (description && description.trim()) {
-    try {
-      const textResult = await postLog.time("zai-text-extraction", async () => {
-        const { zaiTextToText } = await import("./lib/model-function.js");
-        return await zaiTextToText(description);
-      });
-      const normalized = normalize(textResult);
-      data = merge(data, normalized);
-      trackSource(normalized, "zai");
-      if (modelUsage) modelUsage.zai++;
-      postLog.debug("Zai text extraction completed", {
-        fieldsAdded: Object.keys(normalized).length,
-      });
-    } catch (error: any) {
-      logError(postLog, error as Error, {
-        operation: "zai-text-extraction",
-        category: ErrorCategory.AI_MODEL,
-        recoverable: true,
-        metadata: { postId: id },
+  // Step 1: Extract from description (caption) with the text chain
+  if (description && description.trim() && chain.text.length > 0) {
+    const result = await runChain(chain.text, description, postLog, { postId: id });
+    if (result) {
+      mergeResult(result);
+      postLog.debug("Text extraction completed", {
+        provider: result.provider.id,
+        fieldsAdded: Object.keys(result.parsed).length,
       });
     }
   } else {
-    postLog.debug("Zai text extraction skipped (no caption)");
+    postLog.debug("Text extraction skipped", { hasCaption: !!description?.trim() });
   }
 
-  // Step 2: Extract from poster image with Mistral OCR (fill missing fields)
-  postLog.debug("Attempting Mistral OCR extraction from poster");
-  let mistralSuccess = false;
-
-  try {
-    const mistralData = await postLog.time("mistral-ocr-extraction", async () => {
-      return await mistralOCR(poster);
-    });
-    const mistralParsed = normalize(mistralData);
-    const mistralValidation = CompetitionSchema.safeParse(mistralParsed);
-
-    if (mistralValidation.success) {
-      const beforeMerge = { ...data };
-      data = merge(data, mistralParsed);
-      trackNewFields(data, mistralParsed, "mistral");
-
-      if (modelUsage) modelUsage.mistral++;
-      mistralSuccess = true;
-      postLog.debug("Mistral OCR completed successfully", {
-        fieldsAdded: Object.keys(mistralParsed).length,
-      });
-    } else {
-      postLog.warn("Mistral OCR validation failed, will try Gemini", {
-        errors: mistralValidation.error.issues.map((i: any) => ({
-          path: i.path.join("."),
-          message: i.message,
-        })),
+  // Step 2: Run the image chain on every poster slide in order (carousels
+  // put timeline, fees and registration links on later slides). merge()
+  // keeps earlier values, so the first slide wins on conflicts.
+  for (let slideIndex = 0; slideIndex < slides.length && chain.image.length > 0; slideIndex++) {
+    const slideTag = slides.length > 1 ? `-slide-${slideIndex + 1}` : "";
+    const slideMeta = { postId: id, slide: slideIndex + 1, slides: slides.length };
+
+    const result = await runChain(chain.image, slides[slideIndex], postLog, slideMeta, slideTag);
+    if (result) {
+      mergeResult(result);
+      postLog.debug("Image extraction completed", {
+        ...slideMeta,
+        provider: result.provider.id,
+        fieldsAdded: Object.keys(result.parsed).length,
       });
     }
-  } catch (error: any) {
-    logError(postLog, error as Error, {
-      operation: "mistral-ocr-extraction",
-      category: ErrorCategory.AI_MODEL,
-      recoverable: true,
-      metadata: { postId: id },
-    });
   }
 
-  // Step 3: Fallback to Gemini if Mistral failed
-  if (!mistralSuccess) {
-    postLog.debug("Falling back to Gemini extraction");
-    try {
-      const geminiResult = await postLog.time("gemini-extraction", async () => {
-        return await geminiImageToText(poster);
-      });
-      const geminiParsed = normalize(geminiResult);
-      const beforeMerge = { ...data };
-      data = merge(data, geminiParsed);
-      trackNewFields(beforeMerge, geminiParsed, "gemini");
-
-      if (modelUsage) modelUsage.gemini++;
-      postLog.debug("Gemini extraction completed", {
-        fieldsAdded: Object.keys(geminiParsed).length,
-      });
-    } catch (error: any) {
-      logError(postLog, error as Error, {
-        operation: "gemini-extraction",
-        category: ErrorCategory.AI_MODEL,
-        recoverable: true,
-        metadata: { postId: id },
-      });
+  // Step 3: "Link di bio" posts - take the bio link matching the title
+  if (!data.url && Array.isArray(post.bioLinks) && post.bioLinks.length > 0) {
+    const bioLink = pickBioLink(data.title ?? "", post.bioLinks);
+    if (bioLink) {
+      data.url = bioLink.url;
+      fieldSource.url = "bio";
+      postLog.debug("Registration url taken from bio links", { postId: id, ...bioLink });
     }
   }
 
@@ -666,7 +687,8 @@ export async function extractData(
   existingIds: number[],
   env: any,
   parentLog?: EnhancedLogger,
-) {
+  runId?: string,
+): Promise<ExtractionRunResult> {
   const log = parentLog ?? createLogger({ workflowStep: "4-data-extraction" });
 
   if (!env.DATABASE_URL) {
@@ -683,9 +705,10 @@ export async function extractData(
     return {
       success: true,
       count: 0,
-      modelUsage: { zai: 0, mistral: 0, gemini: 0 },
+      duplicates: 0,
+      modelUsage: {},
       totalDuration: 0,
-      records: [] as RecordExtractionDetail[],
+      records: [],
     };
   }
 
@@ -695,6 +718,9 @@ export async function extractData(
     totalCount,
   });
 
+  // Resolved before connecting: a provider id typo fails the run here
+  const chains = resolveChains(config.extraction);
+
   const sql = postgres(env.DATABASE_URL, {
     ssl: "require",
     max: 1,
@@ -702,15 +728,18 @@ export async function extractData(
 
   try {
     const posts: any[] = [];
-    const modelUsage: ModelUsage = { zai: 0, mistral: 0, gemini: 0 };
+    const modelUsage: ModelUsage = {};
 
     log.startTimer("ai-extraction-total");
 
     // Fetch newly inserted draft records (most recent)
     if (newCount > 0) {
       const newPosts = await log.time("db-fetch-new", async () => {
-        return await sql`
-          SELECT id, title, description, poster
+        return await sql<ExtractionRow[]>`
+          SELECT id, title, description, poster, posters, "bioLinks",
+            (SELECT m.source FROM source_mentions m
+             WHERE m."competitionId" = competitions.id
+             ORDER BY m.id LIMIT 1) AS source
           FROM competitions
           WHERE status = 'draft'
           ORDER BY "createdAt" DESC
@@ -724,8 +753,11 @@ export async function extractData(
     // Fetch existing records that need extraction
     if (existingIds.length > 0) {
       const existingPosts = await log.time("db-fetch-existing", async () => {
-        return await sql`
-          SELECT id, title, description, poster
+        return await sql<ExtractionRow[]>`
+          SELECT id, title, description, poster, posters, "bioLinks",
+            (SELECT m.source FROM source_mentions m
+             WHERE m."competitionId" = competitions.id
+             ORDER BY m.id LIMIT 1) AS source
           FROM competitions
           WHERE id IN ${sql(existingIds)}
         `;
@@ -739,20 +771,23 @@ export async function extractData(
       return {
         success: true,
         count: 0,
-        modelUsage: { zai: 0, mistral: 0, gemini: 0 },
+        duplicates: 0,
+        modelUsage: {},
         totalDuration: 0,
-        records: [] as RecordExtractionDetail[],
+        records: [],
       };
     }
 
     log.info("Starting AI extraction for posts", {
       totalPosts: posts.length,
-      models: ["zai", "mistral", "gemini"],
+      chains: config.extraction.chains,
+      disabledProviders: config.extraction.disabledProviders,
     });
 
     // Extract AI data for each post and IMMEDIATELY update to DB (stream processing)
     let successCount = 0;
     let errorCount = 0;
+    let duplicateCount = 0;
     const records: RecordExtractionDetail[] = [];
 
     for (let i = 0; i < posts.length; i++) {
@@ -771,7 +806,7 @@ export async function extractData(
       try {
         const extracted = await postLog.time(
           `extract-single-post-${post.id}`,
-          () => extractSingle(post, log, modelUsage)
+          () => extractSingle(post, chains[post.source as PostSource] ?? chains.instagram, log, modelUsage)
         );
 
         // Collect per-record extraction details
@@ -782,10 +817,88 @@ export async function extractData(
 
         if (extracted.extractionSuccess && extracted.aiAnalysis) {
           await postLog.time(`db-update-${post.id}`, async () => {
-            await updateSingleRecord(sql, extracted.id, extracted.aiAnalysis);
+            // Revisions name the provider each field came from
+            await updateCompetition(sql, extracted.id, extracted.aiAnalysis, {
+              actor: "ai",
+              fieldActors: extracted.fieldSource,
+              runId,
+            });
           });
           postLog.debug("Updated database record", { postId: extracted.id });
           successCount++;
+
+          // Registration link: record where it leads, flag it when dead or closed
+          if (extracted.aiAnalysis.url) {
+            try {
+              const link = await postLog.time(`link-check-${post.id}`, () =>
+                resolveLink(extracted.aiAnalysis.url, config.linkCheck)
+              );
+              await saveLinkCheck(sql, extracted.id, link);
+              if (link.broken) {
+                postLog.warn("Registration link is broken", { postId: extracted.id, ...link });
+              }
+            } catch (error) {
+              postLog.warn("Link check failed", {
+                postId: extracted.id,
+                error: (error as Error).message,
+              });
+            }
+          }
+
+          // Organizers: extracted names and the accounts that posted it
+          try {
+            const organizer = extracted.aiAnalysis.organizer;
+            const names: string[] = Array.isArray(organizer) ? organizer : organizer ? [organizer] : [];
+            const organizers = await postLog.time(`organizers-${post.id}`, () =>
+              linkCompetitionOrganizers(sql, extracted.id, names, config.organizers)
+            );
+            postLog.debug("Linked organizers", { postId: extracted.id, organizers });
+          } catch (error) {
+            postLog.warn("Organizer linking failed", {
+              postId: extracted.id,
+              error: (error as Error).message,
+            });
+          }
+
+          // Same lomba from another post: merge into one row before it reaches WhatsApp
+          try {
+            const duplicate = await postLog.time(`dedup-${post.id}`, () =>
+              dedupCompetition(sql, extracted.id)
+            );
+            if (duplicate) {
+              postLog.info("Merged duplicate competition", { ...duplicate });
+              duplicateCount++;
+            }
+          } catch (error) {
+            postLog.warn("Duplicate check failed", {
+              postId: extracted.id,
+              error: (error as Error).message,
+            });
+          }
+
+          // Passed validation with every required field: ready for WhatsApp
+          if (extracted.extractionError === null) {
+            try {
+              const { published, missing } = await publishCompetition(sql, extracted.id, {
+                actor: "system",
+                runId,
+              });
+              if (published) {
+                postLog.debug("Published competition", { postId: extracted.id });
+              } else if (missing.length > 0) {
+                postLog.info("Competition left in draft", { postId: extracted.id, missing });
+              }
+            } catch (error) {
+              postLog.warn("Publish failed", {
+                postId: extracted.id,
+                error: (error as Error).message,
+              });
+            }
+          } else {
+            postLog.info("Competition left in draft: schema validation failed", {
+              postId: extracted.id,
+            });
+          }
         } else {
           postLog.warn("Extraction produced no valid data", {
             postId: extracted.id,
@@ -808,14 +921,17 @@ export async function extractData(
     log.info("Extraction completed", {
       successCount,
       errorCount,
+      duplicateCount,
       totalDuration: Math.round(totalTime),
       avgDuration: Math.round(totalTime / posts.length),
       modelUsage,
+      estimatedCost: usageCost(modelUsage),
     });
 
     return {
       success: true,
       count: successCount,
+      duplicates: duplicateCount,
       modelUsage,
       totalDuration: totalTime,
       records,
@@ -832,18 +948,3 @@ export async function extractData(
     }
   }
 }
-
-async function updateSingleRecord(sql: ReturnType<typeof postgres>, id: number, ai: any) {
-  const { buildUpdateObject } = await import("./lib/db-utils.js");
-  const updates = buildUpdateObject(ai, sql);
-
-  if (Object.keys(updates).length === 0) {
-    return;
-	}
-
-	await sql`
-    UPDATE competitions
-    SET ${sql(updates)}
-    WHERE id = ${id}
-  `;
-}
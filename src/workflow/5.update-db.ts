@@ -6,7 +6,8 @@ import {
 	ErrorCategory,
 } from "../utils/enhanced-logger.js";
 import { config } from "./lib/config.js";
-import { buildUpdateObject } from "./lib/db-utils.js";
+import { applyCompetitionChanges } from "./lib/competition-revisions.js";
+import { buildCompetitionChanges } from "./lib/db-utils.js";
 import type { DbUpdateResult, Env, AIExtractedData } from "./lib/types.js";
 
 interface PostWithAi {
@@ -59,7 +60,7 @@ export async function saveToDb(
 				continue;
 			}
 
-			const updates = buildUpdateObject(ai, sql);
+			const updates = buildCompetitionChanges(ai);
 
 			if (Object.keys(updates).length === 0) {
 				postLog.debug("No fields to update", {
@@ -70,18 +71,14 @@ export async function saveToDb(
 				continue;
 			}
 
-			await postLog.time(`db-update-${i}`, async () => {
-				await sql`
-					UPDATE competitions
-					SET ${sql(updates)}
-					WHERE id = ${post.id}
-				`;
-			});
+			const changes = await postLog.time(`db-update-${i}`, () =>
+				applyCompetitionChanges(sql, post.id, updates, { actor: "ai" }),
+			);
 
 			updateCount++;
 			postLog.debug("Updated post with AI data", {
 				title: (ai.title ?? post.title)?.substring(0, 50),
-				fieldsUpdated: Object.keys(updates).length,
+				fieldsUpdated: changes.length,
 			});
 		}
 
@@ -1,4 +1,5 @@
 import postgres from "postgres";
+import type { CompetitionRow } from "../schema.js";
 import {
   createLogger,
   type EnhancedLogger,
@@ -8,19 +9,16 @@ import {
 import { config, type WhatsAppConfig } from "./lib/config.js";
 import type { WhatsAppSendResult, Env } from "./lib/types.js";
 
-interface Competition {
-  id: string;
+/** Sendable competition: fetchPublishedCompetitions only returns rows with a title and poster */
+interface Competition extends Pick<CompetitionRow, "id" | "level" | "url" | "endDate"> {
   title: string;
   poster: string;
-  level: string[] | null;
-  url: string;
-  endDate: string | null;
 }
 
 const DATE_LOCALE = "id-ID";
 
-function formatDeadline(dateStr: string): string {
-  const date = new Date(dateStr);
+function formatDeadline(value: Date | string): string {
+  const date = new Date(value);
   return new Intl.DateTimeFormat(DATE_LOCALE, {
     day: "numeric",
     month: "long",
@@ -231,18 +229,22 @@ async function sendCompetitions(
   }
 }
 
-async function fetchDraftCompetitions(
+async function fetchPublishedCompetitions(
   sql: ReturnType<typeof postgres>,
 ): Promise<Competition[]> {
+  // Publishing requires a title, poster and endDate (REQUIRED_FIELDS); they
+  // are checked again so a row emptied after publishing is never sent. The
+  // endDate check covers rows expiring since the last archive run
   return await sql<Competition[]>`
 		SELECT id, title, poster, level, url, "endDate"
 		FROM competitions
-		WHERE ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
-			AND title IS NOT NULL
-			AND title != ''
-			AND poster IS NOT NULL
-			AND poster != ''
-			AND ("endDate" IS NULL OR "endDate" >= CURRENT_DATE)
+		WHERE status = 'published'
+			AND COALESCE(TRIM(title), '') <> ''
+			AND COALESCE(TRIM(poster), '') <> ''
+			AND ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
+			AND "urlBroken" IS NOT TRUE
+			AND "posterPending" IS NOT TRUE
+			AND "endDate" >= CURRENT_DATE
 		ORDER BY id ASC
 	`;
 }
@@ -250,9 +252,11 @@ async function fetchDraftCompetitions(
 /** Detailed skip reasons for logging */
 interface SkipReasons {
   alreadySent: number;
-  noTitle: number;
-  noPoster: number;
-  expired: number;
+  draft: number;
+  duplicate: number;
+  archived: number;
+  brokenLink: number;
+  posterPending: number;
   eligible: number;
 }
 
@@ -263,7 +267,15 @@ interface SkipReasons {
 async function analyzeSkipReasons(
   sql: ReturnType<typeof postgres>,
 ): Promise<SkipReasons> {
-  const [alreadySent, noTitle, noPoster, expired, eligible] = await Promise.all([
+  const [
+    alreadySent,
+    draft,
+    duplicate,
+    archived,
+    brokenLink,
+    posterPending,
+    eligible,
+  ] = await Promise.all([
     // Already sent to WhatsApp
     sql<{ count: bigint }[]>`
       SELECT COUNT(*)::bigint as count
@@ -271,50 +283,65 @@ async function analyzeSkipReasons(
       WHERE "whatsappChannel" = true
     `.then((r) => Number(r[0]?.count ?? 0)),
 
-    // No title or empty title
+    // Not published: waiting for extraction or missing a required field
     sql<{ count: bigint }[]>`
       SELECT COUNT(*)::bigint as count
       FROM competitions
-      WHERE ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
-        AND (title IS NULL OR title = '')
+      WHERE status = 'draft'
     `.then((r) => Number(r[0]?.count ?? 0)),
 
-    // No poster or empty poster
+    // Duplicate of another competition (never sent)
     sql<{ count: bigint }[]>`
       SELECT COUNT(*)::bigint as count
       FROM competitions
-      WHERE ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
-        AND (poster IS NULL OR poster = '')
+      WHERE status = 'duplicate'
     `.then((r) => Number(r[0]?.count ?? 0)),
 
-    // Expired (endDate < today)
+    // Past deadline before it was sent
     sql<{ count: bigint }[]>`
       SELECT COUNT(*)::bigint as count
       FROM competitions
-      WHERE ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
-        AND "endDate" IS NOT NULL
-        AND "endDate" < CURRENT_DATE
+      WHERE status = 'archived'
+        AND ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
+    `.then((r) => Number(r[0]?.count ?? 0)),
+
+    // Registration link is dead or the form is closed
+    sql<{ count: bigint }[]>`
+      SELECT COUNT(*)::bigint as count
+      FROM competitions
+      WHERE status = 'published'
+        AND ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
+        AND "urlBroken" = true
+    `.then((r) => Number(r[0]?.count ?? 0)),
+
+    // Poster still on the source CDN, waiting for the repair job
+    sql<{ count: bigint }[]>`
+      SELECT COUNT(*)::bigint as count
+      FROM competitions
+      WHERE status = 'published'
+        AND ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
+        AND "posterPending" = true
     `.then((r) => Number(r[0]?.count ?? 0)),
 
     // Eligible to send
     sql<{ count: bigint }[]>`
       SELECT COUNT(*)::bigint as count
       FROM competitions
-      WHERE ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
-        AND title IS NOT NULL
-        AND title != ''
-        AND poster IS NOT NULL
-        AND poster != ''
-        AND ("endDate" IS NULL OR "endDate" >= CURRENT_DATE)
+      WHERE status = 'published'
+        AND COALESCE(TRIM(title), '') <> ''
+        AND COALESCE(TRIM(poster), '') <> ''
+        AND ("whatsappChannel" = false OR "whatsappChannel" IS NULL)
+        AND "urlBroken" IS NOT TRUE
+        AND "posterPending" IS NOT TRUE
+        AND "endDate" >= CURRENT_DATE
     `.then((r) => Number(r[0]?.count ?? 0)),
   ]);
 
-  return { alreadySent, noTitle, noPoster, expired, eligible };
+  return { alreadySent, draft, duplicate, archived, brokenLink, posterPending, eligible };
 }
 
 /**
- * Send ALL competitions with whatsappChannel = false to WhatsApp channel.
- * Only sends competitions that have BOTH title AND poster.
+ * Send ALL published competitions with whatsappChannel = false to WhatsApp channel.
  */
 export async function sendAllToWhatsApp(
   env: Env,
@@ -345,22 +372,34 @@ export async function sendAllToWhatsApp(
     // Log detailed skip analysis
     log.info("WhatsApp send eligibility analysis", {
       alreadySent: skipReasons.alreadySent,
-      noTitle: skipReasons.noTitle,
-      noPoster: skipReasons.noPoster,
-      expired: skipReasons.expired,
+      draft: skipReasons.draft,
+      duplicate: skipReasons.duplicate,
+      archived: skipReasons.archived,
+      brokenLink: skipReasons.brokenLink,
+      posterPending: skipReasons.posterPending,
       eligible: skipReasons.eligible,
-      totalPending: skipReasons.noTitle + skipReasons.noPoster + skipReasons.expired + skipReasons.eligible,
+      totalPending:
+        skipReasons.draft +
+        skipReasons.brokenLink +
+        skipReasons.posterPending +
+        skipReasons.eligible,
     });
 
     // Show warning if there are skipped records
-    const totalSkipped = skipReasons.noTitle + skipReasons.noPoster + skipReasons.expired;
+    const totalSkipped =
+      skipReasons.draft +
+      skipReasons.archived +
+      skipReasons.brokenLink +
+      skipReasons.posterPending;
     if (totalSkipped > 0) {
       log.warn("⚠️ Some competitions are being skipped from WhatsApp send", {
         skipReasons: {
           alreadySent: `${skipReasons.alreadySent} already sent`,
-          noTitle: `${skipReasons.noTitle} missing title (AI extraction failed)`,
-          noPoster: `${skipReasons.noPoster} missing poster (R2 upload failed)`,
-          expired: `${skipReasons.expired} past deadline`,
+          draft: `${skipReasons.draft} not published yet (extraction pending, failed or missing title/poster/endDate)`,
+          duplicate: `${skipReasons.duplicate} duplicates of another competition`,
+          archived: `${skipReasons.archived} archived past deadline before being sent`,
+          brokenLink: `${skipReasons.brokenLink} broken registration link`,
+          posterPending: `${skipReasons.posterPending} poster not stored yet (waiting for repair)`,
         },
         eligible: `${skipReasons.eligible} ready to send`,
       });
@@ -368,12 +407,12 @@ export async function sendAllToWhatsApp(
 
     // Fetch eligible competitions
     const comps = await log.time("db-fetch-all", async () =>
-      fetchDraftCompetitions(sql),
+      fetchPublishedCompetitions(sql),
     );
 
     if (!comps.length) {
       log.warn(
-        "No eligible competitions to send (all are either sent, missing data, or expired)",
+        "No eligible competitions to send (all are either sent, unpublished, or expired)",
       );
       return { sent: 0, skipped: 0 };
     }
@@ -395,8 +434,7 @@ export async function sendAllToWhatsApp(
 }
 
 /**
- * Send a RANDOM subset of competitions with whatsappChannel = false to WhatsApp channel.
- * Only sends competitions that have BOTH title AND poster.
+ * Send a RANDOM subset of published competitions with whatsappChannel = false to WhatsApp channel.
  */
 export async function sendRandomToWhatsApp(
   env: Env,
@@ -428,23 +466,25 @@ export async function sendRandomToWhatsApp(
     // Log detailed skip analysis
     log.info("WhatsApp send eligibility analysis", {
       alreadySent: skipReasons.alreadySent,
-      noTitle: skipReasons.noTitle,
-      noPoster: skipReasons.noPoster,
-      expired: skipReasons.expired,
+      draft: skipReasons.draft,
+      duplicate: skipReasons.duplicate,
+      archived: skipReasons.archived,
+      brokenLink: skipReasons.brokenLink,
+      posterPending: skipReasons.posterPending,
       eligible: skipReasons.eligible,
     });
 
     log.info(
-      "Fetching competitions with whatsappChannel = false from database for random selection",
+      "Fetching unsent published competitions from database for random selection",
     );
 
     const comps = await log.time("db-fetch-all", async () =>
-      fetchDraftCompetitions(sql),
+      fetchPublishedCompetitions(sql),
     );
 
     if (!comps.length) {
       log.warn(
-        "No eligible competitions to send (all are either sent, missing data, or expired)",
+        "No eligible competitions to send (all are either sent, unpublished, or expired)",
       );
       return { sent: 0, skipped: 0 };
     }
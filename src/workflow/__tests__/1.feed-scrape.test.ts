@@ -0,0 +1,118 @@
+import { describe, it, expect } from "bun:test";
+import { parseFeed, toScrapedPost } from "../1.feed-scrape.js";
+import type { FeedScrapingSource } from "../lib/config.js";
+
+const source: FeedScrapingSource = {
+	kind: "feed",
+	name: "example",
+	url: "https://lomba.example.com/feeds/posts/default?alt=json",
+	imageLimit: 5,
+	enabled: true,
+	schedule: "0 */6 * * *",
+	imageRewrite: { pattern: "/s\\d+(-c)?/", replacement: "/s1600/" },
+};
+
+describe("Feed Scrape - parseFeed", () => {
+	it("parses Blogger JSON feeds", () => {
+		const body = JSON.stringify({
+			feed: {
+				entry: [
+					{
+						title: { $t: " Lomba Esai 2026 " },
+						link: [
+							{ rel: "replies", href: "https://lomba.example.com/comments" },
+							{ rel: "alternate", href: "https://lomba.example.com/2026/01/esai.html" },
+						],
+						content: { $t: '<p>Daftar <img src="https://img.example.com/s320/poster.jpg"></p>' },
+						published: { $t: "2026-01-02T10:00:00.000+07:00" },
+						media$thumbnail: { url: "https://img.example.com/s72-c/poster.jpg" },
+					},
+				],
+			},
+		});
+
+		const [entry] = parseFeed(body);
+
+		expect(entry.title).toBe("Lomba Esai 2026");
+		expect(entry.link).toBe("https://lomba.example.com/2026/01/esai.html");
+		expect(entry.thumbnail).toBe("https://img.example.com/s72-c/poster.jpg");
+		expect(entry.published).toBe("2026-01-02T10:00:00.000+07:00");
+	});
+
+	it("parses RSS feeds with content:encoded", () => {
+		const body = `<?xml version="1.0"?>
+			<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+				<channel>
+					<title>Lomba</title>
+					<link>https://lomba.example.com</link>
+					<item>
+						<title>Lomba Poster</title>
+						<link>https://lomba.example.com/lomba-poster/</link>
+						<description>Ringkasan</description>
+						<content:encoded><![CDATA[<p><img src="/wp-content/poster.png"/> Lomba poster nasional</p>]]></content:encoded>
+						<pubDate>Fri, 02 Jan 2026 03:00:00 +0000</pubDate>
+					</item>
+				</channel>
+			</rss>`;
+
+		const entries = parseFeed(body);
+
+		expect(entries).toHaveLength(1);
+		expect(entries[0].title).toBe("Lomba Poster");
+		expect(entries[0].link).toBe("https://lomba.example.com/lomba-poster/");
+		expect(entries[0].content).toContain("<img");
+	});
+
+	it("parses Atom feeds using the alternate link", () => {
+		const body = `<?xml version="1.0"?>
+			<feed xmlns="http://www.w3.org/2005/Atom">
+				<entry>
+					<title>Lomba Coding</title>
+					<link rel="self" href="https://lomba.example.com/feeds/1"/>
+					<link rel="alternate" href="https://lomba.example.com/coding.html"/>
+					<content type="html">&lt;p&gt;Hackathon&lt;/p&gt;</content>
+					<published>2026-01-03T00:00:00Z</published>
+				</entry>
+			</feed>`;
+
+		const [entry] = parseFeed(body);
+
+		expect(entry.link).toBe("https://lomba.example.com/coding.html");
+		expect(entry.content).toBe("<p>Hackathon</p>");
+		expect(entry.published).toBe("2026-01-03T00:00:00Z");
+	});
+});
+
+describe("Feed Scrape - toScrapedPost", () => {
+	it("uses the first content image, rewritten and absolute", () => {
+		const post = toScrapedPost(
+			{
+				title: "Lomba",
+				link: "https://lomba.example.com/lomba.html",
+				content: '<p>Info   lomba</p><img src="/s320/a.jpg"><img src="/s320/b.jpg">',
+				thumbnail: "https://img.example.com/s72-c/thumb.jpg",
+			},
+			source,
+		);
+
+		expect(post.image).toBe("https://lomba.example.com/s1600/a.jpg");
+		expect(post.description).toBe("Info lomba");
+		expect(post.source).toBe("web");
+		expect(post.username).toBe("example");
+	});
+
+	it("falls back to the feed thumbnail", () => {
+		const post = toScrapedPost(
+			{
+				title: "",
+				link: "https://lomba.example.com/lomba.html",
+				content: "<p>No image</p>",
+				thumbnail: "https://img.example.com/s72-c/thumb.jpg",
+			},
+			source,
+		);
+
+		expect(post.title).toBeNull();
+		expect(post.image).toBe("https://img.example.com/s1600/thumb.jpg");
+	});
+});
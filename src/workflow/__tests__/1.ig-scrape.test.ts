@@ -1,5 +1,98 @@
 import { describe, it, expect } from "bun:test";
-import { scrape } from "../1.ig-scrape.js";
+import type { InstagramPost } from "@aduptive/instagram-scraper";
+import { nextCursors, scrape, selectPosts, type AccountPlan } from "../1.ig-scrape.js";
+
+const NOW = Date.UTC(2026, 0, 31);
+const DAY = 24 * 60 * 60;
+
+/** Post published `daysAgo` days before NOW */
+function post(shortcode: string, daysAgo: number): InstagramPost {
+	return {
+		id: shortcode,
+		shortcode,
+		timestamp: NOW / 1000 - daysAgo * DAY,
+		display_url: `https://cdn.example.com/${shortcode}.jpg`,
+		caption: "",
+		likes: 0,
+		comments: 0,
+		is_video: false,
+		url: `https://www.instagram.com/p/${shortcode}/`,
+		media_type: "image",
+		media_items: [],
+	};
+}
+
+function plan(overrides: Partial<AccountPlan> = {}): AccountPlan {
+	return { username: "lomba", mode: "incremental", cursor: null, backfillDays: 30, ...overrides };
+}
+
+describe("IG Scrape - selectPosts", () => {
+	// Feed order: a pinned old post first, then newest to oldest
+	const posts = [
+		post("pinned", 60),
+		post("p1", 1),
+		post("p2", 2),
+		post("p3", 3),
+		post("p4", 4),
+		post("p5", 5),
+	];
+
+	it("takes the newest imageLimit posts on an account's first run", () => {
+		const selected = selectPosts(posts, plan(), NOW);
+
+		expect(selected.map((p) => p.shortcode)).toEqual(["p1", "p2", "p3", "p4"]);
+	});
+
+	it("keeps only posts newer than the cursor", () => {
+		const cursor = {
+			sourceId: "instagram:lomba",
+			cursor: "p3",
+			cursorAt: new Date((NOW / 1000 - 3 * DAY) * 1000),
+			updatedAt: new Date(NOW),
+		};
+
+		const selected = selectPosts(posts, plan({ cursor }), NOW);
+
+		expect(selected.map((p) => p.shortcode)).toEqual(["p1", "p2"]);
+	});
+
+	it("stops at the cursor shortcode when its time is unknown", () => {
+		const cursor = { sourceId: "instagram:lomba", cursor: "p2", cursorAt: null, updatedAt: new Date(NOW) };
+
+		const selected = selectPosts(posts, plan({ cursor }), NOW);
+
+		expect(selected.map((p) => p.shortcode)).toEqual(["p1"]);
+	});
+
+	it("keeps every post inside the backfill window", () => {
+		const selected = selectPosts(posts, plan({ mode: "backfill", backfillDays: 4 }), NOW);
+
+		expect(selected.map((p) => p.shortcode)).toEqual(["p1", "p2", "p3", "p4"]);
+	});
+});
+
+describe("IG Scrape - nextCursors", () => {
+	const cursor = (shortcode: string, daysAgo: number) => ({
+		sourceId: "instagram:lomba",
+		cursor: shortcode,
+		cursorAt: new Date((NOW / 1000 - daysAgo * DAY) * 1000),
+		updatedAt: new Date(NOW),
+	});
+
+	it("proposes the newest fetched post per account", () => {
+		const cursors = nextCursors([plan(), plan({ username: "quiet" })], new Map([["lomba", post("p1", 1)]]));
+
+		expect(cursors).toEqual([
+			{ sourceId: "instagram:lomba", cursor: "p1", cursorAt: new Date((NOW / 1000 - DAY) * 1000) },
+		]);
+	});
+
+	it("never moves a cursor backwards", () => {
+		const cursors = nextCursors([plan({ cursor: cursor("p1", 1) })], new Map([["lomba", post("p2", 2)]]));
+
+		expect(cursors).toEqual([]);
+	});
+});
 
 describe("IG Scrape - Real", () => {
 	it("scrape 1 account and show output", async () => {
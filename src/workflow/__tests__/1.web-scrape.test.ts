@@ -1,5 +1,17 @@
-import { describe, it, expect } from "bun:test";
-import { scrape } from "../1.web-scrape-infolombait.js";
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { load } from "cheerio";
+import { createLogger } from "../../utils/logger.js";
+import { scrapeFeedSource } from "../1.feed-scrape.js";
+import { crawlListing, getNextPageUrl, parseListPage } from "../1.web-scrape.js";
+import { config, type FeedScrapingSource, type HtmlScrapingSource } from "../lib/config.js";
+import { canonicalizeUrl } from "../lib/url.js";
+import type { CrawlState } from "../lib/web-utils.js";
+import { fakeSql, type HelperArgs } from "./fake-sql.js";
+
+const infolombait = config.webScraping.sources.find(
+	(s): s is FeedScrapingSource => s.name === "infolombait" && s.kind === "feed",
+)!;
+const scrape = () => scrapeFeedSource(infolombait);
 
 describe("Web Scrape - Infolombait", () => {
 	it("should successfully scrape infolombait.com", async () => {
@@ -47,3 +59,184 @@ describe("Web Scrape - Infolombait", () => {
 		});
 	});
 });
+
+describe("Web Scrape - parseListPage", () => {
+	const source: HtmlScrapingSource = {
+		kind: "html",
+		name: "example",
+		url: "https://lomba.example.com/",
+		imageLimit: 5,
+		enabled: true,
+		schedule: "0 */6 * * *",
+		selectors: {
+			item: [".post", ".featured"],
+			title: "h2 a",
+			image: ".thumb",
+			imageAttr: "background-image",
+			description: [".body"],
+		},
+		imageRewrite: { pattern: "/s\\d+(-c)?/", replacement: "/s1600/" },
+	};
+
+	const html = `
+		<div class="featured"><h2><a href="/featured">Featured</a></h2></div>
+		<div class="post">
+			<h2><a href="/lomba-1">Lomba 1</a></h2>
+			<a class="thumb" style="background-image: url('https://img.example.com/s72-c/a.jpg')"></a>
+		</div>
+		<div class="post"><h2><a href="https://lomba.example.com/lomba-2">Lomba 2</a></h2></div>
+		<div class="post"><h2><a href="/lomba-1">Lomba 1 again</a></h2></div>
+	`;
+
+	it("applies item selectors in priority order and dedupes links", () => {
+		const posts = parseListPage(load(html), source);
+
+		expect(posts.map((p) => p.link)).toEqual([
+			"https://lomba.example.com/lomba-1",
+			"https://lomba.example.com/lomba-2",
+			"https://lomba.example.com/featured",
+		]);
+		expect(posts[0].title).toBe("Lomba 1");
+	});
+
+	it("reads background-image URLs and applies the image rewrite", () => {
+		const [first, second] = parseListPage(load(html), source);
+
+		expect(first.image).toBe("https://img.example.com/s1600/a.jpg");
+		expect(second.image).toBe("");
+	});
+
+	it("stops at the limit", () => {
+		expect(parseListPage(load(html), source, 1)).toHaveLength(1);
+	});
+
+	it("skips untitled items unless the source allows them", () => {
+		const untitled = `
+			<div class="post"><h2><a href="/lomba-1"> </a></h2></div>
+			<div class="post"><h2><a href="/lomba-2">Lomba 2</a></h2></div>
+		`;
+		const lenient = { ...source, selectors: { ...source.selectors, requireTitle: false } };
+
+		expect(parseListPage(load(untitled), source).map((p) => p.link)).toEqual([
+			"https://lomba.example.com/lomba-2",
+		]);
+		expect(parseListPage(load(untitled), lenient)).toHaveLength(2);
+	});
+});
+
+describe("Web Scrape - getNextPageUrl", () => {
+	const base: HtmlScrapingSource = {
+		kind: "html",
+		name: "example",
+		url: "https://lomba.example.com/",
+		imageLimit: 5,
+		enabled: true,
+		schedule: "0 */6 * * *",
+		selectors: { item: [".post"], title: "a", image: "img", description: [] },
+	};
+
+	it("follows the next link relative to the current page", () => {
+		const $ = load(`<a class="older" href="/search?updated-max=2026">Older</a>`);
+		const source = { ...base, pagination: { next: "a.older", maxPages: 3 } };
+
+		expect(getNextPageUrl($, source, "https://lomba.example.com/", 1)).toBe(
+			"https://lomba.example.com/search?updated-max=2026",
+		);
+	});
+
+	it("falls back to the page parameter", () => {
+		const source = { ...base, pagination: { next: "a.older", pageParam: "page", maxPages: 3 } };
+
+		expect(getNextPageUrl(load("<p></p>"), source, "https://lomba.example.com/", 1)).toBe(
+			"https://lomba.example.com/?page=2",
+		);
+	});
+
+	it("returns null without pagination", () => {
+		expect(getNextPageUrl(load("<p></p>"), base, base.url, 1)).toBeNull();
+	});
+});
+
+describe("Web Scrape - crawlListing", () => {
+	// Fake listing: a featured block repeating an older post above each page
+	const pages: Record<string, string[]> = {
+		"1": ["new-1", "new-2"],
+		"2": ["new-3", "old-1"],
+		"3": ["old-2"],
+	};
+	let server: ReturnType<typeof Bun.serve>;
+	let source: HtmlScrapingSource;
+	const link = (slug: string) => `${source.url}${slug}`;
+	const logger = createLogger({ workflowStep: "test" });
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			fetch(req) {
+				const page = new URL(req.url).searchParams.get("page") ?? "1";
+				const posts = (pages[page] ?? [])
+					.map((slug) => `<div class="post"><h2><a href="/${slug}">${slug}</a></h2></div>`)
+					.join("");
+				return new Response(`<div class="featured"><h2><a href="/old-1">Featured</a></h2></div>${posts}`, {
+					headers: { "Content-Type": "text/html" },
+				});
+			},
+		});
+		source = {
+			kind: "html",
+			name: "example",
+			url: `http://localhost:${server.port}/`,
+			imageLimit: 2,
+			enabled: true,
+			schedule: "0 */6 * * *",
+			selectors: { item: [".post", ".featured"], title: "h2 a", image: "img", description: [] },
+			pagination: { pageParam: "page", maxPages: 3 },
+		};
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	/** Answers findExistingUrlsources with the stored links */
+	function storedLinks(stored: string[]): CrawlState["sql"] {
+		const urlsources = new Set(stored.map((slug) => canonicalizeUrl(link(slug))));
+		const sql = fakeSql((_text, [urls]) =>
+			((urls as HelperArgs).helper as string[])
+				.filter((url) => urlsources.has(url))
+				.map((urlsource) => ({ urlsource })),
+		);
+		return sql as CrawlState["sql"];
+	}
+
+	it("stops at a stored post of the listing, not of the featured block", async () => {
+		const crawl = await crawlListing(source, { sql: storedLinks(["old-1"]), cursor: link("old-9") }, logger);
+
+		expect(crawl.posts.map((p) => p.link)).toEqual([link("new-1"), link("new-2"), link("new-3")]);
+		expect(crawl.pages).toBe(2);
+		expect(crawl.newest).toBe(link("new-1"));
+	});
+
+	it("stops at the cursor", async () => {
+		const crawl = await crawlListing(source, { sql: storedLinks([]), cursor: link("new-2") }, logger);
+
+		expect(crawl.posts.map((p) => p.link)).toEqual([link("new-1")]);
+		expect(crawl.pages).toBe(1);
+	});
+
+	it("reads at most pagination.maxPages pages", async () => {
+		const limited = { ...source, pagination: { pageParam: "page", maxPages: 2 } };
+
+		const crawl = await crawlListing(limited, { sql: storedLinks([]), cursor: link("old-9") }, logger);
+
+		expect(crawl.pages).toBe(2);
+		expect(crawl.posts.map((p) => p.link)).toEqual([link("new-1"), link("new-2"), link("old-1"), link("new-3")]);
+	});
+
+	it("reads only the front page, capped at imageLimit, without a database", async () => {
+		const crawl = await crawlListing(source, { sql: null, cursor: null }, logger);
+
+		expect(crawl.pages).toBe(1);
+		expect(crawl.posts.map((p) => p.link)).toEqual([link("new-1"), link("new-2")]);
+	});
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { posterObjectKey, uploadToR2 } from "../2.upload-to-r2.js";
+import type { Env } from "../lib/types.js";
+
+/** In-memory stand-in for the R2 binding, counting puts */
+function fakeBucket() {
+	const objects = new Map<string, { body: ArrayBuffer; options?: R2PutOptions }>();
+	let puts = 0;
+	const bucket = {
+		async head(key: string) {
+			return objects.has(key) ? ({ key } as R2Object) : null;
+		},
+		async put(key: string, body: ArrayBuffer, options?: R2PutOptions) {
+			puts++;
+			objects.set(key, { body, options });
+			return { key } as R2Object;
+		},
+	};
+	return { bucket: bucket as unknown as R2Bucket, objects, puts: () => puts };
+}
+
+/** Images binding stand-in: "renders" by prefixing the requested format, fails for `failWidth` */
+function fakeImages(failWidth?: number) {
+	const calls: { width?: number; format: string }[] = [];
+	const images = {
+		input(stream: ReadableStream<Uint8Array>) {
+			let width: number | undefined;
+			const transformer = {
+				transform(transform: ImageTransform) {
+					width = transform.width;
+					return transformer;
+				},
+				async output(options: ImageOutputOptions) {
+					calls.push({ width, format: options.format });
+					if (width === failWidth) throw new Error("IMAGES_TRANSFORM_ERROR 9412");
+					const body = new Blob([`${options.format}:`, await new Response(stream).arrayBuffer()]);
+					return {
+						response: () => new Response(body),
+						contentType: () => options.format,
+					};
+				},
+			};
+			return transformer;
+		},
+	};
+	return { images: images as unknown as ImagesBinding, calls };
+}
+
+// Fake Instagram CDN: /a.jpg and /a-copy.jpg serve the same bytes
+let server: ReturnType<typeof Bun.serve>;
+let base: string;
+const IMAGE_A = new Uint8Array([0xff, 0xd8, 0xff, 1, 2, 3]);
+const IMAGE_B = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 4, 5, 6]);
+
+beforeAll(() => {
+	server = Bun.serve({
+		port: 0,
+		fetch(req) {
+			const { pathname } = new URL(req.url);
+			if (pathname === "/a.jpg" || pathname === "/a-copy.jpg") {
+				return new Response(IMAGE_A, { headers: { "Content-Type": "image/jpeg" } });
+			}
+			if (pathname === "/b.png") {
+				return new Response(IMAGE_B, { headers: { "Content-Type": "image/png" } });
+			}
+			if (pathname === "/mislabelled.jpg") {
+				return new Response(IMAGE_B, { headers: { "Content-Type": "image/jpeg" } });
+			}
+			if (pathname === "/blocked.jpg") {
+				return new Response("<html>Login required</html>", { headers: { "Content-Type": "image/jpeg" } });
+			}
+			return new Response("Not Found", { status: 404 });
+		},
+	});
+	base = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+	server.stop(true);
+});
+
+function env(bucket: R2Bucket, images?: ImagesBinding): Env {
+	return { MY_BUCKET: bucket, IMAGES: images, R2_PUBLIC_URL: "https://cdn.example.com" } as Env;
+}
+
+describe("R2 Upload - posterObjectKey", () => {
+	it("shards keys by hash prefix and keeps the image type", () => {
+		const hash = "abcdef0123456789";
+
+		expect(posterObjectKey(hash, "image/jpeg")).toBe("posters/ab/cd/abcdef0123456789.jpg");
+		expect(posterObjectKey(hash, "image/png; charset=binary")).toBe(
+			"posters/ab/cd/abcdef0123456789.png",
+		);
+		expect(posterObjectKey(hash, null)).toBe("posters/ab/cd/abcdef0123456789.jpg");
+	});
+});
+
+describe("R2 Upload - uploadToR2", () => {
+	it("stores each distinct image once, with source metadata", async () => {
+		const { bucket, objects, puts } = fakeBucket();
+		const posts = [
+			{ image: `${base}/a.jpg`, username: "lomba.id", link: "https://www.instagram.com/p/A/" },
+			{ image: `${base}/a-copy.jpg`, username: "infolomba", link: "https://www.instagram.com/p/B/" },
+			{ image: `${base}/b.png`, username: "lomba.id", link: "https://www.instagram.com/p/C/" },
+		];
+
+		const uploaded = await uploadToR2(posts, env(bucket), { maxAttempts: 1 }, { batchDelayMs: 0 });
+
+		expect(puts()).toBe(2);
+		expect(uploaded[0].image).toBe(uploaded[1].image);
+		expect(uploaded[0].image).toMatch(/^https:\/\/cdn\.example\.com\/posters\/[0-9a-f]{2}\/[0-9a-f]{2}\/[0-9a-f]{64}\.jpg$/);
+		expect(uploaded[2].image).toEndWith(".png");
+
+		const first = objects.get(uploaded[0].image.replace("https://cdn.example.com/", ""))!;
+		expect(first.options?.customMetadata).toMatchObject({
+			sourceUrl: `${base}/a.jpg`,
+			sourcePost: "https://www.instagram.com/p/A/",
+			sourceAccount: "lomba.id",
+		});
+		expect(first.options?.customMetadata?.firstSeenAt).toBeDefined();
+	});
+
+	it("does not upload again when the workflow re-runs", async () => {
+		const { bucket, puts } = fakeBucket();
+		const posts = [{ image: `${base}/a.jpg`, username: "lomba.id" }];
+
+		const firstRun = await uploadToR2(posts, env(bucket), { maxAttempts: 1 });
+		const secondRun = await uploadToR2(posts, env(bucket), { maxAttempts: 1 });
+
+		expect(puts()).toBe(1);
+		expect(secondRun[0].image).toBe(firstRun[0].image);
+	});
+
+	it("fails instead of keeping Instagram URLs when no store is available", async () => {
+		const posts = [{ image: `${base}/a.jpg`, username: "lomba.id" }];
+
+		await expect(uploadToR2(posts, {} as Env, { maxAttempts: 1 })).rejects.toThrow("MY_BUCKET");
+	});
+
+	it("trusts the bytes over the served Content-Type", async () => {
+		const { bucket, objects } = fakeBucket();
+		const posts = [
+			{ image: `${base}/mislabelled.jpg`, username: "lomba.id" },
+			{ image: `${base}/blocked.jpg`, username: "lomba.id" },
+		];
+
+		const uploaded = await uploadToR2(posts, env(bucket), { maxAttempts: 1 });
+
+		expect(uploaded[0].image).toEndWith(".png");
+		const stored = objects.get(uploaded[0].image.replace("https://cdn.example.com/", ""))!;
+		expect(stored.options?.httpMetadata).toEqual({ contentType: "image/png" });
+		// An HTML page is never stored as a poster
+		expect(uploaded[1].image).toBe(`${base}/blocked.jpg`);
+		expect(objects.size).toBe(1);
+		// ...and the post waits for the repair job
+		expect(uploaded[0].posterPending).toBe(false);
+		expect(uploaded[1].posterPending).toBe(true);
+	});
+
+	it("does not flag posts without an image as pending", async () => {
+		const { bucket, puts } = fakeBucket();
+		const posts = [{ image: "", images: [], username: "example" }];
+
+		const [uploaded] = await uploadToR2(posts, env(bucket), { maxAttempts: 1 });
+
+		expect(puts()).toBe(0);
+		expect(uploaded).toMatchObject({ image: "", images: [], posterPending: false });
+	});
+
+	it("stores JPEG, WebP and thumbnail variants with the Images binding", async () => {
+		const { bucket, objects, puts } = fakeBucket();
+		const { images, calls } = fakeImages();
+		const posts = [
+			{ image: `${base}/b.png`, images: [`${base}/b.png`, `${base}/a.jpg`], username: "lomba.id" },
+		];
+
+		const [uploaded] = await uploadToR2(posts, env(bucket, images), { maxAttempts: 1 });
+
+		const keys = uploaded.posterKeys!;
+		expect(keys.jpeg).toMatch(/^posters\/[0-9a-f]{2}\/[0-9a-f]{2}\/[0-9a-f]{64}-w1080\.jpg$/);
+		expect(keys.webp).toEndWith("-w1080.webp");
+		expect(keys.thumb).toEndWith("-w320.webp");
+		expect(uploaded.image).toBe(`https://cdn.example.com/${keys.jpeg}`);
+		expect(objects.get(keys.thumb)?.options?.httpMetadata).toEqual({ contentType: "image/webp" });
+
+		// Other slides only get the WhatsApp JPEG
+		expect(uploaded.images![1]).toEndWith("-w1080.jpg");
+		expect(puts()).toBe(4);
+		expect(calls).toContainEqual({ width: 320, format: "image/webp" });
+
+		await uploadToR2(posts, env(bucket, images), { maxAttempts: 1 });
+		expect(puts()).toBe(4);
+		expect(calls).toHaveLength(4);
+	});
+
+	it("stores only the original when a variant fails to render", async () => {
+		const { bucket, objects } = fakeBucket();
+		const { images, calls } = fakeImages(320);
+		const posts = [{ image: `${base}/b.png`, username: "lomba.id" }];
+
+		const [uploaded] = await uploadToR2(posts, env(bucket, images), { maxAttempts: 1 });
+
+		// jpeg and webp rendered before the thumbnail failed, none was written
+		expect(calls).toHaveLength(3);
+		expect([...objects.keys()]).toEqual([uploaded.posterKeys!.jpeg]);
+		expect(uploaded.posterKeys!.jpeg).toEndWith(".png");
+		expect(uploaded.posterKeys!.thumb).toBe(uploaded.posterKeys!.jpeg);
+	});
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect } from "bun:test";
+import type { CompetitionValues } from "../../schema.js";
+import { storeBatch, type InsertBatch, type PostData } from "../3.insertdb.js";
+import type { SourceMention } from "../lib/source-mentions.js";
+import type { SkippedCounts } from "../lib/types.js";
+import { fakeSql, type HelperArgs } from "./fake-sql.js";
+
+type StoredRow = CompetitionValues & { id: number };
+
+/**
+ * In-memory stand-in for the statements storeBatch runs. `taken` urlsources
+ * behave as stored by a concurrent run (ON CONFLICT DO NOTHING drops them);
+ * a statement matching `failOn` throws. A failed transaction restores the
+ * state it started with.
+ */
+function fakeDb(options: { taken?: string[]; failOn?: RegExp } = {}) {
+	const state = {
+		competitions: [] as StoredRow[],
+		mentions: [] as SourceMention[],
+		cursors: [] as string[],
+	};
+	let nextId = 100;
+
+	function insertRows(rows: CompetitionValues[], onConflictDoNothing: boolean): StoredRow[] {
+		const stored: StoredRow[] = [];
+		for (const row of rows) {
+			const urlsource = row.urlsource as string;
+			const conflicts =
+				urlsource !== "" &&
+				row.duplicateOf === null &&
+				(options.taken?.includes(urlsource) ||
+					state.competitions.some((r) => r.urlsource === urlsource && r.duplicateOf === null));
+			if (conflicts) {
+				if (onConflictDoNothing) continue;
+				throw new Error(`duplicate urlsource ${urlsource}`);
+			}
+			stored.push({ ...row, id: nextId++ });
+		}
+		state.competitions.push(...stored);
+		return stored;
+	}
+
+	function run(text: string, values: unknown[]): unknown[] {
+		if (options.failOn?.test(text)) throw new Error(`statement failed: ${text.trim().split("\n")[0]}`);
+
+		const helper = values[0] as HelperArgs | undefined;
+		if (text.includes("INSERT INTO competitions")) {
+			const rows = [helper!.helper].flat() as CompetitionValues[];
+			return insertRows(rows, text.includes("ON CONFLICT DO NOTHING"));
+		}
+		if (text.includes("INSERT INTO source_mentions")) {
+			state.mentions.push(...(helper!.helper as SourceMention[]));
+			return [];
+		}
+		if (text.includes("INSERT INTO source_state")) {
+			state.cursors.push(`${values[0]}=${values[1]}`);
+			return [];
+		}
+		throw new Error(`unexpected statement: ${text}`);
+	}
+
+	const sql = fakeSql(run, () => {
+		const saved = structuredClone(state);
+		return () => Object.assign(state, saved);
+	});
+
+	return { sql, state };
+}
+
+function post(link: string | null, overrides: Partial<PostData> = {}): PostData {
+	return {
+		title: link ?? "untitled",
+		description: `Caption of ${link}`,
+		image: "https://cdn.example.com/poster.jpg",
+		link,
+		source: "instagram",
+		username: "lomba.id",
+		...overrides,
+	};
+}
+
+function skippedCounts(): SkippedCounts {
+	return {
+		skippedUrl: 0,
+		skippedDescription: 0,
+		skippedDuplication: 0,
+		skippedCaption: 0,
+		skippedPoster: 0,
+		linkedPoster: 0,
+	};
+}
+
+/** Batch with one original per post and an "original" mention for each */
+function batch(originals: PostData[], extra: Partial<InsertBatch> = {}): InsertBatch {
+	return {
+		originals,
+		linked: extra.linked ?? [],
+		mentions: [
+			...originals.map((p) => ({ post: p, canonical: p, matchedBy: "original" as const, score: null })),
+			...(extra.mentions ?? []),
+		],
+	};
+}
+
+const link = { posterDuplicateAction: "link" as const };
+
+describe("DB Insert - storeBatch", () => {
+	it("inserts originals first and points batch duplicates at them", async () => {
+		const { sql, state } = fakeDb();
+		const original = post("https://www.instagram.com/p/A/");
+		const repost = post("https://www.instagram.com/p/B/", { username: "infolomba" });
+		const skipped = skippedCounts();
+
+		const ids = await storeBatch(
+			sql,
+			batch([original], {
+				linked: [{ post: repost, canonical: original }],
+				mentions: [{ post: repost, canonical: original, matchedBy: "poster", score: 3 }],
+			}),
+			skipped,
+			link,
+		);
+
+		const [stored, duplicate] = state.competitions;
+		expect(ids).toEqual([stored.id]);
+		expect(stored).toMatchObject({ urlsource: original.link, duplicateOf: null, status: "draft" });
+		expect(duplicate).toMatchObject({ urlsource: repost.link, duplicateOf: stored.id, status: "duplicate" });
+		expect(skipped.linkedPoster).toBe(1);
+		expect(state.mentions.map((m) => [m.urlsource, m.competitionId, m.matchedBy])).toEqual([
+			[original.link!, stored.id, "original"],
+			[repost.link!, stored.id, "poster"],
+		]);
+	});
+
+	it("counts originals lost to a concurrent insert and drops what depends on them", async () => {
+		const lost = post("https://www.instagram.com/p/LOST/");
+		const kept = post("https://www.instagram.com/p/KEPT/");
+		const repostOfLost = post("https://www.instagram.com/p/R/");
+		const { sql, state } = fakeDb({ taken: [lost.link!] });
+		const skipped = skippedCounts();
+
+		const ids = await storeBatch(
+			sql,
+			batch([lost, kept], {
+				linked: [{ post: repostOfLost, canonical: lost }],
+				mentions: [{ post: repostOfLost, canonical: lost, matchedBy: "poster", score: 2 }],
+			}),
+			skipped,
+			link,
+		);
+
+		expect(state.competitions.map((r) => r.urlsource)).toEqual([kept.link!]);
+		expect(ids).toEqual([state.competitions[0].id]);
+		expect(skipped.skippedUrl).toBe(1);
+		expect(skipped.linkedPoster).toBe(0);
+		expect(state.mentions.map((m) => m.urlsource)).toEqual([kept.link!]);
+	});
+
+	it("links reposts of stored competitions without inserting in skip mode", async () => {
+		const { sql, state } = fakeDb();
+		const repost = post("https://www.instagram.com/p/B/");
+		const skipped = skippedCounts();
+
+		const ids = await storeBatch(
+			sql,
+			batch([], {
+				linked: [{ post: repost, canonical: 7 }],
+				mentions: [{ post: repost, canonical: 7, matchedBy: "poster", score: 1 }],
+			}),
+			skipped,
+			{ posterDuplicateAction: "skip" },
+		);
+
+		expect(ids).toEqual([]);
+		expect(state.competitions).toEqual([]);
+		expect(state.mentions.map((m) => [m.urlsource, m.competitionId])).toEqual([[repost.link!, 7]]);
+	});
+
+	it("inserts posts without a link", async () => {
+		const { sql, state } = fakeDb();
+		const linkless = [post(null, { description: "Lomba A" }), post(null, { description: "Lomba B" })];
+		const withLink = post("https://lomba.example.com/c");
+
+		const ids = await storeBatch(sql, batch([...linkless, withLink]), skippedCounts(), link);
+
+		expect(ids).toHaveLength(3);
+		expect(state.competitions.map((r) => r.description).sort()).toEqual([
+			"Caption of https://lomba.example.com/c",
+			"Lomba A",
+			"Lomba B",
+		]);
+		// Mentions need a urlsource, so only the linked post has one
+		expect(state.mentions.map((m) => m.urlsource)).toEqual([withLink.link!]);
+	});
+
+	it("saves the scrape cursors with the posts", async () => {
+		const { sql, state } = fakeDb();
+
+		await storeBatch(sql, batch([post("https://lomba.example.com/a")]), skippedCounts(), {
+			...link,
+			cursors: [{ sourceId: "example", cursor: "https://lomba.example.com/a", cursorAt: null }],
+		});
+
+		expect(state.cursors).toEqual(["example=https://lomba.example.com/a"]);
+	});
+
+	it("stores nothing when a statement fails", async () => {
+		const { sql, state } = fakeDb({ failOn: /INSERT INTO source_mentions/ });
+		const original = post("https://www.instagram.com/p/A/");
+		const repost = post("https://www.instagram.com/p/B/");
+
+		const run = storeBatch(
+			sql,
+			batch([original, post(null)], { linked: [{ post: repost, canonical: original }] }),
+			skippedCounts(),
+			{ ...link, cursors: [{ sourceId: "instagram:lomba.id", cursor: "A", cursorAt: null }] },
+		);
+
+		await expect(run).rejects.toThrow("statement failed");
+		expect(state.competitions).toEqual([]);
+		expect(state.mentions).toEqual([]);
+		expect(state.cursors).toEqual([]);
+	});
+});
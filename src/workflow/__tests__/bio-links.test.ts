@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { fetchBioLinks, mentionsBioLink, parseLinkPage, pickBioLink } from "../lib/bio-links.js";
+
+const LINKTREE_HTML = `
+<html><body>
+	<a href="https://linktr.ee/">Linktree</a>
+	<a href="https://www.instagram.com/lomba.id">Instagram</a>
+	<a data-testid="LinkButton" href="https://forms.gle/lkti2026?utm_source=linktree">
+		<p>Pendaftaran LKTI Nasional</p>
+	</a>
+	<a data-testid="LinkButton" href="https://bit.ly/GuidebookEsai"> Guidebook Lomba Esai </a>
+	<a data-testid="LinkButton" href="https://forms.gle/lkti2026">Daftar LKTI (mirror)</a>
+	<a href="mailto:panitia@lomba.id">Email</a>
+</body></html>`;
+
+describe("Bio links - mentionsBioLink", () => {
+	it("detects link-in-bio captions", () => {
+		expect(mentionsBioLink("Pendaftaran: link di bio ya!")).toBe(true);
+		expect(mentionsBioLink("Link in bio")).toBe(true);
+		expect(mentionsBioLink("Info lengkap cek bio")).toBe(true);
+		expect(mentionsBioLink("Daftar di bit.ly/lkti2026")).toBe(false);
+		expect(mentionsBioLink(null)).toBe(false);
+	});
+});
+
+describe("Bio links - parseLinkPage", () => {
+	it("keeps outbound links with their labels, once each", () => {
+		expect(parseLinkPage(LINKTREE_HTML, "https://linktr.ee/lomba.id")).toEqual([
+			{ title: "Pendaftaran LKTI Nasional", url: "https://forms.gle/lkti2026" },
+			{ title: "Guidebook Lomba Esai", url: "https://bit.ly/GuidebookEsai" },
+		]);
+	});
+});
+
+describe("Bio links - pickBioLink", () => {
+	const links = [
+		{ title: "Pendaftaran LKTI Nasional", url: "https://forms.gle/lkti2026" },
+		{ title: "Guidebook Lomba Esai", url: "https://bit.ly/GuidebookEsai" },
+	];
+
+	it("picks the link whose label matches the title", () => {
+		expect(pickBioLink("Lomba Esai Nasional Pemuda 2026", links)?.url).toBe(
+			"https://bit.ly/GuidebookEsai",
+		);
+		expect(pickBioLink("LKTI Nasional 2026", links)?.url).toBe("https://forms.gle/lkti2026");
+	});
+
+	it("returns null when no label matches", () => {
+		expect(pickBioLink("Lomba Fotografi Pelajar", links)).toBeNull();
+	});
+
+	it("requires a match when the bio has a single link", () => {
+		const single = [{ title: "Pendaftaran LKTI Nasional", url: "https://forms.gle/lkti2026" }];
+		const bare = [{ title: "", url: "https://forms.gle/abc" }];
+
+		expect(pickBioLink("Lomba Fotografi Pelajar", single)).toBeNull();
+		expect(pickBioLink("Lomba Fotografi Pelajar", bare)).toBeNull();
+		expect(pickBioLink("LKTI Nasional 2026", single)).toEqual(single[0]);
+	});
+
+	it("matches an unlabeled link on its slug", () => {
+		const bare = [{ title: "", url: "https://bit.ly/Fotografi-Pelajar" }];
+		expect(pickBioLink("Lomba Fotografi Pelajar", bare)).toEqual(bare[0]);
+	});
+});
+
+// Fake Instagram profile API and the pages its bio links lead to
+let server: ReturnType<typeof Bun.serve>;
+let base: string;
+
+beforeAll(() => {
+	server = Bun.serve({
+		port: 0,
+		fetch(req) {
+			const url = new URL(req.url);
+			switch (url.pathname) {
+				case "/web_profile_info/": {
+					if (req.headers.get("X-IG-App-ID") === null) return new Response("Forbidden", { status: 403 });
+					const profiles: Record<string, unknown> = {
+						"lomba.id": {
+							bio_links: [
+								{ title: "Daftar LKTI", url: `${base}/s/lkti` },
+								{ title: "Guidebook", url: `${base}/guidebook` },
+								{ title: "no url" },
+							],
+							external_url: `${base}/ignored`,
+						},
+						"bare.id": { bio_links: [], external_url: `${base}/form` },
+					};
+					const user = profiles[url.searchParams.get("username") ?? ""];
+					return user ? Response.json({ data: { user } }) : new Response("Not Found", { status: 404 });
+				}
+				case "/s/lkti":
+					return Response.redirect(`${base}/form?utm_source=ig`, 301);
+				case "/form":
+				case "/guidebook":
+					return new Response("<h1>Lomba</h1>");
+				default:
+					return new Response("Not Found", { status: 404 });
+			}
+		},
+	});
+	base = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+	server.stop(true);
+});
+
+describe("Bio links - fetchBioLinks", () => {
+	it("lists the profile's bio links, following short links to their destination", async () => {
+		const links = await fetchBioLinks("lomba.id", 1000, `${base}/web_profile_info/`);
+
+		expect(links).toEqual([
+			{ title: "Daftar LKTI", url: `${base}/form` },
+			{ title: "Guidebook", url: `${base}/guidebook` },
+		]);
+	});
+
+	it("falls back to the external url when no bio links are listed", async () => {
+		expect(await fetchBioLinks("bare.id", 1000, `${base}/web_profile_info/`)).toEqual([
+			{ title: "", url: `${base}/form` },
+		]);
+	});
+
+	it("throws when the profile cannot be fetched", async () => {
+		await expect(fetchBioLinks("nobody", 1000, `${base}/web_profile_info/`)).rejects.toThrow("HTTP 404");
+	});
+});
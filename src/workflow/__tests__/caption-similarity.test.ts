@@ -0,0 +1,68 @@
+import { describe, it, expect } from "bun:test";
+import {
+	captionSimilarity,
+	captionTrigrams,
+	findSimilarCaption,
+	normalizeCaption,
+} from "../lib/caption-similarity.js";
+
+const ORIGINAL = `🏆 LOMBA KARYA TULIS ILMIAH NASIONAL 2026 🏆
+Tema: "Inovasi Pemuda untuk Indonesia Emas"
+Terbuka untuk mahasiswa D3/S1 seluruh Indonesia.
+Deadline pendaftaran 30 Mei 2026, total hadiah jutaan rupiah!
+Info: @lkti.nasional
+#lomba #lkti #mahasiswa`;
+
+const REPOST = `LOMBA KARYA TULIS ILMIAH NASIONAL 2026 ✨✨
+Tema: "Inovasi Pemuda untuk Indonesia Emas"
+Terbuka untuk mahasiswa D3/S1 seluruh Indonesia.
+Deadline pendaftaran 30 Mei 2026, total hadiah jutaan rupiah!!
+Repost from @lkti.nasional via @infolomba.id
+#infolomba #lombamahasiswa #kti #lombanasional`;
+
+const OTHER = `📸 LOMBA FOTOGRAFI PELAJAR 2026
+Kategori landscape dan human interest, terbuka untuk siswa SMA/SMK.
+Pengumpulan karya paling lambat 12 Juni 2026 via google form di bio.
+#lombafoto #pelajar`;
+
+describe("Caption similarity - normalizeCaption", () => {
+	it("strips hashtags, mentions, emojis and punctuation", () => {
+		expect(normalizeCaption("🏆 LOMBA Esai! 👩🏽‍💻 by @lomba.id #lomba #esai2026")).toBe("lomba esai by");
+	});
+
+	it("folds unicode bold letters to plain text", () => {
+		expect(normalizeCaption("𝐋𝐎𝐌𝐁𝐀 𝐄𝐒𝐀𝐈")).toBe("lomba esai");
+	});
+});
+
+describe("Caption similarity - captionSimilarity", () => {
+	it("scores a repost with different hashtags and mentions as near-identical", () => {
+		const similarity = captionSimilarity(captionTrigrams(ORIGINAL), captionTrigrams(REPOST));
+		expect(similarity).toBeGreaterThan(0.8);
+	});
+
+	it("scores unrelated lomba captions low", () => {
+		const similarity = captionSimilarity(captionTrigrams(ORIGINAL), captionTrigrams(OTHER));
+		expect(similarity).toBeLessThan(0.3);
+	});
+});
+
+describe("Caption similarity - findSimilarCaption", () => {
+	const candidates = [
+		{ id: 1, caption: captionTrigrams(OTHER) },
+		{ id: 2, caption: captionTrigrams(ORIGINAL) },
+	];
+
+	it("returns the matching candidate", () => {
+		const match = findSimilarCaption(captionTrigrams(REPOST), candidates, 0.8, 80);
+		expect(match?.id).toBe(2);
+	});
+
+	it("ignores captions shorter than the minimum length", () => {
+		const short = captionTrigrams("Info lomba, link di bio #lomba");
+		const same = [{ id: 3, caption: captionTrigrams("Info lomba, link di bio #infolomba") }];
+
+		expect(findSimilarCaption(short, same, 0.8, 80)).toBeNull();
+		expect(findSimilarCaption(short, same, 0.8, 0)?.id).toBe(3);
+	});
+});
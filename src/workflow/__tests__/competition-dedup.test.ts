@@ -0,0 +1,91 @@
+import { describe, it, expect } from "bun:test";
+import {
+	isSameCompetition,
+	mergeCompetitionFields,
+	normalizeTitle,
+	pickCanonical,
+	type DedupCandidate,
+} from "../lib/competition-dedup.js";
+
+function competition(overrides: Partial<DedupCandidate>): DedupCandidate {
+	return {
+		id: 1,
+		status: "draft",
+		title: "Lomba Esai Nasional 2026",
+		organizer: ["BEM Universitas Indonesia"],
+		endDate: new Date("2026-05-30T00:00:00Z"),
+		...overrides,
+	};
+}
+
+describe("Competition dedup - normalizeTitle", () => {
+	it("ignores case, punctuation and generic lomba words", () => {
+		expect(normalizeTitle("LOMBA ESAI NASIONAL 2026!")).toBe("esai nasional 2026");
+		expect(normalizeTitle("Esai Nasional - 2026")).toBe("esai nasional 2026");
+	});
+});
+
+describe("Competition dedup - isSameCompetition", () => {
+	it("matches on title, deadline and a shared organizer", () => {
+		const a = competition({ id: 1 });
+		const b = competition({
+			id: 2,
+			title: "ESAI NASIONAL 2026",
+			organizer: ["bem universitas indonesia", "Kemenpora"],
+			endDate: "2026-05-30",
+		});
+
+		expect(isSameCompetition(a, b)).toBe(true);
+	});
+
+	it("does not match a different deadline or organizer", () => {
+		const a = competition({ id: 1 });
+
+		expect(isSameCompetition(a, competition({ id: 2, endDate: "2026-06-30" }))).toBe(false);
+		expect(isSameCompetition(a, competition({ id: 2, organizer: ["BEM ITB"] }))).toBe(false);
+		expect(isSameCompetition(a, competition({ id: 2, organizer: null }))).toBe(false);
+	});
+});
+
+describe("Competition dedup - pickCanonical", () => {
+	it("keeps the row sent to WhatsApp, then the published one, otherwise the older one", () => {
+		const older = competition({ id: 1 });
+		const published = competition({ id: 2, status: "published" });
+		const sent = competition({ id: 3, whatsappChannel: true });
+
+		expect(pickCanonical(sent, published)[0].id).toBe(3);
+		expect(pickCanonical(published, older)[0].id).toBe(2);
+		expect(pickCanonical(competition({ id: 5 }), older)[0].id).toBe(1);
+	});
+});
+
+describe("Competition dedup - mergeCompetitionFields", () => {
+	it("fills missing fields, combines arrays and keeps the longer text", () => {
+		const canonical = competition({
+			url: null,
+			categories: ["Esai"],
+			prizePool: "Rp5jt",
+			format: "Online",
+		});
+		const duplicate = competition({
+			id: 2,
+			url: "https://bit.ly/esai-ui",
+			categories: ["Esai", "Sosial"],
+			prizePool: "Total Rp5.000.000 + sertifikat",
+			format: "Offline",
+		});
+
+		expect(mergeCompetitionFields(canonical, duplicate)).toEqual({
+			url: "https://bit.ly/esai-ui",
+			categories: ["Esai", "Sosial"],
+			prizePool: "Total Rp5.000.000 + sertifikat",
+		});
+	});
+
+	it("returns nothing when the canonical row is already richer", () => {
+		const canonical = competition({ url: "https://a.id", categories: ["Esai"] });
+		const duplicate = competition({ id: 2, categories: ["Esai"] });
+
+		expect(mergeCompetitionFields(canonical, duplicate)).toEqual({});
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "bun:test";
+import {
+	diffFields,
+	revertRevision,
+	revisionValue,
+	type CompetitionRevision,
+} from "../lib/competition-revisions.js";
+import { fakeSql } from "./fake-sql.js";
+
+describe("Competition revisions - revisionValue", () => {
+	it("records calendar dates as YYYY-MM-DD", () => {
+		expect(revisionValue("endDate", new Date("2026-05-30T00:00:00Z"))).toBe("2026-05-30");
+		expect(revisionValue("startDate", "2026-05-01")).toBe("2026-05-01");
+	});
+
+	it("records timestamps as ISO strings and empty values as null", () => {
+		expect(revisionValue("urlCheckedAt", new Date("2026-05-30T08:15:00Z"))).toBe(
+			"2026-05-30T08:15:00.000Z",
+		);
+		expect(revisionValue("title", "")).toBeNull();
+		expect(revisionValue("title", undefined)).toBeNull();
+	});
+});
+
+describe("Competition revisions - diffFields", () => {
+	const current = {
+		title: "Lomba Esai Nasional",
+		organizer: ["BEM UI"],
+		endDate: new Date("2026-05-30T00:00:00Z"),
+		socialMedia: { instagram: "bemui", website: "https://bem.ui.ac.id" },
+		location: null,
+	};
+
+	it("returns only fields whose value changes", () => {
+		const changes = diffFields(current, {
+			title: "Lomba Esai Nasional",
+			organizer: ["BEM UI"],
+			endDate: "2026-05-30",
+			location: "Depok",
+		});
+
+		expect(changes).toEqual([{ field: "location", oldValue: null, newValue: "Depok" }]);
+	});
+
+	it("ignores key order of JSON objects", () => {
+		const changes = diffFields(current, {
+			socialMedia: { website: "https://bem.ui.ac.id", instagram: "bemui" },
+		});
+
+		expect(changes).toEqual([]);
+	});
+
+	it("records old and new values of changed fields", () => {
+		const changes = diffFields(current, {
+			organizer: ["BEM UI", "Kemendikbud"],
+			endDate: "2026-06-15",
+		});
+
+		expect(changes).toEqual([
+			{ field: "organizer", oldValue: ["BEM UI"], newValue: ["BEM UI", "Kemendikbud"] },
+			{ field: "endDate", oldValue: "2026-05-30", newValue: "2026-06-15" },
+		]);
+	});
+});
+
+describe("Competition revisions - revertRevision", () => {
+	it("refuses status revisions without writing", async () => {
+		const revision: CompetitionRevision = {
+			id: 7,
+			competitionId: 3,
+			field: "status",
+			oldValue: "draft",
+			newValue: "published",
+			actor: "system",
+			runId: null,
+			createdAt: new Date("2026-05-30T08:15:00Z"),
+		};
+		const statements: string[] = [];
+		const sql = fakeSql((text) => {
+			statements.push(text);
+			return [revision];
+		});
+
+		const result = await revertRevision(sql, 3, 7, { actor: "admin" });
+
+		expect(result).toEqual({ outcome: "not-revertible", revision });
+		expect(statements).toHaveLength(1);
+	});
+});
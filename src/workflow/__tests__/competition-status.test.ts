@@ -0,0 +1,55 @@
+import { describe, it, expect } from "bun:test";
+import {
+	canTransition,
+	COMPETITION_STATUSES,
+	isCompetitionStatus,
+	missingRequiredFields,
+} from "../lib/competition-status.js";
+
+describe("Competition status - canTransition", () => {
+	it("moves drafts forward", () => {
+		expect(canTransition("draft", "published")).toBe(true);
+		expect(canTransition("draft", "duplicate")).toBe(true);
+		expect(canTransition("draft", "archived")).toBe(true);
+		expect(canTransition("published", "archived")).toBe(true);
+		expect(canTransition("published", "duplicate")).toBe(true);
+	});
+
+	it("never moves back", () => {
+		expect(canTransition("published", "draft")).toBe(false);
+		expect(canTransition("archived", "published")).toBe(false);
+		expect(canTransition("archived", "draft")).toBe(false);
+	});
+
+	it("keeps duplicate and archived final", () => {
+		for (const to of COMPETITION_STATUSES) {
+			expect(canTransition("duplicate", to)).toBe(false);
+			expect(canTransition("archived", to)).toBe(false);
+		}
+	});
+});
+
+describe("Competition status - isCompetitionStatus", () => {
+	it("accepts lifecycle statuses only", () => {
+		expect(isCompetitionStatus("published")).toBe(true);
+		expect(isCompetitionStatus("sent")).toBe(false);
+		expect(isCompetitionStatus(undefined)).toBe(false);
+	});
+});
+
+describe("Competition status - missingRequiredFields", () => {
+	it("lists empty required fields", () => {
+		expect(
+			missingRequiredFields({
+				title: "Lomba Esai Nasional",
+				poster: "https://r2.example.com/poster.jpg",
+				endDate: new Date("2026-05-30T00:00:00Z"),
+			}),
+		).toEqual([]);
+		expect(missingRequiredFields({ title: "  ", poster: null, endDate: null })).toEqual([
+			"title",
+			"poster",
+			"endDate",
+		]);
+	});
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "bun:test";
+import type { ExtractionConfig } from "../lib/config.js";
+import {
+	EXTRACTION_PROVIDERS,
+	resolveChains,
+	usageCost,
+	type ExtractionProvider,
+} from "../lib/extraction-providers.js";
+
+const provider = (id: string, input: ExtractionProvider["input"], cost = 1): ExtractionProvider => ({
+	id,
+	input,
+	cost,
+	timeoutMs: 1000,
+	extract: async () => ({}),
+});
+
+const providers = {
+	caption: provider("caption", "text"),
+	ocr: provider("ocr", "image"),
+	vision: provider("vision", "image", 3),
+};
+
+const extractionConfig = (overrides: Partial<ExtractionConfig> = {}): ExtractionConfig => ({
+	chains: {
+		instagram: { text: ["caption"], image: ["ocr", "vision"] },
+		web: { text: ["caption"], image: ["vision"] },
+	},
+	disabledProviders: [],
+	...overrides,
+});
+
+const ids = (list: ExtractionProvider[]) => list.map((p) => p.id);
+
+describe("Extraction providers - resolveChains", () => {
+	it("keeps the configured order per source", () => {
+		const chains = resolveChains(extractionConfig(), providers);
+		expect(ids(chains.instagram.text)).toEqual(["caption"]);
+		expect(ids(chains.instagram.image)).toEqual(["ocr", "vision"]);
+		expect(ids(chains.web.image)).toEqual(["vision"]);
+	});
+
+	it("leaves disabled providers out of every chain", () => {
+		const chains = resolveChains(extractionConfig({ disabledProviders: ["vision"] }), providers);
+		expect(ids(chains.instagram.image)).toEqual(["ocr"]);
+		expect(ids(chains.web.image)).toEqual([]);
+	});
+
+	it("throws on an unknown provider id", () => {
+		const config = extractionConfig();
+		config.chains.web.text = ["captoin"];
+		expect(() => resolveChains(config, providers)).toThrow(/Unknown extraction provider "captoin"/);
+	});
+
+	it("throws on a provider listed under the wrong input", () => {
+		const config = extractionConfig();
+		config.chains.instagram.text = ["ocr"];
+		expect(() => resolveChains(config, providers)).toThrow(/reads image, listed under text/);
+	});
+
+	it("resolves the default config against the registry", () => {
+		const chains = resolveChains(extractionConfig({
+			chains: {
+				instagram: { text: ["zai"], image: ["mistral", "gemini"] },
+				web: { text: ["zai", "openrouter"], image: ["groq"] },
+			},
+		}));
+		expect(ids(chains.instagram.image)).toEqual(["mistral", "gemini"]);
+		expect(ids(chains.web.text)).toEqual(["zai", "openrouter"]);
+		for (const [id, entry] of Object.entries(EXTRACTION_PROVIDERS)) {
+			expect(entry.id).toBe(id);
+		}
+	});
+});
+
+describe("Extraction providers - usageCost", () => {
+	it("weighs calls by provider cost", () => {
+		expect(usageCost({ ocr: 2, vision: 1 }, providers)).toBe(5);
+	});
+
+	it("ignores providers that are no longer registered", () => {
+		expect(usageCost({ removed: 4, caption: 1 }, providers)).toBe(1);
+		expect(usageCost({}, providers)).toBe(0);
+	});
+});
@@ -0,0 +1,43 @@
+import type { Sql } from "postgres";
+
+/** Arguments of a helper call: sql(rows) or sql(row, ...columns) */
+export interface HelperArgs {
+	helper: unknown;
+	columns: string[];
+}
+
+/**
+ * postgres.js client stand-in for unit tests. Every tagged-template
+ * statement is passed to `run` as its text, with "?" for each value, and
+ * its values; helper calls arrive among the values as HelperArgs. `begin`
+ * runs the callback on the same client; `snapshot` is called when it
+ * starts and returns a function that restores that state, called when the
+ * callback throws.
+ */
+export function fakeSql(
+	run: (text: string, values: unknown[]) => unknown[],
+	snapshot?: () => () => void,
+): Sql<Record<string, never>> {
+	const sql = Object.assign(
+		(first: unknown, ...rest: unknown[]) => {
+			if (Array.isArray(first) && "raw" in first) {
+				return Promise.resolve().then(() => run(first.join("?"), rest));
+			}
+			return { helper: first, columns: rest as string[] } satisfies HelperArgs;
+		},
+		{
+			json: (value: unknown) => value,
+			async begin(fn: (tx: unknown) => Promise<unknown>) {
+				const restore = snapshot?.();
+				try {
+					return await fn(sql);
+				} catch (error) {
+					restore?.();
+					throw error;
+				}
+			},
+			end: async () => {},
+		},
+	);
+	return sql as unknown as Sql<Record<string, never>>;
+}
@@ -0,0 +1,249 @@
+import { describe, it, expect } from "bun:test";
+import { Hono } from "hono";
+import { requireSecretCode } from "../../api/auth.js";
+import { createSourcesApi } from "../../api/sources.js";
+import type { Env } from "../../workflows/competition-workflow.js";
+import { config } from "../lib/config.js";
+import {
+	applySourceFailure,
+	applySourcePatch,
+	applySourceSuccess,
+	planSourceOrder,
+	recordSourceFailure,
+	recordSourceSuccess,
+	type InstagramSource,
+} from "../lib/instagram-sources.js";
+import { fakeSql, type HelperArgs } from "./fake-sql.js";
+
+const t0 = new Date("2026-01-01T00:00:00Z");
+
+function source(username: string, overrides: Partial<InstagramSource> = {}): InstagramSource {
+	return {
+		username,
+		enabled: true,
+		priority: 0,
+		notes: null,
+		lastSuccessAt: null,
+		consecutiveFailures: 0,
+		lastError: null,
+		disabledReason: null,
+		createdAt: t0,
+		updatedAt: t0,
+		...overrides,
+	};
+}
+
+/**
+ * In-memory sources table answering the statements instagram-sources.ts
+ * runs. A failed transaction restores the rows it started with.
+ */
+function fakeDb(initial: InstagramSource[] = []) {
+	let rows = initial.map((row) => ({ ...row }));
+	let created = initial.length;
+
+	const ordered = () =>
+		[...rows].sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime());
+
+	function run(text: string, values: unknown[]): unknown[] {
+		const helper = values[0] as HelperArgs | undefined;
+		if (text.includes("SELECT COUNT(*)")) return [{ count: rows.length }];
+		if (text.includes("INSERT INTO sources")) {
+			const inserted = (helper!.helper as { username: string; priority: number }[])
+				.filter((row) => !rows.some((r) => r.username === row.username))
+				.map((row) => source(row.username, { priority: row.priority, createdAt: new Date(++created) }));
+			rows.push(...inserted);
+			return inserted;
+		}
+		if (text.includes('WHERE "username" = ? FOR UPDATE')) {
+			return rows.filter((row) => row.username === values[0]);
+		}
+		if (text.includes('SELECT "username" FROM sources')) {
+			return ordered().map(({ username }) => ({ username }));
+		}
+		if (text.includes("SELECT * FROM sources")) return ordered();
+		if (text.includes("WITH ORDINALITY")) {
+			(values[0] as string[]).forEach((username, i) => {
+				const row = rows.find((r) => r.username === username);
+				if (row) row.priority = i;
+			});
+			return [];
+		}
+		if (text.includes("UPDATE sources SET ?")) {
+			const next = helper!.helper as InstagramSource;
+			const row = rows.find((r) => r.username === values[1])!;
+			for (const column of helper!.columns as (keyof InstagramSource)[]) {
+				Object.assign(row, { [column]: next[column] });
+			}
+			return [];
+		}
+		throw new Error(`unexpected statement: ${text}`);
+	}
+
+	const sql = fakeSql(run, () => {
+		const saved = rows.map((row) => ({ ...row }));
+		return () => {
+			rows = saved;
+		};
+	});
+
+	return {
+		sql,
+		rows: () => ordered(),
+	};
+}
+
+const env = { SCRAPING_SECRET_CODE: "secret", DATABASE_URL: "" } as unknown as Env;
+
+function request(db: ReturnType<typeof fakeDb>, method: string, path: string, body?: unknown) {
+	const api = createSourcesApi(() => db.sql);
+	return api.request(path, { method, body: body === undefined ? undefined : JSON.stringify(body) }, env);
+}
+
+describe("Instagram sources - applySourceFailure", () => {
+	it("disables an account on its Nth failure in a row", () => {
+		let account = source("lomba.id");
+		for (let i = 0; i < 4; i++) account = applySourceFailure(account, "Not found", 5, t0);
+
+		expect(account).toMatchObject({ enabled: true, consecutiveFailures: 4, disabledReason: null });
+
+		account = applySourceFailure(account, "Not found", 5, t0);
+		expect(account).toMatchObject({
+			enabled: false,
+			consecutiveFailures: 5,
+			lastError: "Not found",
+			disabledReason: "Disabled after 5 consecutive failures: Not found",
+		});
+	});
+
+	it("keeps the reason of an account disabled by hand", () => {
+		const account = applySourceFailure(source("lomba.id", { enabled: false }), "Private", 1, t0);
+
+		expect(account).toMatchObject({ enabled: false, consecutiveFailures: 1, disabledReason: null });
+	});
+});
+
+describe("Instagram sources - applySourceSuccess", () => {
+	it("resets the failure streak without re-enabling", () => {
+		const failing = source("lomba.id", { consecutiveFailures: 3, lastError: "Timeout" });
+		const disabled = source("old.id", { enabled: false, consecutiveFailures: 5, disabledReason: "gone" });
+
+		expect(applySourceSuccess(failing, t0)).toMatchObject({
+			consecutiveFailures: 0,
+			lastError: null,
+			lastSuccessAt: t0,
+		});
+		expect(applySourceSuccess(disabled, t0)).toMatchObject({ enabled: false, disabledReason: "gone" });
+	});
+});
+
+describe("Instagram sources - applySourcePatch", () => {
+	it("clears the streak and reason when re-enabled", () => {
+		const disabled = source("lomba.id", { enabled: false, consecutiveFailures: 5, disabledReason: "gone" });
+
+		expect(applySourcePatch(disabled, { enabled: true }, t0)).toMatchObject({
+			enabled: true,
+			consecutiveFailures: 0,
+			disabledReason: null,
+		});
+		expect(applySourcePatch(disabled, { notes: "renamed?" }, t0)).toMatchObject({
+			enabled: false,
+			disabledReason: "gone",
+			notes: "renamed?",
+		});
+	});
+});
+
+describe("Instagram sources - planSourceOrder", () => {
+	it("puts listed usernames first and keeps the rest in order", () => {
+		expect(planSourceOrder(["a", "b", "c", "d"], ["c", "a"])).toEqual({
+			order: ["c", "a", "b", "d"],
+			duplicates: [],
+			unknown: [],
+		});
+	});
+
+	it("reports duplicate and unknown usernames", () => {
+		const plan = planSourceOrder(["a", "b"], ["b", "x", "b"]);
+
+		expect(plan.duplicates).toEqual(["b"]);
+		expect(plan.unknown).toEqual(["x"]);
+	});
+});
+
+describe("Instagram sources - recordSourceFailure / recordSourceSuccess", () => {
+	it("stores the streak and the automatic disable", async () => {
+		const db = fakeDb([source("lomba.id", { consecutiveFailures: 1 })]);
+
+		const disabled = await recordSourceFailure(db.sql, "lomba.id", "Not found", 2);
+		expect(disabled).toMatchObject({ enabled: false, consecutiveFailures: 2 });
+		expect(db.rows()[0]).toMatchObject({ enabled: false, consecutiveFailures: 2 });
+
+		await recordSourceSuccess(db.sql, "lomba.id");
+		expect(db.rows()[0]).toMatchObject({ enabled: false, consecutiveFailures: 0, lastError: null });
+	});
+
+	it("returns null for an unknown account", async () => {
+		expect(await recordSourceFailure(fakeDb().sql, "nobody", "Not found", 2)).toBeNull();
+	});
+});
+
+describe("Instagram sources - /api/sources", () => {
+	it("requires the secret code where index.ts mounts it", async () => {
+		const app = new Hono<{ Bindings: Env }>()
+			.use("/api/sources/*", requireSecretCode)
+			.route("/api/sources", createSourcesApi(() => fakeDb().sql));
+
+		expect((await app.request("/api/sources", {}, env)).status).toBe(401);
+		expect((await app.request("/api/sources/reorder?code=wrong", { method: "POST" }, env)).status).toBe(401);
+		expect((await app.request("/api/sources?code=secret", {}, env)).status).toBe(200);
+	});
+
+	it("seeds an empty table from the config accounts in order", async () => {
+		const db = fakeDb();
+
+		const response = await request(db, "GET", "/");
+		const { sources } = (await response.json()) as { sources: InstagramSource[] };
+
+		expect(sources.map((s) => s.username)).toEqual([...config.instagram.accounts]);
+		expect(sources.map((s) => s.priority)).toEqual(config.instagram.accounts.map((_, i) => i));
+	});
+
+	it("does not reseed a table that has rows", async () => {
+		const db = fakeDb([source("lomba.id")]);
+
+		await request(db, "GET", "/");
+
+		expect(db.rows().map((s) => s.username)).toEqual(["lomba.id"]);
+	});
+
+	it("reorders stored accounts", async () => {
+		const db = fakeDb([source("a", { priority: 0 }), source("b", { priority: 1 }), source("c", { priority: 2 })]);
+
+		const response = await request(db, "POST", "/reorder", { usernames: ["c", "a"] });
+
+		expect(response.status).toBe(200);
+		expect(db.rows().map((s) => s.username)).toEqual(["c", "a", "b"]);
+	});
+
+	it("rejects duplicate and unknown usernames without reordering", async () => {
+		const db = fakeDb([source("a", { priority: 0 }), source("b", { priority: 1 })]);
+
+		const response = await request(db, "POST", "/reorder", { usernames: ["b", "b", "zzz"] });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ duplicates: ["b"], unknown: ["zzz"] });
+		expect(db.rows().map((s) => s.username)).toEqual(["a", "b"]);
+	});
+
+	it("re-enables an account through PATCH", async () => {
+		const db = fakeDb([
+			source("lomba.id", { enabled: false, consecutiveFailures: 5, disabledReason: "gone" }),
+		]);
+
+		const response = await request(db, "PATCH", "/lomba.id", { enabled: true });
+
+		expect(response.status).toBe(200);
+		expect(db.rows()[0]).toMatchObject({ enabled: true, consecutiveFailures: 0, disabledReason: null });
+		expect((await request(db, "PATCH", "/nobody", { enabled: true })).status).toBe(404);
+	});
+});
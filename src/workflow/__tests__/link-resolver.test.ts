@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { classifyLink, isClosedForm, resolveLink } from "../lib/link-resolver.js";
+
+const options = { timeoutMs: 1000, maxRedirects: 3, userAgent: "test" };
+
+// Fake short-link service: /s/<code> redirects like bit.ly or s.id
+let server: ReturnType<typeof Bun.serve>;
+let base: string;
+
+beforeAll(() => {
+	server = Bun.serve({
+		port: 0,
+		fetch(req) {
+			const { pathname } = new URL(req.url);
+			switch (pathname) {
+				case "/s/ok":
+					return Response.redirect(`${base}/s/hop`, 301);
+				case "/s/hop":
+					return new Response(null, { status: 302, headers: { Location: "/daftar" } });
+				case "/daftar":
+					return new Response("<h1>Pendaftaran</h1>");
+				case "/s/loop":
+					return Response.redirect(`${base}/s/loop`, 302);
+				case "/s/blocked":
+					return new Response("Forbidden", { status: 403 });
+				case "/s/slow":
+					return new Promise<Response>((resolve) =>
+						setTimeout(() => resolve(new Response("late")), 3000),
+					);
+				default:
+					return new Response("Not Found", { status: 404 });
+			}
+		},
+	});
+	base = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+	server.stop(true);
+});
+
+describe("Link resolver - resolveLink", () => {
+	it("follows redirects to the final page", async () => {
+		const check = await resolveLink(`${base}/s/ok`, options);
+
+		expect(check.finalUrl).toBe(`${base}/daftar`);
+		expect(check.status).toBe(200);
+		expect(check.redirects).toBe(2);
+		expect(check.type).toBe("website");
+		expect(check.broken).toBe(false);
+	});
+
+	it("flags dead and truncated short links", async () => {
+		const check = await resolveLink(`${base}/s/trunc`, options);
+
+		expect(check.status).toBe(404);
+		expect(check.broken).toBe(true);
+	});
+
+	it("does not flag pages behind bot protection", async () => {
+		const check = await resolveLink(`${base}/s/blocked`, options);
+
+		expect(check.status).toBe(403);
+		expect(check.broken).toBe(false);
+	});
+
+	it("stops redirect loops", async () => {
+		const check = await resolveLink(`${base}/s/loop`, options);
+
+		expect(check.broken).toBe(true);
+		expect(check.status).toBeNull();
+		expect(check.redirects).toBe(3);
+	});
+
+	it("treats unanswered requests as broken", async () => {
+		const check = await resolveLink(`${base}/s/slow`, options);
+
+		expect(check.broken).toBe(true);
+		expect(check.error).toBeDefined();
+	});
+});
+
+describe("Link resolver - classifyLink", () => {
+	it("recognises forms, linktree and whatsapp links", () => {
+		expect(classifyLink("https://forms.gle/abc123")).toBe("google-form");
+		expect(classifyLink("https://docs.google.com/forms/d/e/1FAIp/viewform")).toBe("google-form");
+		expect(classifyLink("https://linktr.ee/lkti2026")).toBe("linktree");
+		expect(classifyLink("https://wa.me/6281234567890")).toBe("whatsapp");
+		expect(classifyLink("https://lomba.id/daftar")).toBe("website");
+	});
+
+	it("detects closed Google Forms", () => {
+		expect(isClosedForm("https://docs.google.com/forms/d/e/1FAIp/closedform")).toBe(true);
+		expect(isClosedForm("https://docs.google.com/forms/d/e/1FAIp/viewform")).toBe(false);
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "bun:test";
+import { tableColumns } from "../../schema.js";
+import {
+	loadMigrations,
+	migrationChecksum,
+	parseMigrationFilename,
+	pendingMigrations,
+	type Migration,
+} from "../lib/migrations.js";
+
+const MIGRATIONS_DIR = new URL("../../../migrations", import.meta.url).pathname;
+
+function migration(version: number, sql: string): Migration {
+	return { version, name: `m${version}`, sql, checksum: migrationChecksum(sql) };
+}
+
+/**
+ * Columns each table has after running the migrations in order. Expects
+ * the repo's formatting: one column per line, `);` on its own line.
+ */
+function migratedColumns(migrations: readonly Migration[]): Map<string, Set<string>> {
+	const tables = new Map<string, Set<string>>();
+	const unquote = (name: string) => name.replace(/"/g, "");
+
+	for (const { sql } of migrations) {
+		const source = sql.replace(/--.*$/gm, "");
+
+		for (const [, table, body] of source.matchAll(/CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*?)\n\);/g)) {
+			const columns = body
+				.split("\n")
+				.map((line) => line.trim().split(/\s+/)[0])
+				.filter((name) => name && !/^(PRIMARY|UNIQUE|CONSTRAINT|FOREIGN|CHECK)$/.test(name))
+				.map(unquote);
+			tables.set(table, new Set(columns));
+		}
+		for (const [, table, body] of source.matchAll(/ALTER TABLE (\w+)([\s\S]*?);/g)) {
+			const columns = tables.get(table) ?? new Set<string>();
+			for (const [, column] of body.matchAll(/ADD COLUMN (?:IF NOT EXISTS )?("?\w+"?)/g)) {
+				columns.add(unquote(column));
+			}
+			for (const [, column] of body.matchAll(/DROP COLUMN (?:IF EXISTS )?("?\w+"?)/g)) {
+				columns.delete(unquote(column));
+			}
+			for (const [, from, to] of body.matchAll(/RENAME COLUMN ("?\w+"?) TO ("?\w+"?)/g)) {
+				columns.delete(unquote(from));
+				columns.add(unquote(to));
+			}
+			tables.set(table, columns);
+		}
+	}
+	return tables;
+}
+
+describe("Migrations - parseMigrationFilename", () => {
+	it("reads the version and name of NNNN_name.sql files", () => {
+		expect(parseMigrationFilename("0003_sources.sql")).toEqual({ version: 3, name: "sources" });
+		expect(parseMigrationFilename("0012_add_status_index.sql")).toEqual({
+			version: 12,
+			name: "add_status_index",
+		});
+	});
+
+	it("rejects other names", () => {
+		expect(parseMigrationFilename("3_sources.sql")).toBeNull();
+		expect(parseMigrationFilename("0003-sources.sql")).toBeNull();
+		expect(parseMigrationFilename("0003_Sources.sql")).toBeNull();
+		expect(parseMigrationFilename("0003_sources.sql.bak")).toBeNull();
+	});
+});
+
+describe("Migrations - pendingMigrations", () => {
+	const migrations = [migration(1, "SELECT 1;"), migration(2, "SELECT 2;"), migration(3, "SELECT 3;")];
+
+	it("returns unapplied migrations in version order", () => {
+		const pending = pendingMigrations([...migrations].reverse(), [migrations[1]]);
+
+		expect(pending.map((m) => m.version)).toEqual([1, 3]);
+		expect(pendingMigrations(migrations, migrations)).toEqual([]);
+	});
+
+	it("refuses to run when an applied migration was edited", () => {
+		const edited = { ...migrations[0], checksum: migrationChecksum("SELECT 42;") };
+
+		expect(() => pendingMigrations(migrations, [edited])).toThrow("was edited after it was applied");
+	});
+
+	it("refuses to run when an applied migration is missing locally", () => {
+		expect(() => pendingMigrations(migrations.slice(0, 2), migrations)).toThrow(
+			"Applied migration 3 (m3) is missing",
+		);
+	});
+});
+
+describe("Migrations - migrations directory", () => {
+	it("numbers migrations without gaps", async () => {
+		const migrations = await loadMigrations(MIGRATIONS_DIR);
+
+		expect(migrations.length).toBeGreaterThan(0);
+		expect(migrations.map((m) => m.version)).toEqual(migrations.map((_, i) => i + 1));
+	});
+
+	it("creates exactly the columns declared in src/schema.ts", async () => {
+		const tables = migratedColumns(await loadMigrations(MIGRATIONS_DIR));
+
+		// schema_migrations is created by the runner itself
+		const { schema_migrations: _, ...schema } = tableColumns;
+		expect([...tables.keys()].sort()).toEqual(Object.keys(schema).sort());
+		for (const [table, columns] of Object.entries(schema)) {
+			expect({ table, columns: [...tables.get(table)!].sort() }).toEqual({
+				table,
+				columns: Object.keys(columns).sort(),
+			});
+		}
+	});
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "bun:test";
+import {
+	isAbbreviation,
+	isOrganizerAccount,
+	matchOrganizer,
+	normalizeOrganizerName,
+} from "../lib/organizers.js";
+
+function organizer(id: number, name: string, overrides: { aliases?: string[]; isVerified?: boolean } = {}) {
+	return {
+		id,
+		normalizedName: normalizeOrganizerName(name),
+		aliases: overrides.aliases ?? [],
+		isVerified: overrides.isVerified ?? false,
+	};
+}
+
+describe("Organizers - normalizeOrganizerName", () => {
+	it("ignores case and punctuation and spells out abbreviated words", () => {
+		expect(normalizeOrganizerName("  BEM Univ. Indonesia ")).toBe("bem universitas indonesia");
+		expect(normalizeOrganizerName("Dinas Pendidikan & Kebudayaan")).toBe("dinas pendidikan dan kebudayaan");
+	});
+});
+
+describe("Organizers - isAbbreviation", () => {
+	it("matches names with runs of words written as initials", () => {
+		expect(isAbbreviation("bem ui", "bem universitas indonesia")).toBe(true);
+		expect(isAbbreviation("badan eksekutif mahasiswa universitas indonesia", "bem ui")).toBe(true);
+		expect(isAbbreviation("ugm", "universitas gadjah mada")).toBe(true);
+	});
+
+	it("does not match different organizers", () => {
+		expect(isAbbreviation("bem ui", "bem universitas islam indonesia")).toBe(false);
+		expect(isAbbreviation("bem ub", "bem universitas indonesia")).toBe(false);
+		expect(isAbbreviation("bem", "badan eksekutif mahasiswa universitas indonesia")).toBe(false);
+	});
+});
+
+describe("Organizers - isOrganizerAccount", () => {
+	const bem = organizer(1, "BEM Universitas Indonesia");
+
+	it("recognizes the organizer's own account", () => {
+		expect(isOrganizerAccount("bem_ui", bem)).toBe(true);
+		expect(isOrganizerAccount("BEM.UI", bem)).toBe(true);
+	});
+
+	it("ignores accounts reposting other organizers' lomba", () => {
+		expect(isOrganizerAccount("lomba.id", bem)).toBe(false);
+		expect(isOrganizerAccount("infolomba", bem)).toBe(false);
+	});
+});
+
+describe("Organizers - matchOrganizer", () => {
+	const organizers = [
+		organizer(1, "BEM Universitas Indonesia"),
+		organizer(2, "Universitas Gadjah Mada", { aliases: ["ugm yogyakarta"] }),
+		organizer(3, "SMAN 1 Bandung"),
+		organizer(4, "Himpunan Mahasiswa Teknik Industri"),
+		organizer(5, "Himpunan Mahasiswa Teknik Informatika"),
+	];
+
+	it("matches exact names and aliases", () => {
+		expect(matchOrganizer("bem universitas indonesia", organizers, 0.8)).toMatchObject({
+			organizer: { id: 1 },
+			matchedBy: "name",
+		});
+		expect(matchOrganizer("UGM Yogyakarta", organizers, 0.8)).toMatchObject({
+			organizer: { id: 2 },
+			matchedBy: "alias",
+		});
+	});
+
+	it("matches abbreviations and near spellings", () => {
+		expect(matchOrganizer("BEM UI", organizers, 0.8)).toMatchObject({
+			organizer: { id: 1 },
+			matchedBy: "abbreviation",
+		});
+		expect(matchOrganizer("BEM Universitas Indonesa", organizers, 0.8)).toMatchObject({
+			organizer: { id: 1 },
+			matchedBy: "similar",
+		});
+	});
+
+	it("skips ambiguous abbreviations and different numbers", () => {
+		expect(matchOrganizer("HMTI", organizers, 0.8)).toBeNull();
+		expect(matchOrganizer("SMAN 11 Bandung", organizers, 0.8)).toBeNull();
+	});
+
+	it("prefers verified organizers", () => {
+		const twins = [organizer(6, "Karang Taruna"), organizer(7, "Karang Taruna", { isVerified: true })];
+		expect(matchOrganizer("Karang Taruna", twins, 0.8)?.organizer.id).toBe(7);
+	});
+});
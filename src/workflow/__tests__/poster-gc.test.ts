@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { expiredOrphans, posterKeyFromUrl, referencedPosterKeys } from "../lib/poster-gc.js";
+
+const PUBLIC_URL = "https://cdn.example.com";
+
+describe("Poster GC - posterKeyFromUrl", () => {
+	it("returns the key of bucket URLs only", () => {
+		expect(posterKeyFromUrl(`${PUBLIC_URL}/posters/ab/cd/abcd-w1080.jpg`, PUBLIC_URL)).toBe(
+			"posters/ab/cd/abcd-w1080.jpg",
+		);
+		expect(posterKeyFromUrl(`${PUBLIC_URL}/1700000000-lomba.jpg?v=2`, `${PUBLIC_URL}/`)).toBe(
+			"1700000000-lomba.jpg",
+		);
+		expect(posterKeyFromUrl("https://scontent.cdninstagram.com/v/t51/abc.jpg", PUBLIC_URL)).toBeNull();
+		expect(posterKeyFromUrl(`${PUBLIC_URL}/`, PUBLIC_URL)).toBeNull();
+	});
+});
+
+describe("Poster GC - referencedPosterKeys", () => {
+	it("collects the poster, every slide and the variant keys", () => {
+		const keys = referencedPosterKeys(
+			{
+				poster: `${PUBLIC_URL}/posters/ab/cd/abcd-w1080.jpg`,
+				posters: [`${PUBLIC_URL}/posters/ab/cd/abcd-w1080.jpg`, `${PUBLIC_URL}/posters/ef/01/ef01-w1080.jpg`],
+				posterKeys: {
+					jpeg: "posters/ab/cd/abcd-w1080.jpg",
+					webp: "posters/ab/cd/abcd-w1080.webp",
+					thumb: "posters/ab/cd/abcd-w320.webp",
+				},
+			},
+			PUBLIC_URL,
+		);
+
+		expect([...keys].sort()).toEqual([
+			"posters/ab/cd/abcd-w1080.jpg",
+			"posters/ab/cd/abcd-w1080.webp",
+			"posters/ab/cd/abcd-w320.webp",
+			"posters/ef/01/ef01-w1080.jpg",
+		]);
+	});
+
+	it("ignores rows without stored posters", () => {
+		const keys = referencedPosterKeys(
+			{ poster: "https://scontent.cdninstagram.com/abc.jpg", posters: null, posterKeys: null },
+			PUBLIC_URL,
+		);
+
+		expect(keys.size).toBe(0);
+	});
+});
+
+describe("Poster GC - expiredOrphans", () => {
+	const now = new Date("2026-03-31T00:00:00Z");
+	const orphan = (key: string, orphanedAt: string) => ({ key, size: 100, orphanedAt: new Date(orphanedAt) });
+
+	it("keeps orphans inside their grace period", () => {
+		const orphans = [
+			orphan("recent", "2026-03-20T00:00:00Z"),
+			orphan("old", "2026-02-01T00:00:00Z"),
+			orphan("older", "2026-01-01T00:00:00Z"),
+		];
+
+		expect(expiredOrphans(orphans, 30, 10, now).map((o) => o.key)).toEqual(["older", "old"]);
+	});
+
+	it("caps deletions per run, oldest first", () => {
+		const orphans = [orphan("old", "2026-02-01T00:00:00Z"), orphan("older", "2026-01-01T00:00:00Z")];
+
+		expect(expiredOrphans(orphans, 30, 1, now).map((o) => o.key)).toEqual(["older"]);
+	});
+});
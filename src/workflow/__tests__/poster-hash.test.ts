@@ -0,0 +1,88 @@
+import { describe, it, expect } from "bun:test";
+import { encode as encodePng } from "fast-png";
+import { encode as encodeJpeg } from "jpeg-js";
+import { computePosterHash, findNearestPoster, hammingDistance } from "../lib/poster-hash.js";
+
+/** RGBA test poster: a diagonal gradient with a dark block, scaled to size */
+function poster(width: number, height: number, invert = false): Uint8Array {
+	const data = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const u = x / width;
+			const v = y / height;
+			let value = Math.round(255 * (u * 0.7 + v * 0.3));
+			if (u > 0.2 && u < 0.5 && v > 0.3 && v < 0.6) value = 20;
+			if (invert) value = 255 - value;
+			const i = (y * width + x) * 4;
+			data.set([value, value, value, 255], i);
+		}
+	}
+	return data;
+}
+
+function jpeg(width: number, height: number, quality: number, invert = false): Uint8Array {
+	return encodeJpeg({ width, height, data: poster(width, height, invert) }, quality).data;
+}
+
+/** Rewrite the dimensions an encoded image declares, leaving the pixel data as is */
+function claimSize(bytes: Uint8Array, width: number, height: number): Uint8Array {
+	const copy = bytes.slice();
+	const view = new DataView(copy.buffer);
+	if (copy[0] === 0x89) {
+		view.setUint32(16, width);
+		view.setUint32(20, height);
+		return copy;
+	}
+	const sof = copy.findIndex((byte, i) => byte === 0xff && copy[i + 1] === 0xc0);
+	view.setUint16(sof + 5, height);
+	view.setUint16(sof + 7, width);
+	return copy;
+}
+
+describe("Poster hash - computePosterHash", () => {
+	it("hashes JPEG and PNG posters to 16 hex chars", () => {
+		const png = encodePng({ width: 90, height: 80, data: poster(90, 80), channels: 4 });
+
+		expect(computePosterHash(jpeg(90, 80, 90))).toMatch(/^[0-9a-f]{16}$/);
+		expect(computePosterHash(png)).toMatch(/^[0-9a-f]{16}$/);
+	});
+
+	it("keeps re-encoded and resized reposts within a few bits", () => {
+		const original = computePosterHash(jpeg(360, 450, 90))!;
+		const repost = computePosterHash(jpeg(216, 270, 40))!;
+
+		expect(hammingDistance(original, repost)).toBeLessThanOrEqual(6);
+	});
+
+	it("separates different posters", () => {
+		const a = computePosterHash(jpeg(360, 450, 90))!;
+		const b = computePosterHash(jpeg(360, 450, 90, true))!;
+
+		expect(hammingDistance(a, b)).toBeGreaterThan(20);
+	});
+
+	it("refuses images above the resolution cap without decoding them", () => {
+		const png = encodePng({ width: 90, height: 80, data: poster(90, 80), channels: 4 });
+
+		expect(computePosterHash(claimSize(jpeg(90, 80, 90), 2500, 2000))).toBeNull();
+		expect(computePosterHash(claimSize(png, 2500, 2000))).toBeNull();
+	});
+
+	it("returns null for unsupported or corrupt images", () => {
+		expect(computePosterHash(new TextEncoder().encode("GIF89a..."))).toBeNull();
+		expect(computePosterHash(new Uint8Array([0xff, 0xd8, 0xff, 0x00]))).toBeNull();
+	});
+});
+
+describe("Poster hash - findNearestPoster", () => {
+	it("returns the closest candidate within the distance", () => {
+		const candidates = [
+			{ id: 1, posterHash: "ffffffffffffffff" },
+			{ id: 2, posterHash: "00000000000000ff" },
+			{ id: 3, posterHash: "000000000000000f" },
+		];
+
+		expect(findNearestPoster("0000000000000007", candidates, 6)?.id).toBe(3);
+		expect(findNearestPoster("0000000000000007", candidates, 0)).toBeNull();
+	});
+});
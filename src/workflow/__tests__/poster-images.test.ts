@@ -0,0 +1,41 @@
+import { describe, it, expect } from "bun:test";
+import { detectImageType, posterVariantKeys } from "../lib/poster-images.js";
+
+function bytes(...parts: (string | number[])[]): Uint8Array {
+	return new Uint8Array(
+		parts.flatMap((part) => (typeof part === "string" ? [...part].map((c) => c.charCodeAt(0)) : part)),
+	);
+}
+
+describe("Poster images - detectImageType", () => {
+	it("reads the type from magic bytes", () => {
+		expect(detectImageType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+		expect(detectImageType(bytes([0x89], "PNG", [0x0d, 0x0a, 0x1a, 0x0a]))).toBe("image/png");
+		expect(detectImageType(bytes("RIFF", [0x24, 0, 0, 0], "WEBPVP8 "))).toBe("image/webp");
+		expect(detectImageType(bytes("GIF89a", [1, 0]))).toBe("image/gif");
+		expect(detectImageType(bytes([0, 0, 0, 0x1c], "ftypavif"))).toBe("image/avif");
+	});
+
+	it("rejects bytes that are not an image", () => {
+		expect(detectImageType(bytes("<!DOCTYPE html><html>"))).toBeNull();
+		expect(detectImageType(bytes([0, 0, 0, 0x18], "ftypmp42"))).toBeNull();
+		expect(detectImageType(new ArrayBuffer(0))).toBeNull();
+	});
+});
+
+describe("Poster images - posterVariantKeys", () => {
+	it("names variants after the width they are rendered at", () => {
+		const keys = posterVariantKeys("abcdef0123", {
+			maxWidth: 1080,
+			thumbWidth: 320,
+			jpegQuality: 85,
+			webpQuality: 80,
+		});
+
+		expect(keys).toEqual({
+			jpeg: "posters/ab/cd/abcdef0123-w1080.jpg",
+			webp: "posters/ab/cd/abcdef0123-w1080.webp",
+			thumb: "posters/ab/cd/abcdef0123-w320.webp",
+		});
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "bun:test";
+import { instagramMediaId, mediaItemImages, ogImage } from "../lib/poster-refetch.js";
+
+describe("Poster refetch - instagramMediaId", () => {
+	it("decodes shortcodes as base64 digits", () => {
+		expect(instagramMediaId("B")).toBe("1");
+		expect(instagramMediaId("BA")).toBe("64");
+		expect(instagramMediaId("_")).toBe("63");
+		expect(instagramMediaId("CAAAAAAAAAA")).toBe((2n * 64n ** 10n).toString());
+	});
+
+	it("rejects characters outside the alphabet", () => {
+		expect(() => instagramMediaId("abc!")).toThrow("Invalid shortcode");
+	});
+});
+
+describe("Poster refetch - mediaItemImages", () => {
+	it("returns every carousel slide in order", () => {
+		const images = mediaItemImages({
+			carousel_media: [
+				{ image_versions2: { candidates: [{ url: "https://cdn/1.jpg" }, { url: "https://cdn/1-small.jpg" }] } },
+				{ image_versions2: { candidates: [{ url: "https://cdn/2.jpg" }] } },
+				{},
+			],
+		});
+
+		expect(images).toEqual(["https://cdn/1.jpg", "https://cdn/2.jpg"]);
+	});
+
+	it("returns the single image of a plain post", () => {
+		expect(mediaItemImages({ image_versions2: { candidates: [{ url: "https://cdn/p.jpg" }] } })).toEqual([
+			"https://cdn/p.jpg",
+		]);
+	});
+});
+
+describe("Poster refetch - ogImage", () => {
+	it("reads og:image relative to the page", () => {
+		const html = '<head><meta property="og:image" content="/wp-content/poster.png"></head>';
+
+		expect(ogImage(html, "https://infolomba.id/lomba-esai")).toBe("https://infolomba.id/wp-content/poster.png");
+	});
+
+	it("falls back to twitter:image", () => {
+		const html = '<meta name="twitter:image" content="https://cdn.example.com/p.jpg">';
+
+		expect(ogImage(html, "https://example.com/")).toBe("https://cdn.example.com/p.jpg");
+		expect(ogImage("<p>no image</p>", "https://example.com/")).toBeNull();
+	});
+});
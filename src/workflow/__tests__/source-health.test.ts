@@ -0,0 +1,77 @@
+import { describe, it, expect } from "bun:test";
+import {
+	applyRunOutcome,
+	emptySourceHealth,
+	isQuarantined,
+	type SourceHealth,
+} from "../lib/source-health.js";
+
+const policy = { quarantineAfterEmptyRuns: 3, quarantineProbeHours: 24 };
+const HOUR = 60 * 60 * 1000;
+const t0 = new Date("2026-01-01T00:00:00Z");
+
+function at(hours: number): Date {
+	return new Date(t0.getTime() + hours * HOUR);
+}
+
+function runEmpty(health: SourceHealth, times: number): SourceHealth {
+	for (let i = 0; i < times; i++) {
+		health = applyRunOutcome(health, { status: "empty", error: "Got 0 posts" }, policy, at(i * 6));
+	}
+	return health;
+}
+
+describe("Source health - applyRunOutcome", () => {
+	it("tracks the average yield of successful runs", () => {
+		let health = emptySourceHealth("infolombaid");
+		health = applyRunOutcome(health, { status: "ok", yield: 4 }, policy, at(0));
+		health = applyRunOutcome(health, { status: "ok", yield: 2 }, policy, at(6));
+
+		expect(health.avgYield).toBe(3);
+		expect(health.successRuns).toBe(2);
+		expect(health.runs).toBe(2);
+		expect(health.lastSuccessAt).toEqual(at(6));
+	});
+
+	it("counts error streaks without quarantining", () => {
+		let health = emptySourceHealth("infolombaid");
+		for (let i = 0; i < 5; i++) {
+			health = applyRunOutcome(health, { status: "error", error: "HTTP 500" }, policy, at(i));
+		}
+
+		expect(health.errorStreak).toBe(5);
+		expect(health.lastError).toBe("HTTP 500");
+		expect(health.quarantinedAt).toBeNull();
+	});
+
+	it("quarantines after K consecutive empty runs", () => {
+		const health = runEmpty(emptySourceHealth("infolombaid"), 3);
+
+		expect(health.emptyStreak).toBe(3);
+		expect(health.quarantinedAt).toEqual(at(12));
+		expect(health.quarantineReason).toBe("0 posts for 3 consecutive runs");
+	});
+
+	it("resets the empty streak and releases quarantine on a successful run", () => {
+		let health = runEmpty(emptySourceHealth("infolombaid"), 4);
+		health = applyRunOutcome(health, { status: "ok", yield: 1 }, policy, at(48));
+
+		expect(health.emptyStreak).toBe(0);
+		expect(health.quarantinedAt).toBeNull();
+		expect(health.quarantineReason).toBeNull();
+	});
+});
+
+describe("Source health - isQuarantined", () => {
+	it("skips a quarantined source until the probe interval has passed", () => {
+		const health = runEmpty(emptySourceHealth("infolombaid"), 3);
+
+		expect(isQuarantined(health, policy, at(13))).toBe(true);
+		expect(isQuarantined(health, policy, at(12 + 24))).toBe(false);
+	});
+
+	it("never skips healthy or unknown sources", () => {
+		expect(isQuarantined(undefined, policy, at(0))).toBe(false);
+		expect(isQuarantined(emptySourceHealth("x"), policy, at(0))).toBe(false);
+	});
+});
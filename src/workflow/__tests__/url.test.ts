@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+import { canonicalizeUrl, instagramShortcode } from "../lib/url.js";
+
+describe("URL - canonicalizeUrl", () => {
+	it("maps every form of an Instagram post to one URL", () => {
+		const canonical = "https://www.instagram.com/p/C1x_Yz-9/";
+
+		expect(canonicalizeUrl("https://www.instagram.com/p/C1x_Yz-9/")).toBe(canonical);
+		expect(canonicalizeUrl("https://instagram.com/p/C1x_Yz-9/?img_index=1")).toBe(canonical);
+		expect(canonicalizeUrl("www.instagram.com/p/C1x_Yz-9")).toBe(canonical);
+		expect(canonicalizeUrl("https://www.instagram.com/reel/C1x_Yz-9/?igsh=MWQ1ZGUx")).toBe(canonical);
+		expect(canonicalizeUrl("https://www.instagram.com/lomba.id/p/C1x_Yz-9/")).toBe(canonical);
+	});
+
+	it("strips tracking params but keeps the rest of the query", () => {
+		expect(canonicalizeUrl("https://forms.gle/abc?utm_source=ig&utm_medium=bio&fbclid=x")).toBe(
+			"https://forms.gle/abc",
+		);
+		expect(canonicalizeUrl("https://lomba.id/daftar?id=42&utm_campaign=x")).toBe(
+			"https://lomba.id/daftar?id=42",
+		);
+	});
+
+	it("removes si only where it is a share param", () => {
+		expect(canonicalizeUrl("https://youtu.be/dQw4w9WgXcQ?si=AbC")).toBe("https://youtu.be/dQw4w9WgXcQ");
+		expect(canonicalizeUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ&si=AbC")).toBe(
+			"https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+		);
+		expect(canonicalizeUrl("https://lomba.id/event?si=2")).toBe("https://lomba.id/event?si=2");
+	});
+
+	it("normalizes host, port and trailing slash", () => {
+		expect(canonicalizeUrl("HTTPS://Bit.LY:443/Esai2026/")).toBe("https://bit.ly/Esai2026");
+		expect(canonicalizeUrl("bit.ly/Esai2026#")).toBe("https://bit.ly/Esai2026");
+		expect(canonicalizeUrl("https://lomba.id/")).toBe("https://lomba.id/");
+	});
+
+	it("keeps the trailing slash outside short-link and form hosts", () => {
+		expect(canonicalizeUrl("https://forms.gle/abc/")).toBe("https://forms.gle/abc");
+		expect(canonicalizeUrl("https://lomba.id/daftar/")).toBe("https://lomba.id/daftar/");
+	});
+
+	it("leaves non-http values unchanged", () => {
+		expect(canonicalizeUrl("mailto:panitia@lomba.id")).toBe("mailto:panitia@lomba.id");
+		expect(canonicalizeUrl(" link di bio ")).toBe("link di bio");
+	});
+});
+
+describe("URL - instagramShortcode", () => {
+	it("extracts the shortcode of posts and reels only", () => {
+		expect(instagramShortcode("https://www.instagram.com/p/ABC123/")).toBe("ABC123");
+		expect(instagramShortcode("instagram.com/reel/XyZ_-1")).toBe("XyZ_-1");
+		expect(instagramShortcode("https://www.instagram.com/lomba.id/")).toBeNull();
+		expect(instagramShortcode("https://example.com/p/ABC123/")).toBeNull();
+	});
+});
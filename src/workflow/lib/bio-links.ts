@@ -0,0 +1,219 @@
+import * as cheerio from "cheerio";
+import { canonicalizeUrl } from "./url.js";
+
+/**
+ * "Link di bio" expansion.
+ *
+ * Many IG captions only say "link di bio", so extraction finds no
+ * registration url. At scrape time the account's bio links are fetched;
+ * link-in-bio pages (Linktree, bio.link, s.id, ...) are expanded into
+ * their list of links, and extraction picks the one whose label matches
+ * the competition title.
+ */
+
+/** One link listed in an account's bio */
+export interface BioLink {
+	/** Button label, empty for a bare bio url */
+	title: string;
+	url: string;
+}
+
+/** Hosts serving a page of links rather than a destination */
+const LINK_PAGE_HOSTS = new Set([
+	"linktr.ee",
+	"bio.link",
+	"s.id",
+	"lynk.id",
+	"beacons.ai",
+	"taplink.cc",
+	"msha.ke",
+]);
+
+/** Links on a link page that are never registration links */
+const IGNORED_LINK_HOSTS = /(^|\.)(instagram\.com|tiktok\.com|youtube\.com|twitter\.com|x\.com|facebook\.com|linktr\.ee|bio\.link)$/;
+
+const BIO_MENTION = /\b(link|tautan)\s*(di|in|on|ada di)\s*bio\b|\bcek\s+bio\b/i;
+
+/** App id the Instagram web client sends, required by its JSON endpoints */
+export const IG_APP_ID = "936619743392459";
+
+/** Profile endpoint of the Instagram web client, listing the bio links */
+export const PROFILE_INFO_URL = "https://www.instagram.com/api/v1/users/web_profile_info/";
+
+/** Words ignored when matching a link label to a title */
+const MATCH_NOISE = new Set([
+	"lomba",
+	"kompetisi",
+	"competition",
+	"daftar",
+	"pendaftaran",
+	"registrasi",
+	"register",
+	"link",
+	"form",
+	"guidebook",
+	"info",
+	"nasional",
+	"internasional",
+]);
+
+/** Whether a caption points readers to the bio for the link */
+export function mentionsBioLink(caption: string | null | undefined): boolean {
+	return !!caption && BIO_MENTION.test(caption);
+}
+
+function hostOf(url: string): string | null {
+	try {
+		return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+	} catch {
+		return null;
+	}
+}
+
+/** Whether a URL is a link-in-bio page that lists other links */
+export function isLinkPage(url: string): boolean {
+	const host = hostOf(url);
+	return !!host && LINK_PAGE_HOSTS.has(host);
+}
+
+/**
+ * Outbound links of a link-in-bio page with their button labels.
+ * Social profiles and the aggregator's own links are dropped.
+ */
+export function parseLinkPage(html: string, pageUrl: string): BioLink[] {
+	const $ = cheerio.load(html);
+	const pageHost = hostOf(pageUrl);
+	const links: BioLink[] = [];
+	const seen = new Set<string>();
+
+	$("a[href]").each((_, el) => {
+		let href: string;
+		try {
+			href = new URL($(el).attr("href")!, pageUrl).toString();
+		} catch {
+			return;
+		}
+		const host = hostOf(href);
+		if (!href.startsWith("http") || !host || host === pageHost || IGNORED_LINK_HOSTS.test(host)) {
+			return;
+		}
+
+		const url = canonicalizeUrl(href);
+		if (seen.has(url)) return;
+		seen.add(url);
+
+		const title = $(el).text().replace(/\s+/g, " ").trim();
+		links.push({ title, url });
+	});
+
+	return links;
+}
+
+function matchTokens(text: string): Set<string> {
+	return new Set(
+		text
+			.normalize("NFKC")
+			.toLowerCase()
+			.split(/[^\p{L}\p{N}]+/u)
+			.filter((word) => word.length > 1 && !MATCH_NOISE.has(word)),
+	);
+}
+
+/**
+ * Bio link whose label (or url slug) best matches the competition title:
+ * the share of label words found in the title must reach `minScore`. This
+ * holds for a bio with a single link too, which often belongs to another
+ * lomba or to the account itself.
+ */
+export function pickBioLink(title: string, links: readonly BioLink[], minScore = 0.5): BioLink | null {
+	const titleWords = matchTokens(title);
+	if (titleWords.size === 0) return null;
+
+	let best: BioLink | null = null;
+	let bestScore = 0;
+	for (const link of links) {
+		// Unlabeled links are matched on their slug ("bit.ly/LKTI-UI")
+		const label = link.title || (hostOf(link.url) ? new URL(link.url).pathname : "");
+		const words = matchTokens(label);
+		if (words.size === 0) continue;
+
+		let hits = 0;
+		for (const word of words) {
+			if (titleWords.has(word)) hits++;
+		}
+		const score = hits / Math.min(words.size, titleWords.size);
+		if (score > bestScore) {
+			best = link;
+			bestScore = score;
+		}
+	}
+
+	return bestScore >= minScore ? best : null;
+}
+
+/** Fields of web_profile_info's user used here */
+interface ProfileUser {
+	bio_links?: { title?: string; url?: string }[];
+	external_url?: string | null;
+}
+
+/** Bio links as listed on the profile (web_profile_info) */
+async function fetchProfileLinks(
+	username: string,
+	timeoutMs: number,
+	profileInfoUrl: string,
+): Promise<BioLink[]> {
+	const response = await fetch(
+		`${profileInfoUrl}?username=${encodeURIComponent(username)}`,
+		{
+			headers: {
+				"User-Agent": "Mozilla/5.0",
+				"X-IG-App-ID": IG_APP_ID,
+			},
+			signal: AbortSignal.timeout(timeoutMs),
+		},
+	);
+	if (!response.ok) {
+		throw new Error(`profile fetch failed: HTTP ${response.status}`);
+	}
+
+	const body = (await response.json()) as { data?: { user?: ProfileUser } };
+	const user = body.data?.user;
+	const listed: BioLink[] = (user?.bio_links ?? [])
+		.filter((link) => typeof link.url === "string" && link.url)
+		.map((link) => ({ title: link.title ?? "", url: link.url! }));
+	if (listed.length === 0 && user?.external_url) {
+		listed.push({ title: "", url: user.external_url });
+	}
+	return listed;
+}
+
+/**
+ * Fetch an account's bio links and expand link-in-bio pages into the
+ * links they list. Short links are followed, so an s.id link that
+ * redirects straight to a form comes back as that form.
+ */
+export async function fetchBioLinks(
+	username: string,
+	timeoutMs: number,
+	profileInfoUrl: string = PROFILE_INFO_URL,
+): Promise<BioLink[]> {
+	const links: BioLink[] = [];
+
+	for (const link of await fetchProfileLinks(username, timeoutMs, profileInfoUrl)) {
+		const response = await fetch(link.url, {
+			headers: { "User-Agent": "Mozilla/5.0" },
+			signal: AbortSignal.timeout(timeoutMs),
+		}).catch(() => null);
+
+		const finalUrl = response?.url || link.url;
+		if (response?.ok && isLinkPage(finalUrl)) {
+			links.push(...parseLinkPage(await response.text(), finalUrl));
+		} else {
+			await response?.body?.cancel();
+			links.push({ title: link.title, url: canonicalizeUrl(finalUrl) });
+		}
+	}
+
+	return links;
+}
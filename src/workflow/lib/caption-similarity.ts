@@ -0,0 +1,83 @@
+/**
+ * Near-duplicate caption detection.
+ *
+ * Accounts that repost a lomba usually copy the organizer's caption and
+ * swap the hashtags, @mentions and emojis, so exact description matching
+ * misses them. Captions are normalized, split into character trigrams and
+ * compared with Jaccard similarity (the same measure as pg_trgm).
+ */
+
+/** Caption reduced to its trigram set */
+export interface CaptionTrigrams {
+	/** Normalized caption length, short captions are not compared */
+	length: number;
+	trigrams: Set<string>;
+}
+
+/**
+ * Lowercase caption without hashtags, @mentions, emojis and punctuation.
+ * NFKC folds the "𝐁𝐨𝐥𝐝" unicode letters IG accounts use back to ASCII.
+ */
+export function normalizeCaption(text: string): string {
+	return text
+		.normalize("NFKC")
+		.toLowerCase()
+		.replace(/[#@][\p{L}\p{N}_.]+/gu, " ")
+		.replace(/[\p{Extended_Pictographic}\p{Emoji_Modifier}\u200d\ufe0f]/gu, " ")
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim();
+}
+
+/** Character trigrams of a normalized caption */
+export function captionTrigrams(text: string): CaptionTrigrams {
+	const normalized = normalizeCaption(text);
+	const trigrams = new Set<string>();
+	for (let i = 0; i + 3 <= normalized.length; i++) {
+		trigrams.add(normalized.slice(i, i + 3));
+	}
+	return { length: normalized.length, trigrams };
+}
+
+/** Jaccard similarity of two trigram sets, 0..1 */
+export function captionSimilarity(a: CaptionTrigrams, b: CaptionTrigrams): number {
+	const [small, large] =
+		a.trigrams.size <= b.trigrams.size ? [a.trigrams, b.trigrams] : [b.trigrams, a.trigrams];
+	if (large.size === 0) return 0;
+
+	let shared = 0;
+	for (const trigram of small) {
+		if (large.has(trigram)) shared++;
+	}
+	return shared / (small.size + large.size - shared);
+}
+
+/**
+ * Most similar caption at or above `threshold`, or null. Captions shorter
+ * than `minLength` after normalization never match.
+ */
+export function findSimilarCaption<T extends { caption: CaptionTrigrams }>(
+	caption: CaptionTrigrams,
+	candidates: readonly T[],
+	threshold: number,
+	minLength: number,
+): (T & { similarity: number }) | null {
+	if (caption.length < minLength) return null;
+
+	let best: (T & { similarity: number }) | null = null;
+	for (const candidate of candidates) {
+		const other = candidate.caption;
+		if (other.length < minLength) continue;
+
+		// Jaccard can never exceed the size ratio, skip without comparing
+		const ratio =
+			Math.min(caption.trigrams.size, other.trigrams.size) /
+			Math.max(caption.trigrams.size, other.trigrams.size);
+		if (ratio < threshold) continue;
+
+		const similarity = captionSimilarity(caption, other);
+		if (similarity >= threshold && (!best || similarity > best.similarity)) {
+			best = { ...candidate, similarity };
+		}
+	}
+	return best;
+}
@@ -0,0 +1,230 @@
+import type { Sql } from "postgres";
+import type { CompetitionRow } from "../../schema.js";
+import { applyCompetitionChanges } from "./competition-revisions.js";
+import { transitionStatus } from "./competition-status.js";
+import { withTransaction } from "./db-utils.js";
+import { moveOrganizerLinks } from "./organizers.js";
+
+/**
+ * Post-extraction dedup.
+ *
+ * Two unrelated posts about the same lomba (different posters, different
+ * captions) only become recognisable once extraction has filled title,
+ * organizer and endDate. A competition matches another when its
+ * normalized title and endDate are equal and they share an organizer.
+ * The richer values of both rows are merged into the canonical row and
+ * the other is marked as its duplicate, so WhatsApp sends the lomba once.
+ * Only drafts and published rows are matched (see lib/competition-status.ts).
+ */
+
+/** Competition fields used for matching and merging */
+export interface DedupCandidate {
+	id: number;
+	status: string | null;
+	title: string | null;
+	organizer: string[] | null;
+	endDate: Date | string | null;
+	whatsappChannel?: boolean | null;
+	[field: string]: unknown;
+}
+
+/** Outcome of deduplicating one competition */
+export interface DedupResult {
+	canonicalId: number;
+	duplicateId: number;
+	/** Fields copied or extended on the canonical row */
+	mergedFields: string[];
+}
+
+/** Words that vary between posts of the same lomba ("Lomba Esai X" vs "Esai X") */
+const TITLE_NOISE = new Set(["lomba", "kompetisi", "competition", "contest"]);
+
+/** Fields filled on the canonical row from its duplicate when missing */
+const MERGE_SCALARS: (keyof CompetitionRow)[] = [
+	"url",
+	"poster",
+	"startDate",
+	"format",
+	"participationType",
+	"location",
+	"contact",
+];
+
+/** Free-text fields where the longer value is kept */
+const MERGE_TEXT: (keyof CompetitionRow)[] = ["prizePool", "benefits"];
+
+/** JSON array fields whose values are combined */
+const MERGE_ARRAYS: (keyof CompetitionRow)[] = ["organizer", "categories", "level", "pricing", "posters"];
+
+function normalizeText(value: string): string {
+	return value
+		.normalize("NFKC")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim();
+}
+
+/** Lowercase title without punctuation or generic "lomba" words */
+export function normalizeTitle(title: string): string {
+	return normalizeText(title)
+		.split(" ")
+		.filter((word) => word && !TITLE_NOISE.has(word))
+		.join(" ");
+}
+
+function dateKey(value: Date | string | null): string | null {
+	if (!value) return null;
+	return value instanceof Date ? value.toISOString().slice(0, 10) : value.slice(0, 10);
+}
+
+function isEmpty(value: unknown): boolean {
+	return (
+		value === null ||
+		value === undefined ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0) ||
+		(typeof value === "object" && !Array.isArray(value) && Object.keys(value).length === 0)
+	);
+}
+
+/**
+ * Same lomba: equal normalized title and endDate, at least one shared organizer.
+ */
+export function isSameCompetition(a: DedupCandidate, b: DedupCandidate): boolean {
+	if (!a.title || !b.title || !dateKey(a.endDate) || dateKey(a.endDate) !== dateKey(b.endDate)) {
+		return false;
+	}
+	if (normalizeTitle(a.title) !== normalizeTitle(b.title)) return false;
+
+	const organizers = new Set((a.organizer ?? []).map(normalizeText));
+	return (b.organizer ?? []).some((org) => organizers.has(normalizeText(org)));
+}
+
+/** Preference of a row as canonical: sent to WhatsApp first, then published */
+function canonicalRank(candidate: DedupCandidate): number {
+	return (candidate.whatsappChannel === true ? 2 : 0) + (candidate.status === "published" ? 1 : 0);
+}
+
+/**
+ * Row that survives: one already sent to WhatsApp, then a published one,
+ * otherwise the older one.
+ */
+export function pickCanonical<T extends DedupCandidate>(a: T, b: T): [canonical: T, duplicate: T] {
+	const aRank = canonicalRank(a);
+	const bRank = canonicalRank(b);
+	if (aRank !== bRank) return aRank > bRank ? [a, b] : [b, a];
+	return a.id <= b.id ? [a, b] : [b, a];
+}
+
+/**
+ * Update for the canonical row taking the richer values of the duplicate:
+ * missing fields are filled, arrays are combined, the longer text wins.
+ * Only changed fields are returned.
+ */
+export function mergeCompetitionFields(
+	canonical: DedupCandidate,
+	duplicate: DedupCandidate,
+): Record<string, unknown> {
+	const updates: Record<string, unknown> = {};
+
+	for (const field of MERGE_SCALARS) {
+		if (isEmpty(canonical[field]) && !isEmpty(duplicate[field])) {
+			updates[field] = duplicate[field];
+		}
+	}
+
+	for (const field of MERGE_TEXT) {
+		const ours = typeof canonical[field] === "string" ? (canonical[field] as string) : "";
+		const theirs = typeof duplicate[field] === "string" ? (duplicate[field] as string) : "";
+		if (theirs.trim().length > ours.trim().length) {
+			updates[field] = theirs;
+		}
+	}
+
+	for (const field of MERGE_ARRAYS) {
+		const ours = Array.isArray(canonical[field]) ? (canonical[field] as unknown[]) : [];
+		const theirs = Array.isArray(duplicate[field]) ? (duplicate[field] as unknown[]) : [];
+		// Slides of two different posters are not interleaved, only a missing set is taken
+		if (field === "posters") {
+			if (ours.length === 0 && theirs.length > 0) updates[field] = theirs;
+			continue;
+		}
+		const combined = [...new Set([...ours, ...theirs])];
+		if (combined.length > ours.length) {
+			updates[field] = combined;
+		}
+	}
+
+	return updates;
+}
+
+/**
+ * Look for an extracted competition matching `id`; when found, merge the
+ * pair into the canonical row and mark the other as its duplicate.
+ * Source mentions, organizer links and earlier duplicates move to the
+ * canonical row. The merge is one transaction with both rows locked, so
+ * it either completes or leaves both rows as they were.
+ */
+export async function dedupCompetition(
+	sql: Sql<Record<string, never>>,
+	id: number,
+): Promise<DedupResult | null> {
+	const [current] = await sql<DedupCandidate[]>`
+    SELECT * FROM competitions
+    WHERE id = ${id} AND "duplicateOf" IS NULL AND status IN ('draft', 'published')
+  `;
+	const endDate = current ? dateKey(current.endDate) : null;
+	if (!current?.title || !endDate || isEmpty(current.organizer)) return null;
+
+	const candidates = await sql<DedupCandidate[]>`
+    SELECT * FROM competitions
+    WHERE "endDate" = ${endDate}
+      AND id <> ${id}
+      AND "duplicateOf" IS NULL
+      AND status IN ('draft', 'published')
+    ORDER BY id
+  `;
+	const match = candidates.find((candidate) => isSameCompetition(current, candidate));
+	if (!match) return null;
+
+	return await withTransaction(sql, async (tx) => {
+		// Locked in id order; re-read, since either row may have changed since the lookup
+		const locked = await tx<DedupCandidate[]>`
+      SELECT * FROM competitions
+      WHERE id IN ${tx([current.id, match.id])}
+      ORDER BY id
+      FOR UPDATE
+    `;
+		const [a, b] = locked;
+		const live = (row: DedupCandidate | undefined): row is DedupCandidate =>
+			!!row && row.duplicateOf === null && (row.status === "draft" || row.status === "published");
+		if (!live(a) || !live(b) || !isSameCompetition(a, b)) return null;
+
+		const [canonical, duplicate] = pickCanonical(a, b);
+
+		// Guarded like any other transition
+		const transition = await transitionStatus(tx, duplicate.id, "duplicate", { actor: "system" }, {
+			duplicateOf: canonical.id,
+		});
+		if (transition.outcome !== "changed") {
+			throw new Error(`Cannot mark competition ${duplicate.id} as duplicate (${transition.outcome})`);
+		}
+
+		const merged = mergeCompetitionFields(canonical, duplicate);
+		await applyCompetitionChanges(tx, canonical.id, merged, { actor: "system" });
+
+		await tx`
+      UPDATE source_mentions
+      SET "competitionId" = ${canonical.id},
+          "matchedBy" = CASE WHEN "matchedBy" = 'original' THEN 'extraction' ELSE "matchedBy" END
+      WHERE "competitionId" = ${duplicate.id}
+    `;
+		await moveOrganizerLinks(tx, duplicate.id, canonical.id);
+
+		return {
+			canonicalId: canonical.id,
+			duplicateId: duplicate.id,
+			mergedFields: Object.keys(merged),
+		};
+	});
+}
@@ -0,0 +1,225 @@
+import type postgres from "postgres";
+import type { Sql } from "postgres";
+import type { CompetitionChanges, CompetitionRow } from "../../schema.js";
+import { buildCompetitionChanges, toColumnValues, withTransaction } from "./db-utils.js";
+import type { AIExtractedData } from "./types.js";
+
+/**
+ * Field-level history of competitions.
+ *
+ * Field writes go through applyCompetitionChanges, which updates only the
+ * fields whose value actually changes and records one competition_revisions
+ * row per field: old value, new value, who changed it and in which run.
+ * Extraction records the provider each field came from, the admin API
+ * records "admin" (including reverts), dedup merges record "system".
+ * Status changes go through lib/competition-status.ts instead, which
+ * guards the lifecycle transitions and records them here too.
+ */
+
+/** Row of the competition_revisions table */
+export interface CompetitionRevision {
+	id: number;
+	competitionId: number;
+	field: keyof CompetitionRow;
+	/** JSON form of the value (dates as YYYY-MM-DD), null when the field was empty */
+	oldValue: unknown;
+	newValue: unknown;
+	/** Extraction provider id (see lib/extraction-providers.ts) or "bio", "ai", "admin" or "system" */
+	actor: string;
+	/** Inngest run that made the change, null outside extraction */
+	runId: string | null;
+	createdAt: Date;
+}
+
+/** A revision to record */
+export type NewRevision = Omit<CompetitionRevision, "id" | "createdAt">;
+
+/** Who is changing a competition */
+export interface RevisionContext {
+	/** Actor recorded for fields without an entry in fieldActors */
+	actor: string;
+	/** Per-field actor, e.g. the provider each field was extracted by */
+	fieldActors?: Record<string, string | null>;
+	runId?: string | null;
+}
+
+/** One changed field */
+export interface FieldChange {
+	field: keyof CompetitionRow;
+	oldValue: unknown;
+	newValue: unknown;
+}
+
+/** Calendar-date columns, compared and recorded as YYYY-MM-DD */
+const DATE_FIELDS = new Set<string>(["startDate", "endDate"]);
+
+/** JSON form of a field value as recorded in competition_revisions */
+export function revisionValue(field: string, value: unknown): unknown {
+	if (value === undefined || value === null || value === "") return null;
+	if (value instanceof Date) {
+		const iso = value.toISOString();
+		return DATE_FIELDS.has(field) ? iso.slice(0, 10) : iso;
+	}
+	if (typeof value === "string" && DATE_FIELDS.has(field)) return value.slice(0, 10);
+	return value;
+}
+
+/** JSON with sorted object keys, so JSONB round trips compare equal */
+function stableJson(value: unknown): string {
+	return JSON.stringify(value, (_key, inner) =>
+		inner && typeof inner === "object" && !Array.isArray(inner)
+			? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+			: inner,
+	);
+}
+
+/**
+ * Fields of `changes` whose value differs from `current`, with both values
+ * in their recorded JSON form.
+ */
+export function diffFields(
+	current: Partial<Record<keyof CompetitionRow, unknown>>,
+	changes: CompetitionChanges,
+): FieldChange[] {
+	const changed: FieldChange[] = [];
+	for (const field of Object.keys(changes) as (keyof CompetitionRow)[]) {
+		const oldValue = revisionValue(field, current[field]);
+		const newValue = revisionValue(field, changes[field]);
+		if (stableJson(oldValue) !== stableJson(newValue)) {
+			changed.push({ field, oldValue, newValue });
+		}
+	}
+	return changed;
+}
+
+/**
+ * Update the fields of a competition that actually change and record a
+ * revision for each, in one transaction. Returns the changed fields; empty
+ * when nothing changed or the competition does not exist.
+ */
+export async function applyCompetitionChanges(
+	sql: Sql<Record<string, never>>,
+	id: number,
+	changes: CompetitionChanges,
+	context: RevisionContext,
+): Promise<FieldChange[]> {
+	const fields = Object.keys(changes);
+	if (fields.length === 0) return [];
+	if ("status" in changes || "duplicateOf" in changes) {
+		throw new Error("Competition status and duplicateOf are changed through transitionStatus (lib/competition-status.ts)");
+	}
+
+	return await withTransaction(sql, async (tx) => {
+		const [current] = await tx<Partial<CompetitionRow>[]>`
+      SELECT ${tx(fields)} FROM competitions WHERE id = ${id} FOR UPDATE
+    `;
+		if (!current) return [];
+
+		const changed = diffFields(current, changes);
+		if (changed.length === 0) return [];
+
+		const updates = Object.fromEntries(changed.map(({ field }) => [field, changes[field]]));
+		await tx`
+      UPDATE competitions
+      SET ${tx(toColumnValues(tx, updates))}
+      WHERE id = ${id}
+    `;
+
+		await recordRevisions(
+			tx,
+			changed.map(({ field, oldValue, newValue }) => ({
+				competitionId: id,
+				field,
+				oldValue,
+				newValue,
+				actor: context.fieldActors?.[field] ?? context.actor,
+				runId: context.runId ?? null,
+			})),
+		);
+		return changed;
+	});
+}
+
+/**
+ * Insert revisions, values as JSONB.
+ */
+export async function recordRevisions(
+	sql: Sql<Record<string, never>>,
+	revisions: readonly NewRevision[],
+): Promise<void> {
+	if (revisions.length === 0) return;
+
+	const json = (value: unknown) => (value === null ? null : sql.json(value as postgres.JSONValue));
+	const rows = revisions.map((revision) => ({
+		...revision,
+		oldValue: json(revision.oldValue),
+		newValue: json(revision.newValue),
+	}));
+	await sql`
+    INSERT INTO competition_revisions ${sql(rows, "competitionId", "field", "oldValue", "newValue", "actor", "runId")}
+  `;
+}
+
+/**
+ * Write AI-extracted data to a competition, recording what changed.
+ */
+export async function updateCompetition(
+	sql: Sql<Record<string, never>>,
+	id: number,
+	ai: Partial<AIExtractedData>,
+	context: RevisionContext,
+): Promise<FieldChange[]> {
+	return await applyCompetitionChanges(sql, id, buildCompetitionChanges(ai), context);
+}
+
+/**
+ * History of a competition, newest first.
+ */
+export async function getCompetitionRevisions(
+	sql: Sql<Record<string, never>>,
+	competitionId: number,
+): Promise<CompetitionRevision[]> {
+	return await sql<CompetitionRevision[]>`
+    SELECT id, "competitionId", field, "oldValue", "newValue", actor, "runId", "createdAt"
+    FROM competition_revisions
+    WHERE "competitionId" = ${competitionId}
+    ORDER BY id DESC
+  `;
+}
+
+/** Result of revertRevision */
+export type RevertOutcome =
+	| { outcome: "reverted"; revision: CompetitionRevision; changes: FieldChange[] }
+	/** Status and duplicateOf revisions: the lifecycle only moves forward */
+	| { outcome: "not-revertible"; revision: CompetitionRevision }
+	| { outcome: "not-found" };
+
+/**
+ * Set a field back to the value it had before `revisionId`. The revert is
+ * itself recorded as a revision. Status (and duplicateOf) revisions are
+ * not reverted; those go through lib/competition-status.ts.
+ */
+export async function revertRevision(
+	sql: Sql<Record<string, never>>,
+	competitionId: number,
+	revisionId: number,
+	context: RevisionContext,
+): Promise<RevertOutcome> {
+	const [revision] = await sql<CompetitionRevision[]>`
+    SELECT id, "competitionId", field, "oldValue", "newValue", actor, "runId", "createdAt"
+    FROM competition_revisions
+    WHERE id = ${revisionId} AND "competitionId" = ${competitionId}
+  `;
+	if (!revision) return { outcome: "not-found" };
+	if (revision.field === "status" || revision.field === "duplicateOf") {
+		return { outcome: "not-revertible", revision };
+	}
+
+	const changes = await applyCompetitionChanges(
+		sql,
+		competitionId,
+		{ [revision.field]: revision.oldValue },
+		context,
+	);
+	return { outcome: "reverted", revision, changes };
+}
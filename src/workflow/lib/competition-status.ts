@@ -0,0 +1,249 @@
+import type { Sql } from "postgres";
+import type { CompetitionRow } from "../../schema.js";
+import { recordRevisions, type RevisionContext } from "./competition-revisions.js";
+import { withTransaction } from "./db-utils.js";
+
+/**
+ * Competition lifecycle.
+ *
+ *   draft ──► published ──► archived
+ *     │  │        │
+ *     │  └────────┴──► duplicate
+ *     └──────────────► archived   (expired before it was published)
+ *
+ * Rows are inserted as draft (linked reposts as duplicate). Extraction
+ * publishes a draft once it passed schema validation. Every move to
+ * published, the admin API's included, needs the required fields; every
+ * move to duplicate names the canonical row (duplicateOf). The daily
+ * archive job (workers/competition-archive.ts) archives drafts and
+ * published rows whose endDate has passed. WhatsApp sending only picks
+ * published rows. Duplicate and archived are final.
+ *
+ * Every transition is recorded in competition_revisions (field "status").
+ */
+
+export const COMPETITION_STATUSES = ["draft", "published", "archived", "duplicate"] as const;
+
+export type CompetitionStatus = (typeof COMPETITION_STATUSES)[number];
+
+/** Allowed transitions, by current status */
+const TRANSITIONS: Record<CompetitionStatus, readonly CompetitionStatus[]> = {
+	draft: ["published", "duplicate", "archived"],
+	published: ["duplicate", "archived"],
+	duplicate: [],
+	archived: [],
+};
+
+/** Fields a competition needs before it is published (and sent to WhatsApp) */
+export const REQUIRED_FIELDS = ["title", "poster", "endDate"] as const;
+
+export type RequiredField = (typeof REQUIRED_FIELDS)[number];
+
+/** Result of transitionStatus */
+export type TransitionOutcome =
+	| { outcome: "changed"; from: CompetitionStatus }
+	| { outcome: "unchanged"; from: CompetitionStatus }
+	| { outcome: "invalid"; from: CompetitionStatus }
+	/** Publishing without the required fields, or a duplicate without an existing duplicateOf */
+	| { outcome: "incomplete"; from: CompetitionStatus; missing: (RequiredField | "duplicateOf")[] }
+	/** duplicateOf does not exist or resolves to the competition itself */
+	| { outcome: "invalid-duplicate-of"; from: CompetitionStatus }
+	| { outcome: "not-found" };
+
+/** Extra values of a transition */
+export interface TransitionOptions {
+	/** Canonical competition, required when moving to duplicate */
+	duplicateOf?: number;
+}
+
+/** Statuses the archive job moves to archived */
+const ARCHIVABLE = COMPETITION_STATUSES.filter((status) => TRANSITIONS[status].includes("archived"));
+
+export function isCompetitionStatus(value: unknown): value is CompetitionStatus {
+	return COMPETITION_STATUSES.includes(value as CompetitionStatus);
+}
+
+export function canTransition(from: CompetitionStatus, to: CompetitionStatus): boolean {
+	return TRANSITIONS[from].includes(to);
+}
+
+/** Required fields that are empty */
+export function missingRequiredFields(row: Pick<CompetitionRow, RequiredField>): RequiredField[] {
+	return REQUIRED_FIELDS.filter((field) => {
+		const value = row[field];
+		return value === null || (typeof value === "string" && value.trim() === "");
+	});
+}
+
+/** Set the status of a locked row (and duplicateOf for a duplicate) and record the transition */
+async function setStatus(
+	sql: Sql<Record<string, never>>,
+	row: Pick<CompetitionRow, "id" | "status" | "duplicateOf">,
+	to: CompetitionStatus,
+	context: RevisionContext,
+	duplicateOf: number | null = row.duplicateOf,
+): Promise<void> {
+	await sql`
+    UPDATE competitions
+    SET status = ${to}, "duplicateOf" = ${duplicateOf}, "updatedAt" = NOW()
+    WHERE id = ${row.id}
+  `;
+	const revision = { competitionId: row.id, actor: context.actor, runId: context.runId ?? null };
+	await recordRevisions(sql, [
+		{ ...revision, field: "status", oldValue: row.status, newValue: to },
+		...(duplicateOf !== row.duplicateOf
+			? [{ ...revision, field: "duplicateOf" as const, oldValue: row.duplicateOf, newValue: duplicateOf }]
+			: []),
+	]);
+}
+
+/**
+ * Move a competition to `to` when the lifecycle allows it. Publishing
+ * needs every required field; a duplicate needs `duplicateOf`, an
+ * existing competition other than itself. A duplicateOf that is itself a
+ * duplicate is resolved to its canonical row, and the competition's own
+ * duplicates are repointed there, so every duplicate names a canonical row.
+ */
+export async function transitionStatus(
+	sql: Sql<Record<string, never>>,
+	id: number,
+	to: CompetitionStatus,
+	context: RevisionContext,
+	options: TransitionOptions = {},
+): Promise<TransitionOutcome> {
+	return await withTransaction(sql, async (tx) => {
+		const [row] = await tx<Pick<CompetitionRow, "id" | "status" | "duplicateOf" | RequiredField>[]>`
+      SELECT id, status, "duplicateOf", title, poster, "endDate"
+      FROM competitions
+      WHERE id = ${id}
+      FOR UPDATE
+    `;
+		if (!row) return { outcome: "not-found" };
+
+		const from = row.status;
+		if (from === to) return { outcome: "unchanged", from };
+		if (!canTransition(from, to)) return { outcome: "invalid", from };
+
+		if (to === "published") {
+			const missing = missingRequiredFields(row);
+			if (missing.length > 0) return { outcome: "incomplete", from, missing };
+		}
+
+		if (to === "duplicate") {
+			if (options.duplicateOf === undefined) return { outcome: "incomplete", from, missing: ["duplicateOf"] };
+
+			const [target] = await tx<Pick<CompetitionRow, "id" | "status" | "duplicateOf">[]>`
+        SELECT id, status, "duplicateOf"
+        FROM competitions
+        WHERE id = ${options.duplicateOf}
+        FOR UPDATE
+      `;
+			const canonicalId = target?.status === "duplicate" ? target.duplicateOf : target?.id;
+			if (!canonicalId || canonicalId === id) return { outcome: "invalid-duplicate-of", from };
+
+			await setStatus(tx, row, to, context, canonicalId);
+			await repointDuplicates(tx, id, canonicalId, context);
+			return { outcome: "changed", from };
+		}
+
+		await setStatus(tx, row, to, context);
+		return { outcome: "changed", from };
+	});
+}
+
+/**
+ * Point the duplicates of `fromId` at `toId` after `fromId` itself became
+ * a duplicate of `toId` (transitionStatus does this for every move to
+ * duplicate). Returns the repointed ids.
+ */
+async function repointDuplicates(
+	sql: Sql<Record<string, never>>,
+	fromId: number,
+	toId: number,
+	context: RevisionContext,
+): Promise<number[]> {
+	const rows = await sql<Pick<CompetitionRow, "id">[]>`
+    UPDATE competitions
+    SET "duplicateOf" = ${toId}, "updatedAt" = NOW()
+    WHERE "duplicateOf" = ${fromId} AND status = 'duplicate'
+    RETURNING id
+  `;
+	await recordRevisions(
+		sql,
+		rows.map((row) => ({
+			competitionId: row.id,
+			field: "duplicateOf",
+			oldValue: fromId,
+			newValue: toId,
+			actor: context.actor,
+			runId: context.runId ?? null,
+		})),
+	);
+	return rows.map((row) => row.id);
+}
+
+/**
+ * Publish a draft that has every required field. Returns whether it was
+ * published and, for drafts left as they are, the fields still missing.
+ * Rows that are not drafts are left alone.
+ */
+export async function publishCompetition(
+	sql: Sql<Record<string, never>>,
+	id: number,
+	context: RevisionContext,
+): Promise<{ published: boolean; missing: RequiredField[] }> {
+	return await withTransaction(sql, async (tx) => {
+		const [row] = await tx<Pick<CompetitionRow, "id" | "status" | "duplicateOf" | RequiredField>[]>`
+      SELECT id, status, "duplicateOf", title, poster, "endDate"
+      FROM competitions
+      WHERE id = ${id}
+      FOR UPDATE
+    `;
+		if (row?.status !== "draft") return { published: false, missing: [] };
+
+		const missing = missingRequiredFields(row);
+		if (missing.length > 0) return { published: false, missing };
+
+		await setStatus(tx, row, "published", context);
+		return { published: true, missing };
+	});
+}
+
+/**
+ * Archive every draft and published competition whose endDate has passed.
+ * Returns the expired rows; with `dryRun` nothing is changed.
+ */
+export async function archiveExpiredCompetitions(
+	sql: Sql<Record<string, never>>,
+	options: { dryRun?: boolean } = {},
+): Promise<Pick<CompetitionRow, "id" | "status" | "endDate">[]> {
+	return await withTransaction(sql, async (tx) => {
+		const expired = await tx<Pick<CompetitionRow, "id" | "status" | "endDate">[]>`
+      SELECT id, status, "endDate"
+      FROM competitions
+      WHERE status IN ${tx(ARCHIVABLE)}
+        AND "endDate" < CURRENT_DATE
+      ORDER BY id
+      FOR UPDATE
+    `;
+		if (options.dryRun || expired.length === 0) return expired;
+
+		await tx`
+      UPDATE competitions
+      SET status = 'archived', "updatedAt" = NOW()
+      WHERE id IN ${tx(expired.map((row) => row.id))}
+    `;
+		await recordRevisions(
+			tx,
+			expired.map((row) => ({
+				competitionId: row.id,
+				field: "status",
+				oldValue: row.status,
+				newValue: "archived",
+				actor: "system",
+				runId: null,
+			})),
+		);
+		return expired;
+	});
+}
@@ -2,7 +2,13 @@
  * Centralized configuration management
  */
 
-/** Instagram accounts to scrape for competition posts */
+import type { PostSource } from "./types.js";
+
+/**
+ * Instagram accounts to scrape for competition posts.
+ * Seeds the `sources` table on first run; after that accounts are managed
+ * through /api/sources. Also used when the database is unavailable.
+ */
 const IG_LOMBA = [
   "infolomba.indonesia.id",
   "lomba_mahasiswa",
@@ -15,6 +21,9 @@ const IG_LOMBA = [
   // "lombasma"
 ] as const;
 
+/** Default cron schedule for scraper sources (matches wrangler.jsonc triggers) */
+export const DEFAULT_SOURCE_SCHEDULE = "0 */6 * * *";
+
 /** Retry configuration for API calls */
 export interface RetryConfig {
   maxAttempts: number;
@@ -23,10 +32,35 @@ export interface RetryConfig {
   requestTimeoutMs: number;
 }
 
+/** Retry policy applied by the parallel pipeline around a source's scrape() */
+export interface SourceRetryPolicy {
+  /** Scrape attempts per run before giving up */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Treat a scrape returning 0 posts as a failed attempt */
+  retryOnEmpty: boolean;
+}
+
 /** Instagram scraper configuration */
 export interface InstagramConfig {
+  enabled: boolean;
+  schedule: string;
+  retry: SourceRetryPolicy;
+  /** Seed and fallback account list (see IG_LOMBA) */
   accounts: readonly string[];
+  /** Disable an account after this many consecutive non-retryable failures */
+  autoDisableAfterFailures: number;
+  /** Posts taken from an account on its first (cursorless) run */
   imageLimit: number;
+  /** Posts fetched per account when following a cursor or backfilling (profile API returns at most 12) */
+  maxPostsPerAccount: number;
+  /** Default backfill window for accounts requested with mode "backfill" */
+  backfillDays: number;
+  /** Carousel slides kept per post (uploaded and OCR'd) */
+  maxCarouselSlides: number;
+  /** Fetch the account's bio links for "link di bio" posts (see lib/bio-links.ts) */
+  expandBioLinks: boolean;
   maxRetries: number;
   minDelay: number;
   maxDelay: number;
@@ -35,28 +69,211 @@ export interface InstagramConfig {
   retryDelayMs: number;
 }
 
-/** Web scraping source configuration */
-export interface WebScrapingSource {
+/** Cheerio selectors describing a blog-style listing page and its detail pages */
+export interface WebScrapingSelectors {
+  /** List-item selectors, tried in order (earlier selectors take priority) */
+  item: string[];
+  /** Title element inside an item */
+  title: string;
+  /** Skip items whose title is empty (default true) */
+  requireTitle?: boolean;
+  /** Anchor inside an item holding the post link (defaults to `title`) */
+  link?: string;
+  /** Element inside an item holding the poster */
+  image: string;
+  /** Attribute with the image URL, or "background-image" to read it from the inline style (default "src") */
+  imageAttr?: string;
+  /** Detail-page description selectors, tried in order */
+  description: string[];
+  /** Skip description candidates shorter than this */
+  descriptionMinLength?: number;
+  /** Truncate descriptions to this length */
+  descriptionMaxLength?: number;
+}
+
+/** Regex rewrite applied to scraped image URLs (e.g. thumbnail → full size) */
+export interface ImageRewrite {
+  pattern: string;
+  replacement: string;
+}
+
+/** How to reach older listing pages */
+export interface WebScrapingPagination {
+  /** Selector for the "next page" / "older posts" link */
+  next?: string;
+  /** Query parameter carrying the page number (e.g. "page" → ?page=2), used when `next` finds nothing */
+  pageParam?: string;
+  /** Hard cap on listing pages fetched per run */
+  maxPages: number;
+}
+
+/** Fields shared by every web source */
+interface WebScrapingSourceBase {
   name: string;
   url: string;
+  /** Posts taken on a first crawl (no high-water mark yet) or when no database is available */
   imageLimit: number;
+  imageRewrite?: ImageRewrite;
+  enabled: boolean;
+  /** Cron expression this source runs on */
+  schedule: string;
+  /** Overrides webScraping.retry for this source */
+  retry?: SourceRetryPolicy;
+}
+
+/** Blog-style HTML source scraped with cheerio selectors */
+export interface HtmlScrapingSource extends WebScrapingSourceBase {
+  kind: "html";
+  selectors: WebScrapingSelectors;
+  /** Follow older pages until a known post is reached (front page only when absent) */
+  pagination?: WebScrapingPagination;
+}
+
+/** RSS, Atom or Blogger JSON feed (`url` is the feed URL) */
+export interface FeedScrapingSource extends WebScrapingSourceBase {
+  kind: "feed";
+  /** Truncate descriptions to this length */
+  descriptionMaxLength?: number;
 }
 
+/** Web scraping source configuration */
+export type WebScrapingSource = HtmlScrapingSource | FeedScrapingSource;
+
 /** Web scraping configuration */
 export interface WebScrapingConfig {
   enabled: boolean;
+  /** Default retry policy for web sources */
+  retry: SourceRetryPolicy;
   sources: WebScrapingSource[];
 }
 
-/** R2 storage configuration */
-export interface R2Config {
+/** Source health tracking and quarantine (see lib/source-health.ts) */
+export interface SourceHealthConfig {
+  /** Quarantine a source after this many consecutive runs with an empty listing */
+  quarantineAfterEmptyRuns: number;
+  /** While quarantined, let one probe run through this often */
+  quarantineProbeHours: number;
+}
+
+/** Ingestion dedup of reposts (see lib/poster-hash.ts, lib/caption-similarity.ts) */
+export interface DedupConfig {
+  /** Posters whose dHashes differ in at most this many bits are the same poster */
+  posterHashMaxDistance: number;
+  /** "skip" drops a reposted poster, "link" stores it as a duplicate of the original row */
+  posterDuplicateAction: "skip" | "link";
+  /** Captions with at least this trigram Jaccard similarity are the same lomba */
+  captionSimilarityThreshold: number;
+  /** Normalized captions shorter than this are never fuzzy-matched */
+  captionMinLength: number;
+  /** Number of most recent competitions captions are compared against */
+  captionCompareLimit: number;
+  /** Number of most recent canonical competitions posters are compared against */
+  posterCompareLimit: number;
+}
+
+/** Registration link checks (see lib/link-resolver.ts) */
+export interface LinkCheckConfig {
+  /** Per-request timeout, a link that does not answer counts as broken */
+  timeoutMs: number;
+  /** Longer redirect chains are treated as broken */
+  maxRedirects: number;
+  userAgent: string;
+}
+
+/** Poster variants rendered with the Cloudflare Images binding */
+export interface PosterImageConfig {
+  /** Posters wider than this are scaled down (JPEG and WebP variants) */
+  maxWidth: number;
+  thumbWidth: number;
+  jpegQuality: number;
+  webpQuality: number;
+}
+
+/** Where posters are stored (see lib/poster-store.ts) */
+export type PosterStoreDriver = "r2" | "s3" | "fs";
+
+/** S3-compatible bucket credentials (R2's S3 API, MinIO, AWS) */
+export interface S3StoreConfig {
   endpoint: string;
   bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/** Poster storage configuration */
+export interface PosterStoreConfig {
+  /** r2: MY_BUCKET binding (Workers), s3: S3 API, fs: local directory (scripts, tests) */
+  driver: PosterStoreDriver;
+  /** Base URL stored objects are served from */
   publicUrl: string;
+  s3: S3StoreConfig;
+  /** Directory used by the fs driver */
+  fsRoot: string;
+}
+
+/** Poster upload configuration (step 2) */
+export interface R2Config {
   maxAttempts: number;
   baseDelayMs: number;
   maxDelayMs: number;
   requestTimeoutMs: number;
+  images: PosterImageConfig;
+}
+
+/** R2 poster cleanup job (see lib/poster-gc.ts) */
+export interface PosterGcConfig {
+  /** Cron trigger the job runs on (must be listed in wrangler.jsonc) */
+  schedule: string;
+  /** Report only: nothing is deleted or moved, orphans are still recorded */
+  dryRun: boolean;
+  /** Objects are deleted once unreferenced for this many days */
+  graceDays: number;
+  /** Cap on deletions per run */
+  maxDeletesPerRun: number;
+  /** Move posters only used by archived competitions under coldPrefix */
+  archiveToCold: boolean;
+  coldPrefix: string;
+}
+
+/** Repair job for posters whose upload failed (see workers/poster-repair.ts) */
+export interface PosterRepairConfig {
+  /** Cron trigger the job runs on (must be listed in wrangler.jsonc) */
+  schedule: string;
+  /** Competitions repaired per run */
+  batchSize: number;
+  /** Give up on a competition after this many failed repairs */
+  maxAttempts: number;
+  /** Timeout for re-resolving the source post */
+  timeoutMs: number;
+}
+
+/** Provider ids tried in order for one input; the first valid result wins */
+export interface ExtractionChainConfig {
+  /** Caption providers */
+  text: string[];
+  /** Poster providers, run per slide */
+  image: string[];
+}
+
+/** AI extraction (step 4, see lib/extraction-providers.ts) */
+export interface ExtractionConfig {
+  /** Provider chain per post source; rows without a known source use instagram */
+  chains: Record<PostSource, ExtractionChainConfig>;
+  /** Provider ids left out of every chain (EXTRACTION_DISABLED_PROVIDERS, comma-separated) */
+  disabledProviders: string[];
+}
+
+/** Organizer matching (see lib/organizers.ts) */
+export interface OrganizerConfig {
+  /** Names with at least this trigram Jaccard similarity are the same organizer */
+  similarityThreshold: number;
+}
+
+/** Daily job archiving expired competitions (see workers/competition-archive.ts) */
+export interface CompetitionArchiveConfig {
+  /** Cron trigger the job runs on (must be listed in wrangler.jsonc) */
+  schedule: string;
 }
 
 /** WhatsApp configuration */
@@ -77,7 +294,16 @@ export interface DbConfig {
 export interface AppConfig {
   instagram: InstagramConfig;
   webScraping: WebScrapingConfig;
+  sourceHealth: SourceHealthConfig;
+  dedup: DedupConfig;
+  extraction: ExtractionConfig;
+  organizers: OrganizerConfig;
+  linkCheck: LinkCheckConfig;
   r2: R2Config;
+  posterStore: PosterStoreConfig;
+  posterGc: PosterGcConfig;
+  posterRepair: PosterRepairConfig;
+  competitionArchive: CompetitionArchiveConfig;
   whatsapp: WhatsAppConfig;
   db: DbConfig;
 }
@@ -97,6 +323,15 @@ function getEnvVar(
   return (value ?? defaultValue) as string;
 }
 
+const POSTER_STORE_DRIVERS: readonly PosterStoreDriver[] = ["r2", "s3", "fs"];
+
+function parsePosterStoreDriver(value: string): PosterStoreDriver {
+  if (!POSTER_STORE_DRIVERS.includes(value as PosterStoreDriver)) {
+    throw new Error(`Invalid POSTER_STORE "${value}", expected one of: ${POSTER_STORE_DRIVERS.join(", ")}`);
+  }
+  return value as PosterStoreDriver;
+}
+
 /** Configuration validation result */
 export interface ValidationResult {
   valid: boolean;
@@ -123,8 +358,22 @@ export function createConfig(
 
   return {
     instagram: {
+      enabled: true,
+      schedule: DEFAULT_SOURCE_SCHEDULE,
+      // scrape() already retries rate-limited accounts internally
+      retry: {
+        maxAttempts: 1,
+        baseDelayMs: 5000,
+        maxDelayMs: 60000,
+        retryOnEmpty: false,
+      },
       accounts: IG_LOMBA,
+      autoDisableAfterFailures: 5,
       imageLimit: 4,
+      maxPostsPerAccount: 12,
+      backfillDays: 30,
+      maxCarouselSlides: 5,
+      expandBioLinks: true,
       maxRetries: 1,
       minDelay: 500,
       maxDelay: 1000,
@@ -134,33 +383,132 @@ export function createConfig(
     },
     webScraping: {
       enabled: true,
+      retry: {
+        maxAttempts: 3,
+        baseDelayMs: 5000,
+        maxDelayMs: 60000,
+        retryOnEmpty: true,
+      },
       sources: [
         {
+          kind: "html",
           name: "infolombaid",
           url: "https://infolomba.id/",
           imageLimit: 5,
+          selectors: {
+            // Regular events first, then the "most wanted" swiper slides
+            item: [
+              ".event-container",
+              ".swiper-slide .event-most-container, .event-most-container",
+            ],
+            title: "h4.event-title a",
+            image: "img",
+            description: [
+              "div.event-description-container",
+              "div.event-description",
+              "div.description",
+              "div.event-content",
+              "div.content",
+              "div.detail-description",
+              "div.post-content",
+            ],
+            descriptionMinLength: 50,
+            descriptionMaxLength: 2000,
+          },
+          pagination: { pageParam: "page", maxPages: 3 },
+          enabled: true,
+          schedule: DEFAULT_SOURCE_SCHEDULE,
         },
         {
+          // Blogger site: the JSON feed is far more stable than its HTML theme
+          kind: "feed",
           name: "infolombait",
-          url: "https://www.infolombait.com/",
+          url: "https://www.infolombait.com/feeds/posts/default?alt=json&max-results=25",
           imageLimit: 5,
+          enabled: true,
+          schedule: DEFAULT_SOURCE_SCHEDULE,
+          // Blogger serves resized thumbnails (/s72-c/), request the original
+          imageRewrite: { pattern: "/s\\d+(-c)?/", replacement: "/s1600/" },
         },
       ],
     },
+    sourceHealth: {
+      quarantineAfterEmptyRuns: 3,
+      quarantineProbeHours: 24,
+    },
+    dedup: {
+      posterHashMaxDistance: 6,
+      posterDuplicateAction: "link",
+      captionSimilarityThreshold: 0.8,
+      captionMinLength: 80,
+      captionCompareLimit: 2000,
+      posterCompareLimit: 5000,
+    },
+    extraction: {
+      chains: {
+        instagram: { text: ["zai"], image: ["mistral", "gemini"] },
+        web: { text: ["zai"], image: ["mistral", "gemini"] },
+      },
+      disabledProviders: getEnv("EXTRACTION_DISABLED_PROVIDERS", "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    },
+    organizers: {
+      similarityThreshold: 0.8,
+    },
+    linkCheck: {
+      timeoutMs: 10000,
+      maxRedirects: 5,
+      userAgent: "Mozilla/5.0",
+    },
     r2: {
-      endpoint: getEnv(
-        "R2_ENDPOINT",
-        "https://4c7c10d0a0b9ffcead7f92c375ec9f12.r2.cloudflarestorage.com",
-      ),
-      bucket: getEnv("R2_BUCKET", "bucket-competition"),
-      publicUrl: getEnv(
-        "R2_PUBLIC_URL",
-        "https://objectcompetition.wahyuikbal.com",
-      ),
       maxAttempts: 3,
       baseDelayMs: 1000,
       maxDelayMs: 10000,
       requestTimeoutMs: 30000,
+      images: {
+        maxWidth: 1080,
+        thumbWidth: 320,
+        jpegQuality: 85,
+        webpQuality: 80,
+      },
+    },
+    posterStore: {
+      driver: parsePosterStoreDriver(getEnv("POSTER_STORE", "r2")),
+      publicUrl: getEnv(
+        "R2_PUBLIC_URL",
+        "https://objectcompetition.wahyuikbal.com",
+      ),
+      s3: {
+        endpoint: getEnv(
+          "S3_ENDPOINT",
+          "https://4c7c10d0a0b9ffcead7f92c375ec9f12.r2.cloudflarestorage.com",
+        ),
+        bucket: getEnv("S3_BUCKET", "bucket-competition"),
+        region: getEnv("S3_REGION", "auto"),
+        accessKeyId: getEnv("S3_ACCESS_KEY_ID", ""),
+        secretAccessKey: getEnv("S3_SECRET_ACCESS_KEY", ""),
+      },
+      fsRoot: getEnv("POSTER_STORE_DIR", ".posters"),
+    },
+    posterGc: {
+      schedule: "30 19 * * *",
+      dryRun: getEnv("POSTER_GC_DRY_RUN", "true") !== "false",
+      graceDays: Number(getEnv("POSTER_GC_GRACE_DAYS", "30")),
+      maxDeletesPerRun: 1000,
+      archiveToCold: getEnv("POSTER_GC_ARCHIVE_TO_COLD", "false") === "true",
+      coldPrefix: "cold/",
+    },
+    posterRepair: {
+      schedule: "30 */6 * * *",
+      batchSize: 20,
+      maxAttempts: 5,
+      timeoutMs: 15000,
+    },
+    competitionArchive: {
+      // Right after midnight UTC, when CURRENT_DATE moves on
+      schedule: "5 0 * * *",
     },
     whatsapp: {
       baseUrl: "https://waha-qxjcatc8.sumopod.in",
@@ -193,14 +541,10 @@ export function validateConfig(
     missing.push("DATABASE_URL");
   }
 
-  // R2 credentials are optional but must both be set if one is
-  const hasR2KeyId = !!env.R2_ACCESS_KEY_ID;
-  const hasR2Secret = !!env.R2_SECRET_ACCESS_KEY;
-
-  if (hasR2KeyId !== hasR2Secret) {
-    missing.push(
-      "R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY (both required if one is set)",
-    );
+  // The S3 poster store cannot fall back to anything, credentials are required
+  if (env.POSTER_STORE === "s3") {
+    if (!env.S3_ACCESS_KEY_ID) missing.push("S3_ACCESS_KEY_ID");
+    if (!env.S3_SECRET_ACCESS_KEY) missing.push("S3_SECRET_ACCESS_KEY");
   }
 
   return {
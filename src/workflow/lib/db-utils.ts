@@ -1,51 +1,110 @@
-import type { Sql } from "postgres";
+import type { Sql, TransactionSql } from "postgres";
+import type { CompetitionChanges, CompetitionRow, CompetitionValues } from "../../schema.js";
 import type { AIExtractedData } from "./types.js";
+import { canonicalizeUrl } from "./url.js";
 
 /**
- * Build update object from AI-extracted data.
+ * Field changes from AI-extracted data, as plain values.
  * Only includes fields that are present (non-null/undefined).
  */
-export function buildUpdateObject(
-	ai: Partial<AIExtractedData>,
-	sql: Sql<Record<string, never>>,
-): Record<string, unknown> {
-	const updates: Record<string, unknown> = {};
-
-	if (ai.title) updates.title = ai.title;
-	if (ai.organizer) updates.organizer = sql.json(ai.organizer);
-	if (ai.categories) updates.categories = sql.json(ai.categories);
-	if (ai.level) updates.level = sql.json(ai.level);
-	if (ai.startDate) updates.startDate = ai.startDate;
-	if (ai.endDate) updates.endDate = ai.endDate;
-	if (ai.format) updates.format = ai.format;
-	if (ai.participationType) updates.participationType = ai.participationType;
-	if (ai.pricing) updates.pricing = sql.json(ai.pricing);
-	// if (ai.contact) updates.contact = sql.json(ai.contact);
-	if (ai.url) updates.url = ai.url;
-	if (ai.location) updates.location = ai.location;
-	if (ai.prizePool) updates.prizePool = ai.prizePool;
-	if (ai.benefits) updates.benefits = ai.benefits;
-
-	return updates;
+export function buildCompetitionChanges(ai: Partial<AIExtractedData>): CompetitionChanges {
+	const changes: CompetitionChanges = {};
+
+	if (ai.title) changes.title = ai.title;
+	if (ai.organizer) changes.organizer = ai.organizer;
+	if (ai.categories) changes.categories = ai.categories;
+	if (ai.level) changes.level = ai.level;
+	if (ai.startDate) changes.startDate = ai.startDate;
+	if (ai.endDate) changes.endDate = ai.endDate;
+	if (ai.format) changes.format = ai.format;
+	if (ai.participationType) changes.participationType = ai.participationType;
+	if (ai.pricing) changes.pricing = ai.pricing;
+	// if (ai.contact) changes.contact = ai.contact;
+	if (ai.url) changes.url = canonicalizeUrl(ai.url);
+	if (ai.location) changes.location = ai.location;
+	if (ai.prizePool) changes.prizePool = ai.prizePool;
+	if (ai.benefits) changes.benefits = ai.benefits;
+
+	return changes;
 }
 
 /**
- * Execute UPDATE query with built update object.
+ * Column values for `SET ${sql(values)}`: arrays and objects are sent as JSONB.
  */
-export async function updateCompetition(
+export function toColumnValues(
 	sql: Sql<Record<string, never>>,
-	id: number,
-	ai: Partial<AIExtractedData>,
-): Promise<void> {
-	const updates = buildUpdateObject(ai, sql);
+	changes: CompetitionChanges,
+): CompetitionValues {
+	const values: Record<string, unknown> = {};
+	for (const [field, value] of Object.entries(changes)) {
+		const isJson = typeof value === "object" && value !== null && !(value instanceof Date);
+		values[field] = isJson ? sql.json(value as Parameters<typeof sql.json>[0]) : value;
+	}
+	return values as CompetitionValues;
+}
 
-	if (Object.keys(updates).length === 0) {
-		return;
+/**
+ * Return the subset of `urls` already stored as competitions.urlsource.
+ * URLs are compared in canonical form, as insertToDb stores them.
+ */
+export async function findExistingUrlsources(
+	sql: Sql<Record<string, never>>,
+	urls: string[],
+): Promise<Set<string>> {
+	if (urls.length === 0) {
+		return new Set();
 	}
 
-	await sql`
-    UPDATE competitions
-    SET ${sql(updates)}
-    WHERE id = ${id}
+	const canonical = new Map(urls.map((url) => [url, canonicalizeUrl(url)]));
+	const rows = await sql<{ urlsource: string }[]>`
+    SELECT urlsource
+    FROM competitions
+    WHERE urlsource IN ${sql([...new Set(canonical.values())])}
+  `;
+	const stored = new Set(rows.map((r) => r.urlsource));
+	return new Set(urls.filter((url) => stored.has(canonical.get(url)!)));
+}
+
+/**
+ * Canonical competition id of each description already stored, keyed by
+ * the trimmed description. The oldest row wins. Uses the md5 expression
+ * index from migrations/0006, so only the batch's descriptions are read.
+ */
+export async function findCompetitionsByDescription(
+	sql: Sql<Record<string, never>>,
+	descriptions: readonly string[],
+): Promise<Map<string, number>> {
+	const ids = new Map<string, number>();
+	if (descriptions.length === 0) return ids;
+
+	const rows = await sql<Pick<CompetitionRow, "id" | "description" | "duplicateOf">[]>`
+    SELECT id, btrim(description, E' \\t\\r\\n') AS description, "duplicateOf"
+    FROM competitions
+    WHERE md5(btrim(description, E' \\t\\r\\n')) = ANY(
+      ARRAY(SELECT md5(value) FROM unnest(${sql.array([...descriptions])}::text[]) AS value)
+    )
+    ORDER BY id DESC
   `;
+	for (const row of rows) {
+		if (row.description) ids.set(row.description, row.duplicateOf ?? row.id);
+	}
+	return ids;
+}
+
+/**
+ * Run `fn` in a transaction, rolled back when it throws. Called with a
+ * transaction handle it runs in a savepoint, so helpers that open their
+ * own transaction can be composed into a larger one. postgres.js types
+ * the transaction handle without its call signature, so it is passed on
+ * as a plain Sql.
+ */
+export async function withTransaction<T>(
+	sql: Sql<Record<string, never>>,
+	fn: (tx: Sql<Record<string, never>>) => Promise<T>,
+): Promise<T> {
+	const tx = sql as unknown as Partial<TransactionSql<Record<string, never>>>;
+	if (typeof tx.savepoint === "function") {
+		return (await tx.savepoint((inner) => fn(inner as unknown as Sql<Record<string, never>>))) as T;
+	}
+	return (await sql.begin((inner) => fn(inner as unknown as Sql<Record<string, never>>))) as T;
 }
@@ -0,0 +1,91 @@
+import type { ExtractionConfig } from "./config.js";
+import {
+	geminiImageToText,
+	groqImageToText,
+	mistralOCR,
+	openrouterTextToText,
+	zaiImageToText,
+	zaiTextToText,
+} from "./model-function.js";
+import type { PostSource } from "./types.js";
+
+/**
+ * AI providers for step 4 extraction.
+ *
+ * A provider reads a post's caption (text) or one poster slide (image) and
+ * returns raw competition data, which extraction normalizes and validates.
+ * config.extraction.chains lists per post source which providers to try
+ * for each input, in order: the first valid result is used, the rest are
+ * fallbacks. Chains are reordered or trimmed in config, and providers
+ * switched off with EXTRACTION_DISABLED_PROVIDERS; a new model only needs
+ * an entry in EXTRACTION_PROVIDERS.
+ */
+
+/** What a provider reads */
+export type ProviderInput = "text" | "image";
+
+export interface ExtractionProvider {
+	/** Recorded in fieldSource, modelUsage and competition_revisions */
+	id: string;
+	input: ProviderInput;
+	/** Relative cost of one call (cheapest = 1), summed into the extraction log */
+	cost: number;
+	/** The call is aborted after this long */
+	timeoutMs: number;
+	/** Raw output for a caption (text) or poster URL (image) */
+	extract(content: string, signal: AbortSignal): Promise<unknown>;
+}
+
+/** Providers to try in order, per input */
+export type ExtractionChain = Record<ProviderInput, ExtractionProvider[]>;
+
+/** Calls per provider id */
+export type ModelUsage = Record<string, number>;
+
+export const EXTRACTION_PROVIDERS: Record<string, ExtractionProvider> = {
+	zai: { id: "zai", input: "text", cost: 1, timeoutMs: 60_000, extract: zaiTextToText },
+	openrouter: { id: "openrouter", input: "text", cost: 2, timeoutMs: 60_000, extract: openrouterTextToText },
+	mistral: { id: "mistral", input: "image", cost: 1, timeoutMs: 60_000, extract: mistralOCR },
+	gemini: { id: "gemini", input: "image", cost: 2, timeoutMs: 90_000, extract: geminiImageToText },
+	"zai-vision": { id: "zai-vision", input: "image", cost: 1, timeoutMs: 90_000, extract: zaiImageToText },
+	groq: { id: "groq", input: "image", cost: 1, timeoutMs: 60_000, extract: groqImageToText },
+};
+
+/**
+ * Provider chain of every post source. Throws on a provider id that does
+ * not exist or is listed under the wrong input, so a config typo fails the
+ * whole run instead of silently skipping extraction.
+ */
+export function resolveChains(
+	config: ExtractionConfig,
+	providers: Record<string, ExtractionProvider> = EXTRACTION_PROVIDERS,
+): Record<PostSource, ExtractionChain> {
+	const disabled = new Set(config.disabledProviders);
+	const resolve = (ids: readonly string[], input: ProviderInput): ExtractionProvider[] =>
+		ids
+			.filter((id) => !disabled.has(id))
+			.map((id) => {
+				const provider = providers[id];
+				if (!provider) {
+					throw new Error(`Unknown extraction provider "${id}" in config.extraction.chains`);
+				}
+				if (provider.input !== input) {
+					throw new Error(`Extraction provider "${id}" reads ${provider.input}, listed under ${input}`);
+				}
+				return provider;
+			});
+
+	const chains = {} as Record<PostSource, ExtractionChain>;
+	for (const [source, chain] of Object.entries(config.chains) as [PostSource, ExtractionConfig["chains"][PostSource]][]) {
+		chains[source] = { text: resolve(chain.text, "text"), image: resolve(chain.image, "image") };
+	}
+	return chains;
+}
+
+/** Relative cost of the calls in `usage` */
+export function usageCost(
+	usage: ModelUsage,
+	providers: Record<string, ExtractionProvider> = EXTRACTION_PROVIDERS,
+): number {
+	return Object.entries(usage).reduce((sum, [id, calls]) => sum + (providers[id]?.cost ?? 0) * calls, 0);
+}
@@ -0,0 +1,308 @@
+import type { Sql } from "postgres";
+import { withTransaction } from "./db-utils.js";
+
+/**
+ * Instagram accounts to scrape, stored in the `sources` table.
+ *
+ * The table is seeded from config.instagram.accounts on first use; after
+ * that accounts are added, disabled and reordered through /api/sources.
+ * Accounts that keep failing with non-retryable errors (deleted, renamed,
+ * private) are disabled automatically. The state changes are pure
+ * functions (applySource*, planSourceOrder); the queries lock the rows,
+ * apply them and write the result back.
+ */
+
+/** Row of the sources table */
+export interface InstagramSource {
+	username: string;
+	enabled: boolean;
+	/** Scrape order, lowest first */
+	priority: number;
+	notes: string | null;
+	lastSuccessAt: Date | null;
+	consecutiveFailures: number;
+	lastError: string | null;
+	/** Why the account was disabled automatically, null when disabled by hand */
+	disabledReason: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/** Editable fields of a source */
+export interface InstagramSourcePatch {
+	enabled?: boolean;
+	priority?: number;
+	notes?: string | null;
+}
+
+/** New scrape order, with the listed usernames that prevent it */
+export interface SourceOrderPlan {
+	/** Every stored username, listed ones first */
+	order: string[];
+	/** Listed more than once */
+	duplicates: string[];
+	/** Listed but not stored */
+	unknown: string[];
+}
+
+/** Outcome of reorderSources */
+export type ReorderOutcome =
+	| { outcome: "reordered"; sources: InstagramSource[] }
+	| { outcome: "invalid"; duplicates: string[]; unknown: string[] };
+
+/** Columns written back after a state change */
+const MUTABLE_COLUMNS = [
+	"enabled",
+	"priority",
+	"notes",
+	"lastSuccessAt",
+	"consecutiveFailures",
+	"lastError",
+	"disabledReason",
+	"updatedAt",
+] as const;
+
+/**
+ * Source after an admin edit. Enabling or disabling by hand clears the
+ * automatic disable reason; re-enabling also clears the failure streak.
+ */
+export function applySourcePatch(
+	source: InstagramSource,
+	patch: InstagramSourcePatch,
+	now: Date = new Date(),
+): InstagramSource {
+	return {
+		...source,
+		enabled: patch.enabled ?? source.enabled,
+		priority: patch.priority ?? source.priority,
+		notes: patch.notes === undefined ? source.notes : patch.notes,
+		consecutiveFailures: patch.enabled === true ? 0 : source.consecutiveFailures,
+		disabledReason: patch.enabled === undefined ? source.disabledReason : null,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Source after a successful scrape: the failure streak is cleared. An
+ * automatically disabled account stays disabled until enabled by hand.
+ */
+export function applySourceSuccess(source: InstagramSource, now: Date = new Date()): InstagramSource {
+	return {
+		...source,
+		lastSuccessAt: now,
+		consecutiveFailures: 0,
+		lastError: null,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Source after a non-retryable failure, disabled on its `disableAfter`th
+ * failure in a row.
+ */
+export function applySourceFailure(
+	source: InstagramSource,
+	error: string,
+	disableAfter: number,
+	now: Date = new Date(),
+): InstagramSource {
+	const consecutiveFailures = source.consecutiveFailures + 1;
+	const disable = source.enabled && consecutiveFailures >= disableAfter;
+	return {
+		...source,
+		consecutiveFailures,
+		lastError: error,
+		enabled: source.enabled && !disable,
+		disabledReason: disable
+			? `Disabled after ${disableAfter} consecutive failures: ${error}`
+			: source.disabledReason,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Scrape order for a reorder request: listed usernames first, unlisted
+ * ones keep their relative order after them. Only valid when no username
+ * is a duplicate or unknown.
+ */
+export function planSourceOrder(
+	stored: readonly string[],
+	usernames: readonly string[],
+): SourceOrderPlan {
+	const known = new Set(stored);
+	const seen = new Set<string>();
+	const duplicates = new Set<string>();
+	for (const username of usernames) {
+		if (seen.has(username)) duplicates.add(username);
+		seen.add(username);
+	}
+
+	return {
+		order: [...seen, ...stored.filter((username) => !seen.has(username))],
+		duplicates: [...duplicates],
+		unknown: [...seen].filter((username) => !known.has(username)),
+	};
+}
+
+/**
+ * Seed an empty sources table with the given usernames, in order.
+ * Does nothing once the table has rows, so removed accounts stay removed.
+ */
+export async function seedSources(
+	sql: Sql<Record<string, never>>,
+	usernames: readonly string[],
+): Promise<number> {
+	const [{ count }] = await sql<{ count: number }[]>`
+    SELECT COUNT(*)::int AS count FROM sources
+  `;
+	if (count > 0 || usernames.length === 0) return 0;
+
+	const rows = usernames.map((username, priority) => ({ username, priority }));
+	const inserted = await sql`
+    INSERT INTO sources ${sql(rows, "username", "priority")}
+    ON CONFLICT ("username") DO NOTHING
+    RETURNING "username"
+  `;
+	return inserted.length;
+}
+
+/**
+ * All sources in scrape order.
+ */
+export async function listSources(sql: Sql<Record<string, never>>): Promise<InstagramSource[]> {
+	return await sql<InstagramSource[]>`
+    SELECT * FROM sources
+    ORDER BY "priority" ASC, "createdAt" ASC
+  `;
+}
+
+/**
+ * Usernames of enabled sources in scrape order.
+ */
+export async function getEnabledUsernames(sql: Sql<Record<string, never>>): Promise<string[]> {
+	const rows = await sql<{ username: string }[]>`
+    SELECT "username" FROM sources
+    WHERE "enabled" = TRUE
+    ORDER BY "priority" ASC, "createdAt" ASC
+  `;
+	return rows.map((row) => row.username);
+}
+
+/**
+ * Add a source, placed last unless a priority is given.
+ * Returns null when the username already exists.
+ */
+export async function addSource(
+	sql: Sql<Record<string, never>>,
+	username: string,
+	{ enabled = true, priority, notes = null }: InstagramSourcePatch = {},
+): Promise<InstagramSource | null> {
+	const rows = await sql<InstagramSource[]>`
+    INSERT INTO sources ("username", "enabled", "priority", "notes")
+    VALUES (
+      ${username},
+      ${enabled},
+      ${priority ?? sql`(SELECT COALESCE(MAX("priority") + 1, 0) FROM sources)`},
+      ${notes}
+    )
+    ON CONFLICT ("username") DO NOTHING
+    RETURNING *
+  `;
+	return rows[0] ?? null;
+}
+
+/** Write a source's mutable columns back */
+async function saveSource(sql: Sql<Record<string, never>>, source: InstagramSource): Promise<void> {
+	await sql`
+    UPDATE sources SET ${sql(source, ...MUTABLE_COLUMNS)}
+    WHERE "username" = ${source.username}
+  `;
+}
+
+/**
+ * Lock a source, apply `change` and store the result.
+ * Returns null when the username does not exist.
+ */
+async function changeSource(
+	sql: Sql<Record<string, never>>,
+	username: string,
+	change: (source: InstagramSource) => InstagramSource,
+): Promise<InstagramSource | null> {
+	return await withTransaction(sql, async (tx) => {
+		const [source] = await tx<InstagramSource[]>`
+      SELECT * FROM sources WHERE "username" = ${username} FOR UPDATE
+    `;
+		if (!source) return null;
+
+		const next = change(source);
+		await saveSource(tx, next);
+		return next;
+	});
+}
+
+/**
+ * Update a source (see applySourcePatch).
+ * Returns null when the username does not exist.
+ */
+export async function updateSource(
+	sql: Sql<Record<string, never>>,
+	username: string,
+	patch: InstagramSourcePatch,
+): Promise<InstagramSource | null> {
+	return await changeSource(sql, username, (source) => applySourcePatch(source, patch));
+}
+
+/**
+ * Set the scrape order: listed usernames get priorities 0..n-1 in order,
+ * unlisted sources keep their relative order after them. Nothing changes
+ * when a username is listed twice or not stored.
+ */
+export async function reorderSources(
+	sql: Sql<Record<string, never>>,
+	usernames: readonly string[],
+): Promise<ReorderOutcome> {
+	return await withTransaction(sql, async (tx) => {
+		const stored = await tx<{ username: string }[]>`
+      SELECT "username" FROM sources
+      ORDER BY "priority" ASC, "createdAt" ASC
+      FOR UPDATE
+    `;
+		const plan = planSourceOrder(stored.map((row) => row.username), usernames);
+		if (plan.duplicates.length > 0 || plan.unknown.length > 0) {
+			return { outcome: "invalid", duplicates: plan.duplicates, unknown: plan.unknown };
+		}
+
+		await tx`
+      UPDATE sources
+      SET "priority" = o.ord - 1, "updatedAt" = NOW()
+      FROM unnest(${plan.order}::text[]) WITH ORDINALITY AS o("username", ord)
+      WHERE sources."username" = o."username"
+    `;
+		return { outcome: "reordered", sources: await listSources(tx) };
+	});
+}
+
+/**
+ * Record a successful scrape (see applySourceSuccess).
+ */
+export async function recordSourceSuccess(
+	sql: Sql<Record<string, never>>,
+	username: string,
+): Promise<void> {
+	await changeSource(sql, username, (source) => applySourceSuccess(source));
+}
+
+/**
+ * Record a non-retryable failure (see applySourceFailure). Returns the
+ * updated row, or null when the username is not a stored source.
+ */
+export async function recordSourceFailure(
+	sql: Sql<Record<string, never>>,
+	username: string,
+	error: string,
+	disableAfter: number,
+): Promise<InstagramSource | null> {
+	return await changeSource(sql, username, (source) =>
+		applySourceFailure(source, error, disableAfter),
+	);
+}
@@ -0,0 +1,135 @@
+import type { Sql } from "postgres";
+import type { LinkCheckConfig } from "./config.js";
+import { canonicalizeUrl } from "./url.js";
+
+/**
+ * Registration link checks.
+ *
+ * Extracted links are often short links (bit.ly, s.id, forms.gle) that may
+ * be dead, truncated by OCR or point at a closed Google Form. The resolver
+ * follows redirects hop by hop, records where the link ends up and flags
+ * broken links so they are never broadcast to WhatsApp.
+ */
+
+/** What a registration link points at */
+export type LinkType = "google-form" | "linktree" | "whatsapp" | "website";
+
+/** Outcome of resolving one link */
+export interface LinkCheck {
+	url: string;
+	/** URL after following redirects (last URL reached on failure) */
+	finalUrl: string;
+	/** HTTP status of the final response, null when no response arrived */
+	status: number | null;
+	type: LinkType;
+	/** Dead, unreachable or closed (Google Form no longer accepting responses) */
+	broken: boolean;
+	redirects: number;
+	error?: string;
+}
+
+/**
+ * Statuses that mean the link itself is gone. Other 4xx (401, 403, 429)
+ * usually come from bot protection on a live page, so they do not count.
+ */
+function isDeadStatus(status: number): boolean {
+	return status === 404 || status === 410 || status >= 500;
+}
+
+/** Domain type of a URL */
+export function classifyLink(url: string): LinkType {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return "website";
+	}
+	const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+
+	if (host === "forms.gle" || (host === "docs.google.com" && parsed.pathname.startsWith("/forms/"))) {
+		return "google-form";
+	}
+	if (host === "linktr.ee") return "linktree";
+	if (host === "wa.me" || host === "chat.whatsapp.com" || host === "api.whatsapp.com") {
+		return "whatsapp";
+	}
+	return "website";
+}
+
+/** Google redirects a form that stopped accepting responses to /closedform */
+export function isClosedForm(url: string): boolean {
+	return classifyLink(url) === "google-form" && /\/closedform\/?$/.test(new URL(url).pathname);
+}
+
+/**
+ * Follow `url` through its redirects and report where it ends.
+ * Never throws: network errors and timeouts come back as broken links.
+ */
+export async function resolveLink(url: string, options: LinkCheckConfig): Promise<LinkCheck> {
+	const start = canonicalizeUrl(url);
+	let current = start;
+	let redirects = 0;
+
+	try {
+		for (;;) {
+			const response = await fetch(current, {
+				method: "GET",
+				redirect: "manual",
+				headers: { "User-Agent": options.userAgent },
+				signal: AbortSignal.timeout(options.timeoutMs),
+			});
+			// Only the status matters, don't download the page
+			await response.body?.cancel();
+
+			const location = response.headers.get("location");
+			if (response.status >= 300 && response.status < 400 && location) {
+				if (redirects >= options.maxRedirects) {
+					throw new Error(`More than ${options.maxRedirects} redirects`);
+				}
+				current = new URL(location, current).toString();
+				redirects++;
+				continue;
+			}
+
+			const closed = isClosedForm(current);
+			return {
+				url: start,
+				finalUrl: current,
+				status: response.status,
+				type: classifyLink(current),
+				broken: isDeadStatus(response.status) || closed,
+				redirects,
+				...(closed ? { error: "Google Form is closed" } : {}),
+			};
+		}
+	} catch (error) {
+		return {
+			url: start,
+			finalUrl: current,
+			status: null,
+			type: classifyLink(current),
+			broken: true,
+			redirects,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+/**
+ * Store the result of a link check on a competition.
+ */
+export async function saveLinkCheck(
+	sql: Sql<Record<string, never>>,
+	id: number,
+	check: LinkCheck,
+): Promise<void> {
+	await sql`
+    UPDATE competitions
+    SET "urlFinal" = ${check.finalUrl},
+        "urlStatus" = ${check.status},
+        "urlType" = ${check.type},
+        "urlBroken" = ${check.broken},
+        "urlCheckedAt" = now()
+    WHERE id = ${id}
+  `;
+}
@@ -0,0 +1,191 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Sql } from "postgres";
+import { tableColumns, type SchemaMigrationRow, type Tables } from "../../schema.js";
+import { withTransaction } from "./db-utils.js";
+
+/**
+ * Versioned schema migrations.
+ *
+ * Migrations are SQL files in migrations/ named `NNNN_description.sql`,
+ * applied in version order by `bun run db:migrate` (migrate.ts). Each file
+ * runs in its own transaction and is recorded in schema_migrations with a
+ * checksum, so a migration edited after it was applied is reported instead
+ * of silently diverging from the databases it already ran on.
+ *
+ * Workers never migrate: run the CLI before deploying code that needs a
+ * new migration.
+ */
+
+/** A migration file */
+export interface Migration {
+	version: number;
+	/** Description part of the file name */
+	name: string;
+	/** SHA-256 of the file contents */
+	checksum: string;
+	sql: string;
+}
+
+/** Columns that differ between the database and src/schema.ts, by table */
+export interface SchemaDrift {
+	table: keyof Tables;
+	/** In src/schema.ts but not in the database (the whole table when it does not exist) */
+	missing: string[];
+	/** In the database but not in src/schema.ts */
+	unexpected: string[];
+}
+
+const FILENAME_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+/** pg_advisory_lock key, so two runners never apply the same migration */
+const MIGRATION_LOCK_ID = 720_301;
+
+/** Version and name of a migration file name, null when it does not follow NNNN_name.sql */
+export function parseMigrationFilename(filename: string): { version: number; name: string } | null {
+	const match = FILENAME_PATTERN.exec(filename);
+	return match ? { version: Number(match[1]), name: match[2] } : null;
+}
+
+/** Hex SHA-256 of a migration's contents */
+export function migrationChecksum(sql: string): string {
+	return createHash("sha256").update(sql).digest("hex");
+}
+
+/**
+ * Read every migration in `dir`, in version order.
+ * Throws on .sql files with a malformed name and on duplicate versions.
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+	const files = (await readdir(dir)).filter((file) => file.endsWith(".sql")).sort();
+	const migrations: Migration[] = [];
+
+	for (const file of files) {
+		const parsed = parseMigrationFilename(file);
+		if (!parsed) {
+			throw new Error(`Invalid migration file name: ${file} (expected NNNN_description.sql)`);
+		}
+		if (migrations.some((migration) => migration.version === parsed.version)) {
+			throw new Error(`Duplicate migration version ${parsed.version}: ${file}`);
+		}
+		const sql = await readFile(join(dir, file), "utf8");
+		migrations.push({ ...parsed, sql, checksum: migrationChecksum(sql) });
+	}
+
+	return migrations;
+}
+
+/**
+ * Migrations still to apply, in version order.
+ * Throws when an applied migration was edited or no longer exists locally,
+ * since the database then no longer matches the migrations directory.
+ */
+export function pendingMigrations(
+	migrations: readonly Migration[],
+	applied: readonly Pick<SchemaMigrationRow, "version" | "name" | "checksum">[],
+): Migration[] {
+	const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+
+	for (const row of applied) {
+		const local = byVersion.get(row.version);
+		if (!local) {
+			throw new Error(`Applied migration ${row.version} (${row.name}) is missing from migrations/`);
+		}
+		if (local.checksum !== row.checksum) {
+			throw new Error(
+				`Migration ${row.version} (${row.name}) was edited after it was applied; add a new migration instead`,
+			);
+		}
+	}
+
+	const appliedVersions = new Set(applied.map((row) => row.version));
+	return migrations
+		.filter((migration) => !appliedVersions.has(migration.version))
+		.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Create the schema_migrations table if it does not exist yet.
+ */
+export async function ensureMigrationsTable(sql: Sql<Record<string, never>>): Promise<void> {
+	await sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      "appliedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+}
+
+/** Applied migrations in version order */
+export async function getAppliedMigrations(
+	sql: Sql<Record<string, never>>,
+): Promise<SchemaMigrationRow[]> {
+	return await sql<SchemaMigrationRow[]>`
+    SELECT version, name, checksum, "appliedAt"
+    FROM schema_migrations
+    ORDER BY version
+  `;
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction, and
+ * return them. With `dryRun` nothing is applied.
+ *
+ * Expects a single-connection client (`max: 1`): the advisory lock is
+ * held by the session that applies the migrations.
+ */
+export async function migrate(
+	sql: Sql<Record<string, never>>,
+	migrations: readonly Migration[],
+	options: { dryRun?: boolean; onApply?: (migration: Migration) => void } = {},
+): Promise<Migration[]> {
+	await sql`SELECT pg_advisory_lock(${MIGRATION_LOCK_ID})`;
+	try {
+		await ensureMigrationsTable(sql);
+		const pending = pendingMigrations(migrations, await getAppliedMigrations(sql));
+		if (options.dryRun) return pending;
+
+		for (const migration of pending) {
+			options.onApply?.(migration);
+			await withTransaction(sql, async (tx) => {
+				await tx.unsafe(migration.sql);
+				await tx`
+          INSERT INTO schema_migrations (version, name, checksum)
+          VALUES (${migration.version}, ${migration.name}, ${migration.checksum})
+        `;
+			});
+		}
+		return pending;
+	} finally {
+		await sql`SELECT pg_advisory_unlock(${MIGRATION_LOCK_ID})`;
+	}
+}
+
+/**
+ * Compare the columns of every table in src/schema.ts with the database.
+ * Returns only the tables that differ.
+ */
+export async function checkSchema(sql: Sql<Record<string, never>>): Promise<SchemaDrift[]> {
+	const tables = Object.keys(tableColumns) as (keyof Tables)[];
+	const rows = await sql<{ tableName: string; columnName: string }[]>`
+    SELECT table_name AS "tableName", column_name AS "columnName"
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name IN ${sql(tables)}
+  `;
+
+	const drift: SchemaDrift[] = [];
+	for (const table of tables) {
+		const expected = Object.keys(tableColumns[table]);
+		const actual = rows.filter((row) => row.tableName === table).map((row) => row.columnName);
+		const missing = expected.filter((column) => !actual.includes(column));
+		const unexpected = actual.filter((column) => !expected.includes(column));
+		if (missing.length > 0 || unexpected.length > 0) {
+			drift.push({ table, missing, unexpected });
+		}
+	}
+	return drift;
+}
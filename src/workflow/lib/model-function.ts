@@ -32,9 +32,10 @@ const zaiAgent = new Agent({
 /** Schema output type */
 type SchemaOutput = z.infer<typeof CompetitionSchema>;
 
-export async function geminiImageToText(imageUrl: string): Promise<SchemaOutput> {
+export async function geminiImageToText(imageUrl: string, signal?: AbortSignal): Promise<SchemaOutput> {
 	const result = await generateText({
 		model: geminiModel,
+		abortSignal: signal,
 		messages: [
 			{
 				role: "user",
@@ -51,9 +52,10 @@ export async function geminiImageToText(imageUrl: string): Promise<SchemaOutput>
 	return result.output as SchemaOutput;
 }
 
-export async function openrouterTextToText(text: string): Promise<SchemaOutput> {
+export async function openrouterTextToText(text: string, signal?: AbortSignal): Promise<SchemaOutput> {
 	const result = await generateText({
 		model: openrouterModel,
+		abortSignal: signal,
 		prompt: `${EXTRACTION_PROMPT}\n\nText to extract from:\n${text}`,
 		output: Output.object({
 			schema: CompetitionSchema,
@@ -62,7 +64,7 @@ export async function openrouterTextToText(text: string): Promise<SchemaOutput>
 	return result.output as SchemaOutput;
 }
 
-export async function zaiTextToText(text: string): Promise<SchemaOutput> {
+export async function zaiTextToText(text: string, signal?: AbortSignal): Promise<SchemaOutput> {
 	const response = await zaiAgent.generate(
 		[
 			{
@@ -75,12 +77,13 @@ export async function zaiTextToText(text: string): Promise<SchemaOutput> {
 				schema: CompetitionSchema,
 				jsonPromptInjection: true,
 			},
+			abortSignal: signal,
 		},
 	);
 	return response.object;
 }
 
-export async function zaiImageToText(imageUrl: string): Promise<SchemaOutput> {
+export async function zaiImageToText(imageUrl: string, signal?: AbortSignal): Promise<SchemaOutput> {
 	const response = await zaiAgent.generate(
 		[
 			{
@@ -100,14 +103,16 @@ export async function zaiImageToText(imageUrl: string): Promise<SchemaOutput> {
 				schema: CompetitionSchema,
 				jsonPromptInjection: true,
 			},
+			abortSignal: signal,
 		},
 	);
 	return response.object;
 }
 
-export async function groqImageToText(imageUrl: string): Promise<SchemaOutput> {
+export async function groqImageToText(imageUrl: string, signal?: AbortSignal): Promise<SchemaOutput> {
 	const result = await generateText({
 		model: groqModel,
+		abortSignal: signal,
 		messages: [
 			{
 				role: "user",
@@ -129,7 +134,7 @@ interface MistralOCRResponse {
 	document_annotation: unknown;
 }
 
-export async function mistralOCR(imageUrl: string): Promise<unknown> {
+export async function mistralOCR(imageUrl: string, signal?: AbortSignal): Promise<unknown> {
 	const body = {
 		model: "mistral-ocr-latest",
 		document: {
@@ -154,6 +159,7 @@ export async function mistralOCR(imageUrl: string): Promise<unknown> {
 			Authorization: `Bearer ${process.env.MISTRAL_API_KEY}`,
 		},
 		body: JSON.stringify(body),
+		signal,
 	});
 
 	if (!res.ok) {
@@ -0,0 +1,444 @@
+import type { Sql } from "postgres";
+import { captionSimilarity, captionTrigrams } from "./caption-similarity.js";
+import type { OrganizerConfig } from "./config.js";
+import { withTransaction } from "./db-utils.js";
+
+/**
+ * Organizers of competitions, stored in the `organizers` table.
+ *
+ * Extraction yields free-form names ("BEM UI", "BEM Universitas
+ * Indonesia", "Univ. Indonesia"). Each name is matched to an organizer by
+ * normalized name or alias, then by abbreviation, then by trigram
+ * similarity; a new organizer is created when nothing matches. Names
+ * matched fuzzily become aliases, so they match exactly next time. Only
+ * the organizers an indexed query returns as candidates are scored.
+ *
+ * The Instagram accounts that posted a competition link it to the
+ * organizer owning that account, and an organizer without an account gets
+ * the one spelling its name ("bem_ui" for "BEM Universitas Indonesia").
+ * Organizers created twice are merged, and checked ones marked verified,
+ * through /api/organizers. Verified organizers win ties when matching.
+ */
+
+export const ORGANIZER_TYPES = [
+	"university",
+	"school",
+	"student-organization",
+	"government",
+	"company",
+	"community",
+	"other",
+] as const;
+
+export type OrganizerType = (typeof ORGANIZER_TYPES)[number];
+
+/** Row of the organizers table */
+export interface Organizer {
+	id: number;
+	name: string;
+	/** normalizeOrganizerName(name), unique */
+	normalizedName: string;
+	/** Other normalized names matched to this organizer */
+	aliases: string[];
+	type: OrganizerType | null;
+	logo: string | null;
+	website: string | null;
+	/** Instagram username, unique */
+	instagram: string | null;
+	isVerified: boolean;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/** How a competition was linked to an organizer */
+export type OrganizerMatch = "name" | "alias" | "abbreviation" | "similar" | "instagram" | "created";
+
+/** Row of the competition_organizers table */
+export interface CompetitionOrganizer {
+	competitionId: number;
+	organizerId: number;
+	matchedBy: OrganizerMatch;
+	/** Name similarity for "similar" matches, null otherwise */
+	score: number | null;
+	createdAt: Date;
+}
+
+/** Organizer a competition was linked to */
+export type OrganizerLink = Pick<CompetitionOrganizer, "organizerId" | "matchedBy" | "score"> & {
+	name: string;
+};
+
+/** Editable fields of an organizer */
+export interface OrganizerPatch {
+	type?: OrganizerType | null;
+	logo?: string | null;
+	website?: string | null;
+	instagram?: string | null;
+}
+
+/** Fields used for matching */
+type OrganizerCandidate = Pick<Organizer, "id" | "normalizedName" | "aliases" | "isVerified">;
+
+/** Words spelled out in full */
+const SYNONYMS: Record<string, string> = {
+	univ: "universitas",
+	university: "universitas",
+	and: "dan",
+};
+
+/** Words left out of initials ("Dinas Pendidikan dan Kebudayaan" → "dpk") */
+const INITIALS_SKIP = new Set(["dan", "of", "the", "di"]);
+
+/**
+ * Lowercase name without punctuation, "&" as "dan", abbreviated words
+ * spelled out. NFKC folds the "𝐁𝐨𝐥𝐝" unicode letters back to ASCII.
+ */
+export function normalizeOrganizerName(name: string): string {
+	return name
+		.normalize("NFKC")
+		.toLowerCase()
+		.replace(/&/g, " dan ")
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim()
+		.split(/\s+/)
+		.filter(Boolean)
+		.map((word) => SYNONYMS[word] ?? word)
+		.join(" ");
+}
+
+function initials(words: readonly string[]): string {
+	return words
+		.filter((word) => !INITIALS_SKIP.has(word))
+		.map((word) => word[0])
+		.join("");
+}
+
+/**
+ * Whether `text` (no spaces) spells the words in order, each run of two or
+ * more words either written out or abbreviated to its initials:
+ * "bemui" spells "bem universitas indonesia".
+ */
+export function spellsName(text: string, words: readonly string[]): boolean {
+	const spells = (position: number, index: number): boolean => {
+		if (index === words.length) return position === text.length;
+		if (text.startsWith(words[index], position) && spells(position + words[index].length, index + 1)) {
+			return true;
+		}
+		for (let end = index + 2; end <= words.length; end++) {
+			const abbreviation = initials(words.slice(index, end));
+			if (abbreviation && text.startsWith(abbreviation, position) && spells(position + abbreviation.length, end)) {
+				return true;
+			}
+		}
+		return false;
+	};
+	return text.length >= 2 && spells(0, 0);
+}
+
+/** One name abbreviates the other ("bem ui" / "bem universitas indonesia") */
+export function isAbbreviation(a: string, b: string): boolean {
+	return spellsName(a.replace(/ /g, ""), b.split(" ")) || spellsName(b.replace(/ /g, ""), a.split(" "));
+}
+
+/** Whether an Instagram username spells the organizer's name ("bem_ui", "bemuniversitasindonesia") */
+export function isOrganizerAccount(
+	username: string,
+	organizer: Pick<Organizer, "normalizedName" | "aliases">,
+): boolean {
+	const account = username.toLowerCase().replace(/[._]/g, "");
+	return [organizer.normalizedName, ...organizer.aliases].some((name) => spellsName(account, name.split(" ")));
+}
+
+/** Numbers in a name: "SMAN 1 Bandung" and "SMAN 11 Bandung" are never the same */
+function numbers(name: string): string {
+	return name.match(/\d+/g)?.join(" ") ?? "";
+}
+
+/**
+ * Organizer an extracted name refers to, or null. Tried in order: exact
+ * name, alias, abbreviation (only when a single organizer matches), then
+ * trigram similarity at or above `similarityThreshold`.
+ */
+export function matchOrganizer<T extends OrganizerCandidate>(
+	name: string,
+	organizers: readonly T[],
+	similarityThreshold: number,
+): { organizer: T; matchedBy: "name" | "alias" | "abbreviation" | "similar"; score: number | null } | null {
+	const normalized = normalizeOrganizerName(name);
+	if (!normalized) return null;
+
+	const candidates = [...organizers].sort((a, b) => Number(b.isVerified) - Number(a.isVerified));
+	const names = (organizer: T) => [organizer.normalizedName, ...organizer.aliases];
+
+	const exact = candidates.find((organizer) => organizer.normalizedName === normalized);
+	if (exact) return { organizer: exact, matchedBy: "name", score: null };
+
+	const alias = candidates.find((organizer) => organizer.aliases.includes(normalized));
+	if (alias) return { organizer: alias, matchedBy: "alias", score: null };
+
+	// "hmti" abbreviates several himpunan: ambiguous, not a match
+	const abbreviated = candidates.filter((organizer) =>
+		names(organizer).some((other) => isAbbreviation(normalized, other)),
+	);
+	if (abbreviated.length === 1) return { organizer: abbreviated[0], matchedBy: "abbreviation", score: null };
+
+	const trigrams = captionTrigrams(normalized);
+	let best: { organizer: T; matchedBy: "similar"; score: number } | null = null;
+	for (const organizer of candidates) {
+		for (const other of names(organizer)) {
+			if (numbers(other) !== numbers(normalized)) continue;
+			const score = captionSimilarity(trigrams, captionTrigrams(other));
+			if (score >= similarityThreshold && (!best || score > best.score)) {
+				best = { organizer, matchedBy: "similar", score };
+			}
+		}
+	}
+	return best;
+}
+
+/**
+ * All organizers with their number of competitions, verified first.
+ * `query` keeps organizers whose normalized name contains it.
+ */
+export async function listOrganizers(
+	sql: Sql<Record<string, never>>,
+	query?: string,
+): Promise<(Organizer & { competitionCount: number })[]> {
+	const search = query ? normalizeOrganizerName(query) : "";
+	return await sql<(Organizer & { competitionCount: number })[]>`
+    SELECT o.*, COUNT(co."competitionId")::int AS "competitionCount"
+    FROM organizers o
+    LEFT JOIN competition_organizers co ON co."organizerId" = o.id
+    WHERE ${search} = '' OR strpos(o."normalizedName", ${search}) > 0
+    GROUP BY o.id
+    ORDER BY o."isVerified" DESC, "competitionCount" DESC, o.name ASC
+  `;
+}
+
+/**
+ * Organizers a normalized name may match: the exact name or alias, names
+ * and aliases trigram-similar to it (pg_trgm's `%` and `<%`, a looser bar
+ * than similarityThreshold) and names sharing its first letter, which
+ * covers abbreviations. Each condition is indexed (migration 0010);
+ * matchOrganizer makes the final choice.
+ */
+export async function findOrganizerCandidates(
+	sql: Sql<Record<string, never>>,
+	normalized: string,
+): Promise<Organizer[]> {
+	return await sql<Organizer[]>`
+    SELECT * FROM organizers
+    WHERE "normalizedName" = ${normalized}
+       OR aliases @> ${sql.json([normalized])}
+       OR "normalizedName" % ${normalized}
+       OR ${normalized} <% (aliases::text)
+       OR left("normalizedName", 1) = ${normalized.slice(0, 1)}
+    ORDER BY id
+  `;
+}
+
+/**
+ * Link a competition to the organizers of its extracted names and of the
+ * Instagram accounts that posted it, creating organizers for new names.
+ * Existing links are kept. Returns the organizers linked by this call.
+ */
+export async function linkCompetitionOrganizers(
+	sql: Sql<Record<string, never>>,
+	competitionId: number,
+	names: readonly string[],
+	options: OrganizerConfig,
+): Promise<OrganizerLink[]> {
+	const byNormalized = new Map<string, string>();
+	for (const name of names) {
+		const normalized = normalizeOrganizerName(name);
+		if (normalized && !byNormalized.has(normalized)) byNormalized.set(normalized, name.trim());
+	}
+
+	return await withTransaction(sql, async (tx) => {
+		const accounts = await tx<{ account: string }[]>`
+      SELECT DISTINCT lower(account) AS account
+      FROM source_mentions
+      WHERE "competitionId" = ${competitionId}
+        AND source = 'instagram'
+        AND account IS NOT NULL
+    `;
+		if (byNormalized.size === 0 && accounts.length === 0) return [];
+
+		const links: (OrganizerLink & { organizer: Organizer })[] = [];
+		const link = (organizer: Organizer, matchedBy: OrganizerMatch, score: number | null) => {
+			if (links.some((existing) => existing.organizerId === organizer.id)) return;
+			links.push({ organizer, organizerId: organizer.id, name: organizer.name, matchedBy, score });
+		};
+
+		for (const [normalized, name] of byNormalized) {
+			const candidates = await findOrganizerCandidates(tx, normalized);
+			const match = matchOrganizer(name, candidates, options.similarityThreshold);
+			if (match) {
+				link(match.organizer, match.matchedBy, match.score);
+				if (match.matchedBy === "abbreviation" || match.matchedBy === "similar") {
+					await tx`
+            UPDATE organizers
+            SET aliases = aliases || ${tx.json([normalized])}, "updatedAt" = NOW()
+            WHERE id = ${match.organizer.id} AND NOT aliases @> ${tx.json([normalized])}
+          `;
+					match.organizer.aliases.push(normalized);
+				}
+				continue;
+			}
+
+			// DO UPDATE returns the row a concurrent run created
+			const [created] = await tx<Organizer[]>`
+        INSERT INTO organizers (name, "normalizedName")
+        VALUES (${name}, ${normalized})
+        ON CONFLICT ("normalizedName") DO UPDATE SET "normalizedName" = EXCLUDED."normalizedName"
+        RETURNING *
+      `;
+			link(created, "created", null);
+		}
+
+		const owners =
+			accounts.length > 0
+				? await tx<Organizer[]>`
+            SELECT * FROM organizers WHERE instagram IN ${tx(accounts.map(({ account }) => account))}
+          `
+				: [];
+		for (const { account } of accounts) {
+			const owner = owners.find((organizer) => organizer.instagram === account);
+			if (owner) {
+				link(owner, "instagram", null);
+				continue;
+			}
+			// The organizer posting its own lomba; aggregator accounts spell no organizer
+			const named = links.find(({ organizer }) => !organizer.instagram && isOrganizerAccount(account, organizer));
+			if (named) {
+				await tx`
+          UPDATE organizers
+          SET instagram = ${account}, "updatedAt" = NOW()
+          WHERE id = ${named.organizerId} AND instagram IS NULL
+        `;
+				named.organizer.instagram = account;
+			}
+		}
+
+		if (links.length > 0) {
+			const rows = links.map(({ organizerId, matchedBy, score }) => ({
+				competitionId,
+				organizerId,
+				matchedBy,
+				score,
+			}));
+			await tx`
+        INSERT INTO competition_organizers ${tx(rows, "competitionId", "organizerId", "matchedBy", "score")}
+        ON CONFLICT DO NOTHING
+      `;
+		}
+		return links.map(({ organizer: _, ...rest }) => rest);
+	});
+}
+
+/**
+ * Move the organizer links of a competition to another one (dedup merge).
+ */
+export async function moveOrganizerLinks(
+	sql: Sql<Record<string, never>>,
+	fromCompetitionId: number,
+	toCompetitionId: number,
+): Promise<void> {
+	await sql`
+    INSERT INTO competition_organizers ("competitionId", "organizerId", "matchedBy", score)
+    SELECT ${toCompetitionId}, "organizerId", "matchedBy", score
+    FROM competition_organizers
+    WHERE "competitionId" = ${fromCompetitionId}
+    ON CONFLICT DO NOTHING
+  `;
+	await sql`
+    DELETE FROM competition_organizers WHERE "competitionId" = ${fromCompetitionId}
+  `;
+}
+
+/**
+ * Update an organizer. Returns null when it does not exist.
+ */
+export async function updateOrganizer(
+	sql: Sql<Record<string, never>>,
+	id: number,
+	patch: OrganizerPatch,
+): Promise<Organizer | null> {
+	const rows = await sql<Organizer[]>`
+    UPDATE organizers
+    SET type = ${patch.type === undefined ? sql`type` : patch.type},
+        logo = ${patch.logo === undefined ? sql`logo` : patch.logo},
+        website = ${patch.website === undefined ? sql`website` : patch.website},
+        instagram = ${patch.instagram === undefined ? sql`instagram` : patch.instagram},
+        "updatedAt" = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  `;
+	return rows[0] ?? null;
+}
+
+/**
+ * Mark an organizer verified, or not. Returns null when it does not exist.
+ */
+export async function verifyOrganizer(
+	sql: Sql<Record<string, never>>,
+	id: number,
+	verified: boolean,
+): Promise<Organizer | null> {
+	const rows = await sql<Organizer[]>`
+    UPDATE organizers
+    SET "isVerified" = ${verified}, "updatedAt" = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  `;
+	return rows[0] ?? null;
+}
+
+/**
+ * Merge organizer `sourceId` into `targetId`: its competitions move over,
+ * its names become aliases, and empty profile fields of the target are
+ * filled from it. The source is deleted. Returns the merged organizer,
+ * null when either does not exist.
+ */
+export async function mergeOrganizers(
+	sql: Sql<Record<string, never>>,
+	sourceId: number,
+	targetId: number,
+): Promise<Organizer | null> {
+	return await withTransaction(sql, async (tx) => {
+		const rows = await tx<Organizer[]>`
+      SELECT * FROM organizers WHERE id IN ${tx([sourceId, targetId])} FOR UPDATE
+    `;
+		const source = rows.find((row) => row.id === sourceId);
+		const target = rows.find((row) => row.id === targetId);
+		if (!source || !target || source.id === target.id) return null;
+
+		const aliases = [...new Set([...target.aliases, source.normalizedName, ...source.aliases])].filter(
+			(alias) => alias !== target.normalizedName,
+		);
+
+		await tx`
+      INSERT INTO competition_organizers ("competitionId", "organizerId", "matchedBy", score)
+      SELECT "competitionId", ${target.id}, "matchedBy", score
+      FROM competition_organizers
+      WHERE "organizerId" = ${source.id}
+      ON CONFLICT DO NOTHING
+    `;
+		// Deleted first, so its unique instagram can move to the target
+		await tx`DELETE FROM organizers WHERE id = ${source.id}`;
+
+		const [merged] = await tx<Organizer[]>`
+      UPDATE organizers
+      SET aliases = ${tx.json(aliases)},
+          type = COALESCE(type, ${source.type}),
+          logo = COALESCE(logo, ${source.logo}),
+          website = COALESCE(website, ${source.website}),
+          instagram = COALESCE(instagram, ${source.instagram}),
+          "isVerified" = "isVerified" OR ${source.isVerified},
+          "updatedAt" = NOW()
+      WHERE id = ${target.id}
+      RETURNING *
+    `;
+		return merged;
+	});
+}
@@ -0,0 +1,260 @@
+import type { Sql } from "postgres";
+import type { CompetitionRow } from "../../schema.js";
+import type { EnhancedLogger } from "../../utils/enhanced-logger.js";
+import type { PosterGcConfig } from "./config.js";
+import type { PosterKeys } from "./poster-images.js";
+import { listAllObjects, type PosterStore } from "./poster-store.js";
+
+/**
+ * Poster garbage collection.
+ *
+ * Posters of skipped posts, duplicates and deleted competitions are never
+ * referenced again but stay in the bucket. The job lists the store,
+ * cross-references every poster URL and variant key stored on
+ * competitions, and records unreferenced objects in poster_orphans.
+ * Objects unreferenced for `graceDays` are deleted; an object referenced
+ * again in the meantime is forgotten. Posters only used by archived
+ * competitions can be moved under a cold prefix (Infrequent Access).
+ */
+
+/** Outcome of one GC run, byte counts are object sizes */
+export interface PosterGcReport {
+	dryRun: boolean;
+	scanned: number;
+	scannedBytes: number;
+	referenced: number;
+	/** Unreferenced objects, including ones still in their grace period */
+	orphaned: number;
+	/** Deleted, or that would be deleted in a dry run */
+	deleted: number;
+	deletedBytes: number;
+	/** Moved to the cold prefix, or that would be moved in a dry run */
+	moved: number;
+	movedBytes: number;
+}
+
+/** An unreferenced object and when it was first seen unreferenced */
+export interface PosterOrphan {
+	key: string;
+	size: number;
+	orphanedAt: Date;
+}
+
+type PosterRefsRow = Pick<CompetitionRow, "id" | "status" | "poster" | "posters" | "posterKeys">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** SQL IN lists are sent in chunks of this size */
+const CHUNK_SIZE = 1000;
+
+function chunks<T>(items: readonly T[]): T[][] {
+	const result: T[][] = [];
+	for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+		result.push(items.slice(i, i + CHUNK_SIZE));
+	}
+	return result;
+}
+
+/**
+ * Object key of a URL served from the bucket, null for other URLs
+ * (Instagram CDN links kept when an upload failed).
+ */
+export function posterKeyFromUrl(url: string, publicUrl: string): string | null {
+	const prefix = `${publicUrl.replace(/\/+$/, "")}/`;
+	if (!url.startsWith(prefix)) return null;
+	return url.slice(prefix.length).split(/[?#]/)[0] || null;
+}
+
+/** Every object key a competition row points at */
+export function referencedPosterKeys(
+	row: Pick<PosterRefsRow, "poster" | "posters" | "posterKeys">,
+	publicUrl: string,
+): Set<string> {
+	const keys = new Set<string>(Object.values(row.posterKeys ?? {}));
+	for (const url of [row.poster, ...(row.posters ?? [])]) {
+		const key = url ? posterKeyFromUrl(url, publicUrl) : null;
+		if (key) keys.add(key);
+	}
+	return keys;
+}
+
+/**
+ * Orphans unreferenced for at least `graceDays`, oldest first,
+ * at most `limit` of them.
+ */
+export function expiredOrphans(
+	orphans: readonly PosterOrphan[],
+	graceDays: number,
+	limit: number,
+	now: Date = new Date(),
+): PosterOrphan[] {
+	const cutoff = now.getTime() - graceDays * DAY_MS;
+	return orphans
+		.filter((orphan) => orphan.orphanedAt.getTime() <= cutoff)
+		.sort((a, b) => a.orphanedAt.getTime() - b.orphanedAt.getTime())
+		.slice(0, limit);
+}
+
+/**
+ * Move posters only referenced by archived competitions under the cold
+ * prefix and point those rows at the moved objects.
+ * Returns the original keys that were (or would be) moved.
+ */
+async function moveArchivedPosters(
+	sql: Sql<Record<string, never>>,
+	store: PosterStore,
+	archived: readonly PosterRefsRow[],
+	liveKeys: ReadonlySet<string>,
+	sizes: ReadonlyMap<string, number>,
+	options: PosterGcConfig,
+	log: EnhancedLogger,
+): Promise<Set<string>> {
+	const moved = new Set<string>();
+	// Listed but gone by the time they are copied
+	const missing = new Set<string>();
+	const publicUrl = store.publicUrl;
+	const coldKey = (key: string) => `${options.coldPrefix}${key}`;
+	const isMovable = (key: string | null): key is string =>
+		!!key && sizes.has(key) && !liveKeys.has(key) && !key.startsWith(options.coldPrefix);
+
+	for (const row of archived) {
+		const keys = [...referencedPosterKeys(row, publicUrl)].filter(isMovable);
+		if (keys.length === 0) continue;
+
+		for (const key of keys) {
+			if (moved.has(key) || missing.has(key)) continue;
+			if (options.dryRun) {
+				moved.add(key);
+				continue;
+			}
+
+			const object = await store.get(key);
+			if (!object) {
+				missing.add(key);
+				continue;
+			}
+			await store.put(coldKey(key), object.body, {
+				contentType: object.contentType ?? "application/octet-stream",
+				metadata: object.metadata,
+				cold: true,
+			});
+			moved.add(key);
+		}
+		if (options.dryRun) continue;
+
+		// Only keys whose cold copy was written are repointed
+		const isMoved = (key: string | null): key is string => !!key && moved.has(key);
+		const rewrite = (url: string | null) => {
+			const key = url ? posterKeyFromUrl(url, publicUrl) : null;
+			return isMoved(key) ? `${publicUrl}/${coldKey(key)}` : url;
+		};
+		const posterKeys = row.posterKeys
+			? (Object.fromEntries(
+					Object.entries(row.posterKeys).map(([variant, key]) => [
+						variant,
+						isMoved(key) ? coldKey(key) : key,
+					]),
+				) as PosterKeys)
+			: null;
+
+		await sql`
+      UPDATE competitions
+      SET poster = ${rewrite(row.poster)},
+          posters = ${row.posters ? sql.json(row.posters.map(rewrite)) : null},
+          "posterKeys" = ${posterKeys ? sql.json(posterKeys) : null}
+      WHERE id = ${row.id}
+    `;
+		log.debug("Moved archived posters to cold storage", { id: row.id, keys: keys.filter((key) => moved.has(key)) });
+	}
+
+	// Originals go only once every archived row points at the copies
+	if (!options.dryRun) {
+		await store.delete([...moved]);
+	}
+	return moved;
+}
+
+/**
+ * Run one GC pass over the store. In a dry run nothing is deleted, moved
+ * or rewritten, but orphans are still recorded so their grace period
+ * starts counting.
+ */
+export async function collectPosterGarbage(
+	sql: Sql<Record<string, never>>,
+	store: PosterStore,
+	options: PosterGcConfig,
+	log: EnhancedLogger,
+): Promise<PosterGcReport> {
+	const publicUrl = store.publicUrl;
+
+	const objects = await listAllObjects(store);
+	const sizes = new Map(objects.map((object) => [object.key, object.size]));
+
+	// Duplicates are never shown, their posters only count when a live row shares them
+	const rows = await sql<PosterRefsRow[]>`
+    SELECT id, status, poster, posters, "posterKeys"
+    FROM competitions
+    WHERE status <> 'duplicate'
+  `;
+	const archived = rows.filter((row) => row.status === "archived");
+	const liveKeys = new Set(
+		rows
+			.filter((row) => row.status !== "archived")
+			.flatMap((row) => [...referencedPosterKeys(row, publicUrl)]),
+	);
+
+	const moved = options.archiveToCold
+		? await moveArchivedPosters(sql, store, archived, liveKeys, sizes, options, log)
+		: new Set<string>();
+
+	const referenced = new Set(liveKeys);
+	for (const row of archived) {
+		for (const key of referencedPosterKeys(row, publicUrl)) referenced.add(key);
+	}
+
+	const unreferenced = objects.filter(
+		(object) => !referenced.has(object.key) && !moved.has(object.key),
+	);
+
+	// Start the grace period of new orphans, forget objects referenced again or gone
+	for (const chunk of chunks(unreferenced)) {
+		await sql`
+      INSERT INTO poster_orphans ${sql(chunk.map(({ key, size }) => ({ key, size })), "key", "size")}
+      ON CONFLICT (key) DO NOTHING
+    `;
+	}
+	const orphans = await sql<PosterOrphan[]>`
+    SELECT key, size::float8 AS size, "orphanedAt" FROM poster_orphans
+  `;
+	const unreferencedKeys = new Set(unreferenced.map((object) => object.key));
+	const stale = orphans.filter((orphan) => !unreferencedKeys.has(orphan.key));
+	for (const chunk of chunks(stale.map((orphan) => orphan.key))) {
+		await sql`DELETE FROM poster_orphans WHERE key IN ${sql(chunk)}`;
+	}
+
+	const expired = expiredOrphans(
+		orphans.filter((orphan) => unreferencedKeys.has(orphan.key)),
+		options.graceDays,
+		options.maxDeletesPerRun,
+	);
+	if (!options.dryRun) {
+		for (const chunk of chunks(expired.map((orphan) => orphan.key))) {
+			await store.delete(chunk);
+			await sql`DELETE FROM poster_orphans WHERE key IN ${sql(chunk)}`;
+		}
+	}
+
+	const sum = (keys: Iterable<string>) => [...keys].reduce((total, key) => total + (sizes.get(key) ?? 0), 0);
+
+	return {
+		dryRun: options.dryRun,
+		scanned: objects.length,
+		scannedBytes: sum(sizes.keys()),
+		referenced: objects.filter((object) => referenced.has(object.key)).length,
+		orphaned: unreferenced.length,
+		deleted: expired.length,
+		deletedBytes: sum(expired.map((orphan) => orphan.key)),
+		moved: moved.size,
+		movedBytes: sum(moved),
+	};
+}
@@ -0,0 +1,158 @@
+import { convertIndexedToRgb, decode as decodePng, hasPngSignature } from "fast-png";
+import { decode as decodeJpeg } from "jpeg-js";
+
+/**
+ * Perceptual poster hashes (dHash) for near-duplicate detection.
+ *
+ * The same lomba poster reposted by several accounts is re-encoded,
+ * resized or lightly cropped each time, so byte hashes differ while the
+ * 64-bit difference hash stays within a few bits. Decoding is pure JS so it
+ * runs inside Workers; formats other than JPEG and PNG are not hashed.
+ */
+
+/** Grayscale image, one luma byte per pixel */
+interface GrayImage {
+	width: number;
+	height: number;
+	luma: Uint8Array;
+}
+
+/** dHash grid: 9 columns compared pairwise give 8 bits per row */
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+
+/**
+ * Larger images are refused rather than decoded: a full decode holds the
+ * pixels several times over, which a Worker cannot afford (IG posters are
+ * ~1.5 MP)
+ */
+const MAX_RESOLUTION_MP = 4;
+const MAX_PIXELS = MAX_RESOLUTION_MP * 1_000_000;
+
+function isJpeg(bytes: Uint8Array): boolean {
+	return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+/** ITU-R BT.601 luma */
+function toLuma(r: number, g: number, b: number): number {
+	return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+/** Pixel count from the PNG IHDR chunk, read before anything is inflated */
+function pngPixels(bytes: Uint8Array): number {
+	if (bytes.length < 24) return 0;
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	return view.getUint32(16) * view.getUint32(20);
+}
+
+/** Decode a JPEG or PNG to grayscale, null for other formats */
+function decodeGray(bytes: Uint8Array): GrayImage | null {
+	if (isJpeg(bytes)) {
+		const { width, height, data } = decodeJpeg(bytes, {
+			useTArray: true,
+			formatAsRGBA: false,
+			maxResolutionInMP: MAX_RESOLUTION_MP,
+		});
+		const luma = new Uint8Array(width * height);
+		for (let i = 0; i < luma.length; i++) {
+			luma[i] = Math.round(toLuma(data[i * 3], data[i * 3 + 1], data[i * 3 + 2]));
+		}
+		return { width, height, luma };
+	}
+
+	if (hasPngSignature(bytes)) {
+		if (pngPixels(bytes) > MAX_PIXELS) return null;
+		const png = decodePng(bytes);
+
+		const data = png.palette ? convertIndexedToRgb(png) : png.data;
+		const channels = png.palette ? (png.transparency ? 4 : 3) : png.channels;
+		const scale = png.depth === 16 ? 1 / 257 : 1;
+		const luma = new Uint8Array(png.width * png.height);
+		for (let i = 0; i < luma.length; i++) {
+			const p = i * channels;
+			luma[i] = Math.round(
+				channels >= 3
+					? toLuma(data[p], data[p + 1], data[p + 2]) * scale
+					: data[p] * scale,
+			);
+		}
+		return { width: png.width, height: png.height, luma };
+	}
+
+	return null;
+}
+
+/**
+ * 64-bit difference hash as 16 hex chars: the image is averaged down to a
+ * 9x8 grid and each bit records whether a cell is brighter than its right
+ * neighbour.
+ */
+export function differenceHash({ width, height, luma }: GrayImage): string {
+	const sums = new Float64Array(HASH_COLUMNS * HASH_ROWS);
+	const counts = new Uint32Array(HASH_COLUMNS * HASH_ROWS);
+
+	for (let y = 0; y < height; y++) {
+		const row = Math.min(HASH_ROWS - 1, Math.floor((y * HASH_ROWS) / height));
+		for (let x = 0; x < width; x++) {
+			const col = Math.min(HASH_COLUMNS - 1, Math.floor((x * HASH_COLUMNS) / width));
+			const cell = row * HASH_COLUMNS + col;
+			sums[cell] += luma[y * width + x];
+			counts[cell]++;
+		}
+	}
+
+	let hash = 0n;
+	for (let row = 0; row < HASH_ROWS; row++) {
+		for (let col = 0; col < HASH_COLUMNS - 1; col++) {
+			const cell = row * HASH_COLUMNS + col;
+			const left = sums[cell] / Math.max(counts[cell], 1);
+			const right = sums[cell + 1] / Math.max(counts[cell + 1], 1);
+			hash = (hash << 1n) | (left > right ? 1n : 0n);
+		}
+	}
+
+	return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Perceptual hash of an encoded poster, or null when the image cannot be
+ * decoded (unsupported format, corrupt or oversized data).
+ */
+export function computePosterHash(buffer: ArrayBuffer | Uint8Array): string | null {
+	const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+	try {
+		const image = decodeGray(bytes);
+		return image && image.width > 0 && image.height > 0 ? differenceHash(image) : null;
+	} catch {
+		return null;
+	}
+}
+
+/** Number of differing bits between two hex hashes */
+export function hammingDistance(a: string, b: string): number {
+	let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+	let count = 0;
+	while (diff > 0n) {
+		count += Number(diff & 1n);
+		diff >>= 1n;
+	}
+	return count;
+}
+
+/**
+ * Closest hash within `maxDistance` bits, or null when none is close enough.
+ */
+export function findNearestPoster<T extends { posterHash: string }>(
+	hash: string,
+	candidates: readonly T[],
+	maxDistance: number,
+): (T & { distance: number }) | null {
+	let best: (T & { distance: number }) | null = null;
+	for (const candidate of candidates) {
+		const distance = hammingDistance(hash, candidate.posterHash);
+		if (distance <= maxDistance && (!best || distance < best.distance)) {
+			best = { ...candidate, distance };
+		}
+	}
+	return best;
+}
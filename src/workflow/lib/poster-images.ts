@@ -0,0 +1,91 @@
+import type { PosterImageConfig } from "./config.js";
+
+/**
+ * Poster normalization.
+ *
+ * Instagram and the blogs serve anything from small JPEGs to multi-megabyte
+ * PNGs, sometimes with a wrong Content-Type. The real type is read from the
+ * file's magic bytes, and each poster is stored in R2 as three variants:
+ * a scaled-down JPEG (sent to WhatsApp), a WebP for the web and a small
+ * WebP thumbnail.
+ */
+
+/** Image types recognised from their magic bytes */
+export type ImageMimeType = "image/jpeg" | "image/png" | "image/webp" | "image/gif" | "image/avif";
+
+/** Stored variants of one poster */
+export type PosterVariant = "jpeg" | "webp" | "thumb";
+
+/** R2 object key of each poster variant */
+export type PosterKeys = Record<PosterVariant, string>;
+
+function startsWith(bytes: Uint8Array, signature: readonly number[], offset = 0): boolean {
+	return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+	return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/**
+ * MIME type of an image from its first bytes, null when the bytes are not
+ * a known image (an HTML error page served with a 200, for instance).
+ */
+export function detectImageType(buffer: ArrayBuffer | Uint8Array): ImageMimeType | null {
+	const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+	if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+	if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+	if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+	if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif";
+	// ISO-BMFF: box size, then "ftyp" and the major brand
+	if (ascii(bytes, 4, 8) === "ftyp" && ["avif", "avis"].includes(ascii(bytes, 8, 12))) {
+		return "image/avif";
+	}
+	return null;
+}
+
+/**
+ * Variant keys next to the content-addressed original
+ * (`posters/ab/cd/<sha256>`), named after the width they are rendered at,
+ * so changing the sizes writes new objects instead of reusing stale ones.
+ */
+export function posterVariantKeys(sha256: string, images: PosterImageConfig): PosterKeys {
+	const base = `posters/${sha256.slice(0, 2)}/${sha256.slice(2, 4)}/${sha256}`;
+	return {
+		jpeg: `${base}-w${images.maxWidth}.jpg`,
+		webp: `${base}-w${images.maxWidth}.webp`,
+		thumb: `${base}-w${images.thumbWidth}.webp`,
+	};
+}
+
+function toStream(buffer: ArrayBuffer): ReadableStream<Uint8Array> {
+	return new Response(buffer).body!;
+}
+
+/**
+ * Render one poster variant with the Images binding. Posters are only
+ * scaled down, never up; transparent PNGs get a white background in JPEG.
+ */
+export async function renderPosterVariant(
+	binding: ImagesBinding,
+	buffer: ArrayBuffer,
+	variant: PosterVariant,
+	images: PosterImageConfig,
+): Promise<{ body: ArrayBuffer; contentType: string }> {
+	const width = variant === "thumb" ? images.thumbWidth : images.maxWidth;
+	const output: ImageOutputOptions =
+		variant === "jpeg"
+			? { format: "image/jpeg", quality: images.jpegQuality, background: "#ffffff" }
+			: { format: "image/webp", quality: images.webpQuality };
+
+	const result = await binding
+		.input(toStream(buffer))
+		.transform({ width, fit: "scale-down" })
+		.output(output);
+
+	return {
+		body: await result.response().arrayBuffer(),
+		contentType: result.contentType(),
+	};
+}
@@ -0,0 +1,100 @@
+import * as cheerio from "cheerio";
+import { IG_APP_ID } from "./bio-links.js";
+import { instagramShortcode } from "./url.js";
+
+/**
+ * Fresh poster URLs for a stored post.
+ *
+ * Instagram display URLs are signed and expire within days, so a poster
+ * whose upload failed cannot simply be retried from the stored URL. The
+ * post is resolved again from its urlsource: Instagram posts through the
+ * media info API (every carousel slide), other pages through og:image.
+ */
+
+const SHORTCODE_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/** Numeric media id of an Instagram shortcode (base64 digits, most significant first) */
+export function instagramMediaId(shortcode: string): string {
+	let id = 0n;
+	for (const char of shortcode) {
+		const digit = SHORTCODE_ALPHABET.indexOf(char);
+		if (digit < 0) throw new Error(`Invalid shortcode: ${shortcode}`);
+		id = id * 64n + BigInt(digit);
+	}
+	return id.toString();
+}
+
+interface MediaCandidate {
+	image_versions2?: { candidates?: { url?: string }[] };
+}
+
+interface MediaItem extends MediaCandidate {
+	carousel_media?: MediaCandidate[];
+}
+
+/**
+ * Image URLs of an Instagram media info item in slide order.
+ * Video slides contribute their cover image.
+ */
+export function mediaItemImages(item: MediaItem): string[] {
+	const slides = item.carousel_media?.length ? item.carousel_media : [item];
+	return slides
+		.map((slide) => slide.image_versions2?.candidates?.[0]?.url)
+		.filter((url): url is string => !!url);
+}
+
+/** og:image of a page, resolved against the page URL */
+export function ogImage(html: string, pageUrl: string): string | null {
+	const $ = cheerio.load(html);
+	const content =
+		$('meta[property="og:image"]').attr("content") ?? $('meta[name="twitter:image"]').attr("content");
+	if (!content) return null;
+	try {
+		return new URL(content, pageUrl).toString();
+	} catch {
+		return null;
+	}
+}
+
+async function fetchInstagramImages(shortcode: string, timeoutMs: number): Promise<string[]> {
+	const response = await fetch(
+		`https://www.instagram.com/api/v1/media/${instagramMediaId(shortcode)}/info/`,
+		{
+			headers: { "User-Agent": "Mozilla/5.0", "X-IG-App-ID": IG_APP_ID },
+			signal: AbortSignal.timeout(timeoutMs),
+		},
+	);
+	if (!response.ok) {
+		await response.body?.cancel();
+		throw new Error(`media info failed: HTTP ${response.status}`);
+	}
+	const body = (await response.json()) as { items?: MediaItem[] };
+	return body.items?.[0] ? mediaItemImages(body.items[0]) : [];
+}
+
+async function fetchPageImage(url: string, timeoutMs: number): Promise<string[]> {
+	const response = await fetch(url, {
+		headers: { "User-Agent": "Mozilla/5.0" },
+		signal: AbortSignal.timeout(timeoutMs),
+	});
+	if (!response.ok) {
+		await response.body?.cancel();
+		throw new Error(`page fetch failed: HTTP ${response.status}`);
+	}
+	const image = ogImage(await response.text(), response.url || url);
+	return image ? [image] : [];
+}
+
+/**
+ * Current image URLs of the post at `urlsource`, poster first.
+ * Instagram falls back to the post page's og:image (poster only) when the
+ * media API refuses the request. Empty when nothing could be resolved.
+ */
+export async function refetchPostImages(urlsource: string, timeoutMs: number): Promise<string[]> {
+	const shortcode = instagramShortcode(urlsource);
+	if (shortcode) {
+		const images = await fetchInstagramImages(shortcode, timeoutMs).catch(() => []);
+		if (images.length > 0) return images;
+	}
+	return fetchPageImage(urlsource, timeoutMs);
+}
@@ -0,0 +1,206 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { pathToFileURL } from "node:url";
+import { config, type PosterStoreConfig, type PosterStoreDriver } from "./config.js";
+import { s3PosterStore } from "./s3-poster-store.js";
+import type { Env } from "./types.js";
+
+/**
+ * Poster storage.
+ *
+ * The pipeline stores posters through this interface, so the same code
+ * runs in Workers (R2 binding), in Bun scripts (S3 API) and in tests
+ * (local directory). The driver comes from config.posterStore; a driver
+ * that is not usable fails loudly instead of keeping Instagram URLs.
+ */
+
+/** A stored object as listed */
+export interface StoredObject {
+	key: string;
+	size: number;
+	uploaded: Date;
+}
+
+/** A stored object with its bytes */
+export interface StoredObjectBody {
+	body: ArrayBuffer;
+	contentType: string | null;
+	metadata: Record<string, string>;
+}
+
+export interface PutObjectOptions {
+	contentType: string;
+	/** Custom metadata (source URL, post, account) */
+	metadata?: Record<string, string>;
+	/** Infrequent access storage class, where the driver has one */
+	cold?: boolean;
+}
+
+/** One page of a listing, `cursor` is set when more pages follow */
+export interface StoredObjectPage {
+	objects: StoredObject[];
+	cursor?: string;
+}
+
+export interface PosterStore {
+	readonly driver: PosterStoreDriver;
+	/** Base URL objects are served from, without trailing slash */
+	readonly publicUrl: string;
+	exists(key: string): Promise<boolean>;
+	get(key: string): Promise<StoredObjectBody | null>;
+	put(key: string, body: ArrayBuffer, options: PutObjectOptions): Promise<void>;
+	delete(keys: readonly string[]): Promise<void>;
+	list(cursor?: string): Promise<StoredObjectPage>;
+}
+
+/** Public URL of an object */
+export function objectUrl(store: PosterStore, key: string): string {
+	return `${store.publicUrl}/${key}`;
+}
+
+/** Every object of a store, following the listing cursor */
+export async function listAllObjects(store: PosterStore): Promise<StoredObject[]> {
+	const objects: StoredObject[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await store.list(cursor);
+		objects.push(...page.objects);
+		cursor = page.cursor;
+	} while (cursor);
+	return objects;
+}
+
+/**
+ * Store backed by the native R2 binding.
+ * Binding operations do NOT count toward the Workers subrequest limit.
+ */
+export function r2PosterStore(bucket: R2Bucket, publicUrl: string): PosterStore {
+	return {
+		driver: "r2",
+		publicUrl: publicUrl.replace(/\/+$/, ""),
+		async exists(key) {
+			return (await bucket.head(key)) !== null;
+		},
+		async get(key) {
+			const object = await bucket.get(key);
+			if (!object) return null;
+			return {
+				body: await object.arrayBuffer(),
+				contentType: object.httpMetadata?.contentType ?? null,
+				metadata: object.customMetadata ?? {},
+			};
+		},
+		async put(key, body, options) {
+			await bucket.put(key, body, {
+				httpMetadata: { contentType: options.contentType },
+				customMetadata: options.metadata,
+				...(options.cold ? { storageClass: "InfrequentAccess" } : {}),
+			});
+		},
+		async delete(keys) {
+			// The binding deletes at most 1000 keys per call
+			for (let i = 0; i < keys.length; i += 1000) {
+				await bucket.delete(keys.slice(i, i + 1000));
+			}
+		},
+		async list(cursor) {
+			const page = await bucket.list({ cursor, limit: 1000 });
+			return {
+				objects: page.objects.map((object) => ({
+					key: object.key,
+					size: object.size,
+					uploaded: object.uploaded,
+				})),
+				cursor: page.truncated ? page.cursor : undefined,
+			};
+		},
+	};
+}
+
+/** Sidecar directory holding content type and metadata of fs objects */
+const FS_META_DIR = ".meta";
+
+/**
+ * Store backed by a local directory, for Bun scripts and tests.
+ * Objects are served as file:// URLs unless `publicUrl` is given.
+ */
+export function fsPosterStore(root: string, publicUrl?: string): PosterStore {
+	const base = resolve(root);
+	const pathOf = (key: string, dir = base) => {
+		const path = resolve(dir, key);
+		if (!path.startsWith(dir + sep)) throw new Error(`Invalid object key: ${key}`);
+		return path;
+	};
+	const metaPathOf = (key: string) => `${pathOf(key, join(base, FS_META_DIR))}.json`;
+
+	return {
+		driver: "fs",
+		publicUrl: (publicUrl ?? pathToFileURL(base).href).replace(/\/+$/, ""),
+		async exists(key) {
+			return (await stat(pathOf(key)).catch(() => null))?.isFile() ?? false;
+		},
+		async get(key) {
+			const body = await readFile(pathOf(key)).catch(() => null);
+			if (!body) return null;
+			const meta = JSON.parse(await readFile(metaPathOf(key), "utf8").catch(() => "{}")) as {
+				contentType?: string;
+				metadata?: Record<string, string>;
+			};
+			return {
+				body: body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer,
+				contentType: meta.contentType ?? null,
+				metadata: meta.metadata ?? {},
+			};
+		},
+		async put(key, body, options) {
+			const path = pathOf(key);
+			await mkdir(dirname(path), { recursive: true });
+			await writeFile(path, new Uint8Array(body));
+			await mkdir(dirname(metaPathOf(key)), { recursive: true });
+			await writeFile(
+				metaPathOf(key),
+				JSON.stringify({ contentType: options.contentType, metadata: options.metadata ?? {} }),
+			);
+		},
+		async delete(keys) {
+			for (const key of keys) {
+				await rm(pathOf(key), { force: true });
+				await rm(metaPathOf(key), { force: true });
+			}
+		},
+		async list() {
+			const entries = await readdir(base, { recursive: true }).catch(() => [] as string[]);
+			const objects: StoredObject[] = [];
+			for (const entry of entries) {
+				const key = relative(base, join(base, entry)).split(sep).join("/");
+				if (key === FS_META_DIR || key.startsWith(`${FS_META_DIR}/`)) continue;
+				const info = await stat(join(base, entry));
+				if (info.isFile()) objects.push({ key, size: info.size, uploaded: info.mtime });
+			}
+			return { objects: objects.sort((a, b) => a.key.localeCompare(b.key)) };
+		},
+	};
+}
+
+/**
+ * Poster store selected by config.posterStore.driver.
+ * Throws when the driver's binding or credentials are missing.
+ */
+export function createPosterStore(
+	env: Pick<Env, "MY_BUCKET" | "R2_PUBLIC_URL">,
+	storeConfig: PosterStoreConfig = config.posterStore,
+): PosterStore {
+	const publicUrl = env.R2_PUBLIC_URL ?? storeConfig.publicUrl;
+
+	switch (storeConfig.driver) {
+		case "r2":
+			if (!env.MY_BUCKET) {
+				throw new Error("Poster store \"r2\" needs the MY_BUCKET binding");
+			}
+			return r2PosterStore(env.MY_BUCKET, publicUrl);
+		case "s3":
+			return s3PosterStore(storeConfig.s3, publicUrl);
+		case "fs":
+			return fsPosterStore(storeConfig.fsRoot);
+	}
+}
@@ -0,0 +1,208 @@
+import * as cheerio from "cheerio";
+import type { S3StoreConfig } from "./config.js";
+import type { PosterStore, StoredObject } from "./poster-store.js";
+
+/**
+ * Poster store over the S3 API (R2's S3 endpoint, MinIO, AWS), for runs
+ * outside Workers where the R2 binding is not available. Requests are
+ * signed with AWS Signature Version 4 using Web Crypto, path-style.
+ */
+
+const EMPTY_SHA256 = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+	return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+	return toHex(await crypto.subtle.digest("SHA-256", typeof data === "string" ? encoder.encode(data) : data));
+}
+
+async function hmac(key: ArrayBuffer | string, data: string): Promise<ArrayBuffer> {
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		typeof key === "string" ? encoder.encode(key) : key,
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+}
+
+/** RFC 3986 encoding required by SigV4 (encodeURIComponent leaves !'()* alone) */
+function uriEncode(value: string): string {
+	return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** Request to sign; `headers` must not contain Authorization yet */
+export interface SignableRequest {
+	method: string;
+	url: URL;
+	headers: Record<string, string>;
+	/** Hex SHA-256 of the body */
+	payloadHash: string;
+}
+
+/**
+ * Add SigV4 headers (x-amz-date, x-amz-content-sha256, Authorization)
+ * to an S3 request. Every header passed in is signed.
+ */
+export async function signS3Request(
+	request: SignableRequest,
+	credentials: Pick<S3StoreConfig, "accessKeyId" | "secretAccessKey" | "region">,
+	now: Date = new Date(),
+): Promise<Record<string, string>> {
+	const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+	const date = amzDate.slice(0, 8);
+	const headers: Record<string, string> = {
+		...request.headers,
+		host: request.url.host,
+		"x-amz-content-sha256": request.payloadHash,
+		"x-amz-date": amzDate,
+	};
+
+	const names = Object.keys(headers)
+		.map((name) => name.toLowerCase())
+		.sort();
+	const lowered = Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, " ")]),
+	);
+	const query = [...request.url.searchParams]
+		.map(([name, value]) => [uriEncode(name), uriEncode(value)])
+		.sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+		.map(([name, value]) => `${name}=${value}`)
+		.join("&");
+	const path = request.url.pathname
+		.split("/")
+		.map((segment) => uriEncode(decodeURIComponent(segment)))
+		.join("/");
+
+	const canonicalRequest = [
+		request.method,
+		path,
+		query,
+		names.map((name) => `${name}:${lowered[name]}\n`).join(""),
+		names.join(";"),
+		request.payloadHash,
+	].join("\n");
+
+	const scope = `${date}/${credentials.region}/s3/aws4_request`;
+	const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, await sha256Hex(canonicalRequest)].join("\n");
+
+	const dateKey = await hmac(`AWS4${credentials.secretAccessKey}`, date);
+	const regionKey = await hmac(dateKey, credentials.region);
+	const serviceKey = await hmac(regionKey, "s3");
+	const signingKey = await hmac(serviceKey, "aws4_request");
+	const signature = toHex(await hmac(signingKey, stringToSign));
+
+	return {
+		...headers,
+		authorization:
+			`AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+			`SignedHeaders=${names.join(";")}, Signature=${signature}`,
+	};
+}
+
+/**
+ * Store backed by an S3-compatible bucket.
+ * Throws when credentials are missing.
+ */
+export function s3PosterStore(s3: S3StoreConfig, publicUrl: string): PosterStore {
+	if (!s3.accessKeyId || !s3.secretAccessKey) {
+		throw new Error("Poster store \"s3\" needs S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+	}
+	const bucketUrl = `${s3.endpoint.replace(/\/+$/, "")}/${s3.bucket}`;
+
+	async function send(
+		method: string,
+		url: URL,
+		body?: ArrayBuffer,
+		headers: Record<string, string> = {},
+	): Promise<Response> {
+		const payloadHash = body ? await sha256Hex(body) : EMPTY_SHA256;
+		const signed = await signS3Request({ method, url, headers, payloadHash }, s3);
+		delete signed.host;
+		return fetch(url, { method, headers: signed, body });
+	}
+
+	const objectUrl = (key: string) =>
+		new URL(`${bucketUrl}/${key.split("/").map(uriEncode).join("/")}`);
+
+	async function fail(response: Response, operation: string): Promise<never> {
+		const detail = (await response.text()).slice(0, 200);
+		throw new Error(`S3 ${operation} failed: HTTP ${response.status} ${detail}`);
+	}
+
+	return {
+		driver: "s3",
+		publicUrl: publicUrl.replace(/\/+$/, ""),
+		async exists(key) {
+			const response = await send("HEAD", objectUrl(key));
+			if (response.status === 404) return false;
+			if (!response.ok) return fail(response, "HEAD");
+			return true;
+		},
+		async get(key) {
+			const response = await send("GET", objectUrl(key));
+			if (response.status === 404) {
+				await response.body?.cancel();
+				return null;
+			}
+			if (!response.ok) return fail(response, "GET");
+
+			const metadata: Record<string, string> = {};
+			response.headers.forEach((value, name) => {
+				if (name.startsWith("x-amz-meta-")) metadata[name.slice("x-amz-meta-".length)] = value;
+			});
+			return {
+				body: await response.arrayBuffer(),
+				contentType: response.headers.get("content-type"),
+				metadata,
+			};
+		},
+		async put(key, body, options) {
+			const headers: Record<string, string> = { "content-type": options.contentType };
+			for (const [name, value] of Object.entries(options.metadata ?? {})) {
+				// Header values must be ASCII
+				headers[`x-amz-meta-${name.toLowerCase()}`] = value.replace(/[^\x20-\x7e]/g, "?");
+			}
+			if (options.cold) headers["x-amz-storage-class"] = "STANDARD_IA";
+
+			const response = await send("PUT", objectUrl(key), body, headers);
+			if (!response.ok) return fail(response, "PUT");
+			await response.body?.cancel();
+		},
+		async delete(keys) {
+			for (const key of keys) {
+				const response = await send("DELETE", objectUrl(key));
+				if (!response.ok && response.status !== 404) return fail(response, "DELETE");
+				await response.body?.cancel();
+			}
+		},
+		async list(cursor) {
+			const url = new URL(bucketUrl);
+			url.searchParams.set("list-type", "2");
+			url.searchParams.set("max-keys", "1000");
+			if (cursor) url.searchParams.set("continuation-token", cursor);
+
+			const response = await send("GET", url);
+			if (!response.ok) return fail(response, "LIST");
+
+			const $ = cheerio.load(await response.text(), { xml: true });
+			const objects: StoredObject[] = $("Contents")
+				.toArray()
+				.map((el) => ({
+					key: $(el).children("Key").text(),
+					size: Number($(el).children("Size").text()),
+					uploaded: new Date($(el).children("LastModified").text()),
+				}));
+			const truncated = $("IsTruncated").first().text() === "true";
+			return {
+				objects,
+				cursor: truncated ? $("NextContinuationToken").first().text() || undefined : undefined,
+			};
+		},
+	};
+}
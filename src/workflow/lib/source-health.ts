@@ -0,0 +1,151 @@
+import type { Sql } from "postgres";
+import type { SourceHealthConfig } from "./config.js";
+
+/**
+ * Per-source health (one row per ScraperSource id).
+ *
+ * Every pipeline run records its outcome. A source whose listing comes
+ * back empty for `quarantineAfterEmptyRuns` runs in a row (usually a
+ * layout change breaking its selectors) is quarantined: it is skipped
+ * except for one probe run every `quarantineProbeHours`, and released as
+ * soon as a run yields posts again.
+ */
+
+/** Persisted health of one source */
+export interface SourceHealth {
+	sourceId: string;
+	lastRunAt: Date | null;
+	lastSuccessAt: Date | null;
+	lastError: string | null;
+	/** Consecutive runs whose scrape threw */
+	errorStreak: number;
+	/** Consecutive runs whose listing returned nothing */
+	emptyStreak: number;
+	runs: number;
+	successRuns: number;
+	/** Mean posts per successful run */
+	avgYield: number;
+	quarantinedAt: Date | null;
+	quarantineReason: string | null;
+}
+
+/** Outcome of one pipeline run for a source */
+export type SourceRunOutcome =
+	| { status: "ok"; yield: number }
+	| { status: "empty"; error: string }
+	| { status: "error"; error: string };
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/** Health of a source that has never run */
+export function emptySourceHealth(sourceId: string): SourceHealth {
+	return {
+		sourceId,
+		lastRunAt: null,
+		lastSuccessAt: null,
+		lastError: null,
+		errorStreak: 0,
+		emptyStreak: 0,
+		runs: 0,
+		successRuns: 0,
+		avgYield: 0,
+		quarantinedAt: null,
+		quarantineReason: null,
+	};
+}
+
+/**
+ * Health after a run: updates streaks and average yield, quarantines the
+ * source on its Kth empty run in a row and releases it on a successful one.
+ */
+export function applyRunOutcome(
+	prev: SourceHealth,
+	outcome: SourceRunOutcome,
+	policy: SourceHealthConfig,
+	now: Date = new Date(),
+): SourceHealth {
+	const next: SourceHealth = { ...prev, lastRunAt: now, runs: prev.runs + 1 };
+
+	switch (outcome.status) {
+		case "ok":
+			next.lastSuccessAt = now;
+			next.lastError = null;
+			next.errorStreak = 0;
+			next.emptyStreak = 0;
+			next.avgYield = (prev.avgYield * prev.successRuns + outcome.yield) / (prev.successRuns + 1);
+			next.successRuns = prev.successRuns + 1;
+			next.quarantinedAt = null;
+			next.quarantineReason = null;
+			break;
+
+		case "empty":
+			next.lastError = outcome.error;
+			next.emptyStreak = prev.emptyStreak + 1;
+			if (!prev.quarantinedAt && next.emptyStreak >= policy.quarantineAfterEmptyRuns) {
+				next.quarantinedAt = now;
+				next.quarantineReason = `0 posts for ${next.emptyStreak} consecutive runs`;
+			}
+			break;
+
+		case "error":
+			next.lastError = outcome.error;
+			next.errorStreak = prev.errorStreak + 1;
+			break;
+	}
+
+	return next;
+}
+
+/**
+ * Whether a quarantined source should be skipped now. One probe run is
+ * let through every quarantineProbeHours so a fixed site is picked up again.
+ */
+export function isQuarantined(
+	health: SourceHealth | undefined,
+	policy: SourceHealthConfig,
+	now: Date = new Date(),
+): boolean {
+	if (!health?.quarantinedAt) return false;
+	const lastRun = health.lastRunAt ?? health.quarantinedAt;
+	return now.getTime() - new Date(lastRun).getTime() < policy.quarantineProbeHours * MS_PER_HOUR;
+}
+
+/**
+ * Load the health of several sources, keyed by source id.
+ * Sources that never ran are missing from the map.
+ */
+export async function getSourceHealth(
+	sql: Sql<Record<string, never>>,
+	sourceIds: readonly string[],
+): Promise<Map<string, SourceHealth>> {
+	if (sourceIds.length === 0) return new Map();
+
+	const rows = await sql<SourceHealth[]>`
+    SELECT * FROM source_health
+    WHERE "sourceId" IN ${sql(sourceIds as string[])}
+  `;
+	return new Map(rows.map((row) => [row.sourceId, row]));
+}
+
+/**
+ * Store a source's health.
+ */
+export async function saveSourceHealth(
+	sql: Sql<Record<string, never>>,
+	health: SourceHealth,
+): Promise<void> {
+	await sql`
+    INSERT INTO source_health ${sql(health)}
+    ON CONFLICT ("sourceId") DO UPDATE
+    SET "lastRunAt" = EXCLUDED."lastRunAt",
+        "lastSuccessAt" = EXCLUDED."lastSuccessAt",
+        "lastError" = EXCLUDED."lastError",
+        "errorStreak" = EXCLUDED."errorStreak",
+        "emptyStreak" = EXCLUDED."emptyStreak",
+        "runs" = EXCLUDED."runs",
+        "successRuns" = EXCLUDED."successRuns",
+        "avgYield" = EXCLUDED."avgYield",
+        "quarantinedAt" = EXCLUDED."quarantinedAt",
+        "quarantineReason" = EXCLUDED."quarantineReason"
+  `;
+}
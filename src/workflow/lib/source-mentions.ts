@@ -0,0 +1,59 @@
+import type { Sql } from "postgres";
+import type { SourceMentionRow } from "../../schema.js";
+
+/**
+ * Provenance of competitions: every post that promoted a lomba, one row
+ * per urlsource, linked to the canonical competition row.
+ *
+ * The post a competition was created from is recorded as "original".
+ * Reposts found by dedup are recorded here instead of being dropped, so
+ * we know which accounts promoted each lomba. Competitions merged after
+ * extraction (lib/competition-dedup.ts) keep their post as "extraction".
+ */
+
+/** How a mention was tied to its competition */
+export type MentionMatch = "original" | "description" | "caption" | "poster" | "extraction";
+
+/** One post promoting a competition */
+export interface SourceMention {
+	competitionId: number;
+	urlsource: string;
+	/** PostSource of the post ("instagram", "web") */
+	source: string | null;
+	/** Account or site the post came from */
+	account: string | null;
+	matchedBy: MentionMatch;
+	/** Caption similarity or poster hash distance, null for exact matches */
+	score: number | null;
+}
+
+/**
+ * The subset of `urls` already recorded as mentions, so reposts are not
+ * matched twice.
+ */
+export async function findMentionedUrls(
+	sql: Sql<Record<string, never>>,
+	urls: readonly string[],
+): Promise<Set<string>> {
+	if (urls.length === 0) return new Set();
+	const rows = await sql<Pick<SourceMentionRow, "urlsource">[]>`
+    SELECT urlsource FROM source_mentions WHERE urlsource IN ${sql(urls)}
+  `;
+	return new Set(rows.map((r) => r.urlsource));
+}
+
+/**
+ * Store mentions; a urlsource that is already recorded keeps its first link.
+ */
+export async function recordMentions(
+	sql: Sql<Record<string, never>>,
+	mentions: readonly SourceMention[],
+): Promise<void> {
+	const rows = mentions.filter((m) => m.urlsource);
+	if (rows.length === 0) return;
+
+	await sql`
+    INSERT INTO source_mentions ${sql(rows as SourceMention[], "competitionId", "urlsource", "source", "account", "matchedBy", "score")}
+    ON CONFLICT (urlsource) DO NOTHING
+  `;
+}
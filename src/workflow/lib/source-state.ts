@@ -0,0 +1,93 @@
+import type { Sql } from "postgres";
+
+/**
+ * Per-source crawl state (high-water marks).
+ *
+ * One row per source id, holding the newest item seen on the last
+ * successful crawl so the next run can stop once it reaches it.
+ *
+ * Scrapers only propose the next cursor (ScrapeResult.cursors); insertToDb
+ * saves it together with the posts, so a failed upload or insert leaves
+ * the old cursor and the posts are fetched again on the next run.
+ */
+
+/** Persisted crawl state for one source */
+export interface SourceCursor {
+	sourceId: string;
+	/** Newest item seen on the last crawl (post link, shortcode, ...) */
+	cursor: string | null;
+	/** Publish time of the cursor item, when known */
+	cursorAt: Date | null;
+	updatedAt: Date;
+}
+
+/** Next high-water mark of a source, proposed by a scrape */
+export interface CursorUpdate {
+	sourceId: string;
+	cursor: string;
+	cursorAt: Date | null;
+}
+
+/**
+ * Load the high-water mark for a source, or null on its first crawl.
+ */
+export async function getSourceCursor(
+	sql: Sql<Record<string, never>>,
+	sourceId: string,
+): Promise<SourceCursor | null> {
+	const rows = await sql<SourceCursor[]>`
+    SELECT "sourceId", "cursor", "cursorAt", "updatedAt"
+    FROM source_state
+    WHERE "sourceId" = ${sourceId}
+  `;
+	return rows[0] ?? null;
+}
+
+/**
+ * Load the high-water marks of several sources, keyed by source id.
+ * Sources on their first crawl are missing from the map.
+ */
+export async function getSourceCursors(
+	sql: Sql<Record<string, never>>,
+	sourceIds: readonly string[],
+): Promise<Map<string, SourceCursor>> {
+	if (sourceIds.length === 0) return new Map();
+
+	const rows = await sql<SourceCursor[]>`
+    SELECT "sourceId", "cursor", "cursorAt", "updatedAt"
+    FROM source_state
+    WHERE "sourceId" IN ${sql(sourceIds as string[])}
+  `;
+	return new Map(rows.map((row) => [row.sourceId, row]));
+}
+
+/**
+ * Store the high-water mark for a source.
+ */
+export async function saveSourceCursor(
+	sql: Sql<Record<string, never>>,
+	sourceId: string,
+	cursor: string,
+	cursorAt: Date | null = null,
+): Promise<void> {
+	await sql`
+    INSERT INTO source_state ("sourceId", "cursor", "cursorAt", "updatedAt")
+    VALUES (${sourceId}, ${cursor}, ${cursorAt}, NOW())
+    ON CONFLICT ("sourceId") DO UPDATE
+    SET "cursor" = EXCLUDED."cursor",
+        "cursorAt" = EXCLUDED."cursorAt",
+        "updatedAt" = NOW()
+  `;
+}
+
+/**
+ * Store the high-water marks proposed by a scrape.
+ */
+export async function saveSourceCursors(
+	sql: Sql<Record<string, never>>,
+	updates: readonly CursorUpdate[],
+): Promise<void> {
+	for (const { sourceId, cursor, cursorAt } of updates) {
+		await saveSourceCursor(sql, sourceId, cursor, cursorAt);
+	}
+}
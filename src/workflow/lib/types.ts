@@ -2,6 +2,12 @@
  * Shared TypeScript interfaces for the workflow.
  */
 
+import type { EnhancedLogger } from "../../utils/enhanced-logger.js";
+import type { SourceRetryPolicy } from "./config.js";
+import type { BioLink } from "./bio-links.js";
+import type { PosterKeys } from "./poster-images.js";
+import type { CursorUpdate } from "./source-state.js";
+
 /** Valid competition formats */
 export type CompetitionFormat = "Online" | "Offline" | "Hybrid";
 
@@ -18,10 +24,15 @@ export type PostSource = "web" | "instagram";
 export interface ScrapedPost {
 	title: string | null;
 	link: string;
+	/** Poster sent to WhatsApp, always images[0] when images is non-empty */
 	image: string;
+	/** All poster images in order (carousel slides for Instagram) */
+	images: string[];
 	description: string;
 	source: PostSource;
 	username: string;
+	/** Account bio links, set when the caption says "link di bio" */
+	bioLinks?: BioLink[];
 }
 
 /** AI-extracted competition data */
@@ -42,29 +53,13 @@ export interface AIExtractedData {
 	benefits?: string;
 }
 
-/** Database competition record */
-export interface DbCompetition {
-	id: number;
-	title: string | null;
-	description: string | null;
-	poster: string | null;
-	urlsource: string | null;
-	url: string | null;
-	level: ParticipantLevel[] | null;
-	endDate: string | null;
-	status: string;
-}
-
 /** Environment configuration */
 export interface Env {
 	DATABASE_URL: string;
-	/** Native R2 bucket binding (does not count toward subrequest limit) */
-	MY_BUCKET: R2Bucket;
-	/** Legacy R2 credentials for S3 SDK (fallback, not recommended) */
-	R2_ACCESS_KEY_ID?: string;
-	R2_SECRET_ACCESS_KEY?: string;
-	R2_ENDPOINT?: string;
-	R2_BUCKET?: string;
+	/** Native R2 bucket binding for the "r2" poster store (does not count toward subrequest limit) */
+	MY_BUCKET?: R2Bucket;
+	/** Cloudflare Images binding, posters are stored unresized without it */
+	IMAGES?: ImagesBinding;
 	R2_PUBLIC_URL?: string;
 	WAHA_BASE_URL?: string;
 	WAHA_API_KEY?: string;
@@ -80,6 +75,14 @@ export interface UploadResult {
 	success: boolean;
 	originalUrl: string;
 	r2Url?: string;
+	/** Content-addressed object key of the image sent to WhatsApp */
+	key?: string;
+	/** The object already existed and was not uploaded again */
+	reused?: boolean;
+	/** dHash of the uploaded image, when requested and decodable */
+	posterHash?: string | null;
+	/** Keys of the poster variants, first slide only */
+	posterKeys?: PosterKeys;
 	error?: string;
 }
 
@@ -96,6 +99,12 @@ export interface SkippedCounts {
 	skippedUrl: number;
 	skippedDescription: number;
 	skippedDuplication: number;
+	/** Near-duplicate captions recorded as mentions of an existing competition */
+	skippedCaption: number;
+	/** Near-duplicate posters dropped (dedup.posterDuplicateAction "skip") */
+	skippedPoster: number;
+	/** Near-duplicate posters stored as duplicates ("link") */
+	linkedPoster: number;
 }
 
 /** Result of database update operation */
@@ -115,7 +124,11 @@ export interface WhatsAppSendResult {
 export interface ScrapeResult {
 	count: number;
 	posts: ScrapedPost[];
+	/** Items the source listed before incremental filtering (defaults to count) */
+	scanned?: number;
 	errors?: ScrapeError[];
+	/** Next high-water marks, saved by insertToDb once the posts are stored */
+	cursors?: CursorUpdate[];
 }
 
 /** Error from scraping operation */
@@ -124,3 +137,44 @@ export interface ScrapeError {
 	error: string;
 	code?: string;
 }
+
+/** Kind of scraper source */
+export type SourceKind = "instagram" | "web" | "feed";
+
+/** A scraper source the parallel pipeline can run */
+export interface ScraperSource {
+	/** Unique id, also used as the pipeline name in logs and summaries */
+	id: string;
+	kind: SourceKind;
+	/** Cron expression this source runs on */
+	schedule: string;
+	retry: SourceRetryPolicy;
+	enabled: boolean;
+	scrape(context?: ScrapeContext): Promise<ScrapeResult>;
+}
+
+/** Runtime context handed to ScraperSource.scrape() */
+export interface ScrapeContext {
+	log?: EnhancedLogger;
+	/** Enables incremental crawling against the database when DATABASE_URL is set */
+	env?: Env;
+	/** Instagram accounts to scrape instead of config.instagram.accounts */
+	instagramAccounts?: InstagramAccountRequest[];
+}
+
+/**
+ * How an Instagram account is scraped:
+ * - incremental: posts newer than the account's stored cursor
+ *   (the newest imageLimit posts on its first run)
+ * - backfill: every fetched post from the last backfillDays days
+ */
+export type InstagramScrapeMode = "incremental" | "backfill";
+
+/** Instagram account requested for a scrape run */
+export interface InstagramAccountRequest {
+	username: string;
+	/** Defaults to "incremental" */
+	mode?: InstagramScrapeMode;
+	/** Backfill window, defaults to config.instagram.backfillDays */
+	backfillDays?: number;
+}
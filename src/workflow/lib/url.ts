@@ -0,0 +1,104 @@
+/**
+ * URL canonicalization for urlsource and registration links.
+ *
+ * The same post shows up as `instagram.com/p/X/`, `www.instagram.com/p/X`
+ * or `.../p/X/?img_index=1&igsh=...`, and extracted registration links
+ * carry share/tracking params. Canonical URLs make them compare equal.
+ */
+
+/** Query params that only track the share, never select content */
+const TRACKING_PARAMS = new Set(["igsh", "igshid", "img_index", "fbclid", "gclid", "mc_cid", "mc_eid"]);
+
+/** Share params of specific hosts; elsewhere the same names may select content */
+const HOST_TRACKING_PARAMS: Record<string, ReadonlySet<string>> = {
+	"youtu.be": new Set(["si"]),
+	"youtube.com": new Set(["si"]),
+	"m.youtube.com": new Set(["si"]),
+	"open.spotify.com": new Set(["si"]),
+};
+
+/**
+ * Hosts that serve a path the same with or without a trailing slash (short
+ * links, forms, link pages). Other sites may route them differently, so
+ * their slash is kept.
+ */
+const SLASH_INSENSITIVE_HOSTS = new Set([
+	"bit.ly",
+	"s.id",
+	"tinyurl.com",
+	"t.ly",
+	"forms.gle",
+	"docs.google.com",
+	"linktr.ee",
+	"bio.link",
+	"lynk.id",
+]);
+
+const INSTAGRAM_HOSTS = new Set(["instagram.com", "www.instagram.com", "m.instagram.com"]);
+
+/** Post, reel and IGTV paths all address the same media by shortcode */
+const INSTAGRAM_POST_PATH = /^\/(?:[\w.]+\/)?(?:p|reels?|tv)\/([\w-]+)/;
+
+function isTrackingParam(name: string, host: string): boolean {
+	const key = name.toLowerCase();
+	return key.startsWith("utm_") || TRACKING_PARAMS.has(key) || !!HOST_TRACKING_PARAMS[host]?.has(key);
+}
+
+/** Parse with an https:// default for bare "bit.ly/abc" style links */
+function parseUrl(raw: string): URL | null {
+	const value = raw.trim();
+	if (!value) return null;
+	const withScheme = /^[a-z][a-z\d+.-]*:(?!\d)/i.test(value) ? value : `https://${value}`;
+	try {
+		const url = new URL(withScheme);
+		return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Shortcode of an Instagram post/reel URL, or null for other URLs.
+ */
+export function instagramShortcode(raw: string): string | null {
+	const url = parseUrl(raw);
+	if (!url || !INSTAGRAM_HOSTS.has(url.hostname.toLowerCase())) return null;
+	return INSTAGRAM_POST_PATH.exec(url.pathname)?.[1] ?? null;
+}
+
+/**
+ * Canonical form of a URL:
+ * - Instagram posts and reels become `https://www.instagram.com/p/<shortcode>/`
+ * - host lowercased, default port and empty fragment dropped
+ * - utm_* and share params (igsh, fbclid, ...) removed, plus `si` on
+ *   YouTube and Spotify
+ * - trailing slash removed from the path on short-link and form hosts
+ *
+ * Strings that are not http(s) URLs are returned trimmed but unchanged.
+ */
+export function canonicalizeUrl(raw: string): string {
+	const url = parseUrl(raw);
+	if (!url) return raw.trim();
+
+	const shortcode = instagramShortcode(url.href);
+	if (shortcode) return `https://www.instagram.com/p/${shortcode}/`;
+
+	url.hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+	if (INSTAGRAM_HOSTS.has(url.hostname)) {
+		url.protocol = "https:";
+		url.hostname = "www.instagram.com";
+	}
+
+	// Only touch searchParams when needed, it re-encodes the whole query
+	const host = url.hostname.replace(/^www\./, "");
+	for (const name of [...url.searchParams.keys()].filter((key) => isTrackingParam(key, host))) {
+		url.searchParams.delete(name);
+	}
+
+	if (url.pathname.length > 1 && SLASH_INSENSITIVE_HOSTS.has(host)) {
+		url.pathname = url.pathname.replace(/\/+$/, "");
+	}
+
+	// URL keeps a bare "?" or "#" once all params are removed
+	return url.href.replace(/\?(?=#|$)/, "").replace(/#$/, "");
+}
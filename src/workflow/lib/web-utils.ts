@@ -0,0 +1,76 @@
+import postgres from "postgres";
+import type { SimpleLogger } from "../../utils/logger.js";
+import { config, type ImageRewrite } from "./config.js";
+import { getSourceCursor } from "./source-state.js";
+import type { Env } from "./types.js";
+
+/**
+ * Helpers shared by the web and feed scrapers.
+ */
+
+/** Resolve a possibly relative URL against the page URL */
+export function toAbsoluteUrl(url: string, baseUrl: string): string | null {
+	try {
+		return new URL(url, baseUrl).toString();
+	} catch {
+		return null;
+	}
+}
+
+/** Normalize image URL to absolute and apply the source's rewrite rule */
+export function normalizeImageUrl(url: string, baseUrl: string, rewrite?: ImageRewrite): string {
+	const abs = toAbsoluteUrl(url, baseUrl);
+	if (!abs) return "";
+	if (!rewrite) return abs;
+	return abs.replace(new RegExp(rewrite.pattern), rewrite.replacement);
+}
+
+/** Clean description text */
+export function cleanDescription(text: string): string {
+	return text
+		.replace(/\s+/g, " ")
+		.replace(/\u00a0/g, " ")
+		.trim();
+}
+
+/** Database handle and high-water mark for an incremental crawl */
+export interface CrawlState {
+	/** Null when no database is configured or the state could not be read */
+	sql: ReturnType<typeof postgres> | null;
+	cursor: string | null;
+	close(): Promise<void>;
+}
+
+/**
+ * Open the database and load a source's high-water mark.
+ * Crawl state never blocks scraping: on failure the crawl runs without it.
+ */
+export async function openCrawlState(
+	env: Env | undefined,
+	sourceId: string,
+	logger: SimpleLogger,
+): Promise<CrawlState> {
+	if (!env?.DATABASE_URL) {
+		return { sql: null, cursor: null, close: async () => {} };
+	}
+
+	const sql = postgres(env.DATABASE_URL, { ssl: config.db.ssl, max: 1 });
+	const close = async () => {
+		try {
+			await sql.end({ timeout: 10 });
+		} catch {
+			// Ignore cleanup errors
+		}
+	};
+
+	try {
+		const cursor = (await getSourceCursor(sql, sourceId))?.cursor ?? null;
+		return { sql, cursor, close };
+	} catch (error) {
+		logger.warn("Crawl state unavailable, scraping without it", {
+			message: error instanceof Error ? error.message : String(error),
+		});
+		await close();
+		return { sql: null, cursor: null, close: async () => {} };
+	}
+}
@@ -1,5 +1,6 @@
 import { WorkflowEntrypoint, WorkflowStep } from "cloudflare:workers";
 import type { WorkflowEvent } from "cloudflare:workers";
+import { toAccountRequests } from "../workflow/1.ig-scrape.js";
 import { scrapeAllSources } from "../workflow/1.parallel-scrape.js";
 import { uploadToR2 } from "../workflow/2.upload-to-r2.js";
 import { insertToDb } from "../workflow/3.insertdb.js";
@@ -9,6 +10,7 @@ import {
 	logError,
 	ErrorCategory,
 } from "../utils/enhanced-logger.js";
+import type { InstagramAccountRequest } from "../workflow/lib/types.js";
 
 /**
  * Cloudflare Workers Workflow - Competition Automation
@@ -20,18 +22,18 @@ import {
  */
 
 export interface CompetitionWorkflowParams {
-	/** Instagram usernames to scrape (optional, uses config default) */
-	accounts?: string[];
+	/**
+	 * Instagram accounts to scrape (optional, uses config default).
+	 * Plain usernames are scraped incrementally from their cursor;
+	 * `{ username, mode: "backfill", backfillDays }` backfills a new account.
+	 */
+	accounts?: (string | InstagramAccountRequest)[];
 	/** Maximum posts per account */
 	imageLimit?: number;
 }
 
 export type Env = {
 	DATABASE_URL: string;
-	R2_ACCESS_KEY_ID: string;
-	R2_SECRET_ACCESS_KEY: string;
-	R2_ENDPOINT: string;
-	R2_BUCKET: string;
 	R2_PUBLIC_URL: string;
 	MY_BUCKET: R2Bucket;
 	WAHA_BASE_URL?: string;
@@ -42,7 +44,9 @@ export type Env = {
 	INNGEST_API_KEY?: string;
 	SCRAPING_SECRET_CODE?: string;
 	COMPETITION_WORKFLOW: {
-		create: () => Promise<{ id: string; output: any }>;
+		create: (options?: {
+			params?: CompetitionWorkflowParams;
+		}) => Promise<{ id: string; output: any }>;
 		get: (id: string) => Promise<{ status: () => Promise<string> }>;
 	};
 };
@@ -51,6 +55,7 @@ export interface ScrapedPost {
 	title: string | null;
 	link: string;
 	image: string;
+	images: string[];
 	description: string;
 	source: string;
 	username: string;
@@ -60,6 +65,7 @@ export interface PostForDb {
 	title: string | null;
 	link: string;
 	image: string;
+	images: string[];
 	description: string;
 }
 
@@ -93,7 +99,12 @@ export class CompetitionAutomationWorkflow extends WorkflowEntrypoint<
 				},
 				async () => {
 					log.info("Workflow Step 1: Parallel scraping started");
-					const result = await scrapeAllSources(log);
+					const accounts = event.payload?.accounts;
+					const result = await scrapeAllSources(
+						log,
+						this.env,
+						accounts ? toAccountRequests(accounts) : undefined,
+					);
 					log.info(`Workflow Step 1: Parallel scraping completed ${result.count} posts`);
 					return result;
 				},
@@ -147,7 +158,8 @@ export class CompetitionAutomationWorkflow extends WorkflowEntrypoint<
 				},
 				async () => {
 					log.info(`Workflow Step 3: Inserting to database ${uploadResult.length}`);
-					const result = await insertToDb(uploadResult, this.env, log);
+					// Scrape cursors only advance once their posts are stored
+					const result = await insertToDb(uploadResult, this.env, log, scrapeResult.cursors);
 
 					if (!result || typeof result !== "object" || !("count" in result)) {
 						throw new Error("Database insert returned invalid result");
@@ -1,11 +1,15 @@
 // Test script untuk infolomba.id scraper
 // Run: bun run test-infolombaid.ts
 
-import { scrape } from "./src/workflow/1.web-scrape-infolombaid.js";
+import { scrapeWebSource } from "./src/workflow/1.web-scrape.js";
+import { config, type HtmlScrapingSource } from "./src/workflow/lib/config.js";
 
 console.log("=== Testing infolomba.id Scraper ===\n");
 
-const result = await scrape();
+const source = config.webScraping.sources.find(
+  (s): s is HtmlScrapingSource => s.name === "infolombaid" && s.kind === "html",
+)!;
+const result = await scrapeWebSource(source);
 
 console.log("\n=== Results ===");
 console.log("Total posts:", result.count);